@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+
+/**
+ * The `notesdb` command line script (see `lib/cli.ts`).
+ *
+ */
+
+'use strict';
+
+import {main} from '../lib/cli';
+
+main(process.argv.slice(2));
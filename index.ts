@@ -1,10 +1,38 @@
 import {Artifact} from './lib/artifact';
+import {AttachmentInfo} from './lib/attachments';
 import {Binder, NotebookDetails} from './lib/binder';
 import {BinderManager} from './lib/bindermanager';
+import {Events} from './lib/events';
+import {CommitInfo} from './lib/gitstore';
+import {IntegrityIssue, IntegrityReport} from './lib/integrity';
+import {JournalEntry, JournalOpts} from './lib/journal';
+import {BrokenLink} from './lib/links';
+import {QueryResult} from './lib/query';
+import {ServerOpts, startServer} from './lib/server';
+import {SyncReport} from './lib/sync';
+import {TagInfo} from './lib/tags';
+import {TemplateVars} from './lib/templates';
+import {TrashEntry, TrashOpts} from './lib/trashlog';
 
 export {
 	Artifact,
+	AttachmentInfo,
 	Binder,
 	BinderManager,
-	NotebookDetails
+	BrokenLink,
+	CommitInfo,
+	Events,
+	IntegrityIssue,
+	IntegrityReport,
+	JournalEntry,
+	JournalOpts,
+	NotebookDetails,
+	QueryResult,
+	ServerOpts,
+	startServer,
+	SyncReport,
+	TagInfo,
+	TemplateVars,
+	TrashEntry,
+	TrashOpts
 };
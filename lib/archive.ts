@@ -0,0 +1,206 @@
+/**
+ * This module contains the code that packs a binder into a single archive
+ * file and unpacks it again.  The archive is a gzipped JSON document that
+ * holds the binder configuration and the contents of its data and
+ * configuration directories.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {join, normalize} from 'util.join';
+import * as zlib from 'zlib';
+import {ConfigDB} from './binder';
+import {tempExt} from './savejournal';
+
+const walk = require('klaw-sync');
+
+export interface ArchiveFile {
+	data: string;  // null for a directory
+	mtime: number;
+}
+
+export interface ArchiveFiles {
+	[key: string]: ArchiveFile;
+}
+
+export interface BinderArchive {
+	format: string;
+	version: number;
+	binderName: string;
+	created: Date;
+	config: ConfigDB;
+	data: ArchiveFiles;
+	settings: ArchiveFiles;
+}
+
+export interface RelocateOpts {
+	binderName: string;
+	configRoot: string;
+	root: string;
+}
+
+export const archiveFormat: string = 'notesdb-archive';
+export const archiveVersion: number = 1;
+
+// Files in the configuration directory that belong to the running binder
+// and are not carried to another machine.
+const localFiles: string[] = ['.log', 'journal.json', 'sync.json', tempExt];
+
+/**
+ * Reads every file and directory below a directory into an archive file
+ * list.  The keys of the list are the paths relative to the directory.  The
+ * contents of a file are base64 encoded so that any file can be kept.
+ * Directories are kept so that empty sections and notebooks are not lost.
+ * @param directory {string} the directory to read
+ * @param [exclude] {string[]} files whose path contains one of these
+ * strings are skipped.
+ * @returns {ArchiveFiles} the files below the directory
+ */
+export function packDirectory(directory: string, exclude: string[] = []): ArchiveFiles {
+	const files: ArchiveFiles = {};
+
+	if (!fs.existsSync(directory)) {
+		return files;
+	}
+
+	for (const file of walk(directory)) {
+		const relpath: string = normalize(file.path).replace(`${normalize(directory)}/`, '');
+
+		if (!exclude.some((it: string) => relpath.indexOf(it) > -1)) {
+			files[relpath] = {
+				data: (file.stats.isDirectory()) ? null : fs.readFileSync(file.path).toString('base64'),
+				mtime: file.stats.mtime.getTime()
+			};
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Writes the files and directories from an archive file list below a
+ * directory.  The modification time of each file is restored.
+ * @param directory {string} the directory where the files are written
+ * @param files {ArchiveFiles} the files to write
+ * @throws {Error} when a file would be written outside of the directory.
+ */
+export function unpackDirectory(directory: string, files: ArchiveFiles) {
+	fs.mkdirsSync(directory);
+
+	for (const relpath of Object.keys(files)) {
+		const filename = join(directory, relpath);
+
+		if (path.relative(directory, filename).startsWith('..')) {
+			throw new Error(`Invalid path '${relpath}' in archive`);
+		}
+
+		if (files[relpath].data == null) {
+			fs.mkdirsSync(filename);
+		} else {
+			const mtime = new Date(files[relpath].mtime);
+
+			fs.mkdirsSync(path.dirname(filename));
+			fs.writeFileSync(filename, Buffer.from(files[relpath].data, 'base64'));
+			fs.utimesSync(filename, mtime, mtime);
+		}
+	}
+}
+
+/**
+ * Builds the archive for a binder from its configuration and directories.
+ * The binder should be saved before it is packed.
+ * @param config {ConfigDB} the configuration of the binder to pack
+ * @returns {BinderArchive} the archive for the binder
+ */
+export function packBinder(config: ConfigDB): BinderArchive {
+	const settings = packDirectory(config.configRoot, localFiles);
+
+	// A binder created without a separate configuration directory keeps
+	// its data below the configuration, and the data is only packed once.
+	const dataDir = path.relative(config.configRoot, config.dbdir);
+	if (!dataDir.startsWith('..')) {
+		for (const relpath of Object.keys(settings)) {
+			if (relpath === dataDir || relpath.startsWith(`${dataDir}/`)) {
+				delete settings[relpath];
+			}
+		}
+	}
+
+	return {
+		format: archiveFormat,
+		version: archiveVersion,
+		binderName: config.binderName,
+		created: new Date(),
+		config: config,
+		data: packDirectory(config.dbdir, [tempExt]),
+		settings: settings
+	};
+}
+
+/**
+ * Changes the locations in a binder configuration for a new binder name
+ * and directories.  The layout matches the configuration of a newly
+ * created binder.
+ * @param config {ConfigDB} the configuration to change
+ * @param opts {RelocateOpts} the new binder name, configuration directory
+ * and data root.
+ * @returns {ConfigDB} a new configuration object with the changed paths.
+ */
+export function relocateConfig(config: ConfigDB, opts: RelocateOpts): ConfigDB {
+	const dbdir = join(opts.root, opts.binderName);
+
+	return Object.assign({}, config, {
+		binderName: opts.binderName,
+		configFile: join(opts.configRoot, 'config.json'),
+		configRoot: opts.configRoot,
+		dbdir: dbdir,
+		trash: join(dbdir, 'Trash'),
+		metaFile: join(opts.configRoot, 'meta.json'),
+		indexFile: join(opts.configRoot, 'index.json'),
+		linkFile: join(opts.configRoot, 'links.json'),
+		revisionDir: join(opts.configRoot, 'revisions'),
+		attachmentDir: join(opts.configRoot, 'attachments'),
+		trashFile: join(opts.configRoot, 'trash.json'),
+		logdir: opts.configRoot,
+		root: opts.root
+	});
+}
+
+/**
+ * Reads an archive file.
+ * @param filename {string} the archive file to read
+ * @returns {BinderArchive} the contents of the archive
+ * @throws {Error} when the file is not a binder archive.
+ */
+export function readArchive(filename: string): BinderArchive {
+	let archive: BinderArchive = null;
+
+	try {
+		archive = JSON.parse(zlib.gunzipSync(fs.readFileSync(filename)).toString());
+	} catch (err) {
+		throw new Error(`Can't read binder archive '${filename}': ${err.message}`);
+	}
+
+	if (archive == null || archive.format !== archiveFormat) {
+		throw new Error(`'${filename}' is not a binder archive`);
+	}
+
+	if (archive.version > archiveVersion) {
+		throw new Error(`Binder archive version ${archive.version} is not supported`);
+	}
+
+	return archive;
+}
+
+/**
+ * Writes an archive to a file.
+ * @param filename {string} the archive file to write
+ * @param archive {BinderArchive} the archive to write
+ */
+export function writeArchive(filename: string, archive: BinderArchive) {
+	fs.mkdirsSync(path.dirname(filename));
+	fs.writeFileSync(filename, zlib.gzipSync(JSON.stringify(archive)));
+}
@@ -2,6 +2,8 @@ import * as fs from 'fs-extra';
 import * as _ from 'lodash';
 import {join} from 'util.join';
 import {timestamp} from 'util.timestamp';
+import {AttachmentInfo} from './attachments';
+import {isTagOf, normalizeTag, renameTags} from './tags';
 
 export const enum ArtifactType {
 	Unk = 0,  // 0000b - Unknown type
@@ -10,6 +12,11 @@ export const enum ArtifactType {
 	SNA = 7   // 0111b - Section, notebook, and artifact
 }
 
+/**
+ * The location of a section, notebook or artifact.  In a binder with nested
+ * notebooks the notebook is a path of notebook names separated by `/`
+ * (e.g. `Projects/2018`).
+ */
 export interface ArtifactSearch {
 	section?: string;
 	notebook?: string;
@@ -17,18 +24,27 @@ export interface ArtifactSearch {
 }
 
 export interface ArtifactOpts extends ArtifactSearch {
+	nested?: boolean;
 	root?: string;
 	treeitem?: string;
 	path?: string;
 	type?: ArtifactType;
 }
 
+export interface CopySource {
+	binder: string;
+	path: string;
+	date: Date;
+}
+
 export interface ArtifactMeta {
 	accessed: Date;
 	created: Date;
 	updated: Date;
 	tags?: string[];
 	layout?: any;
+	attachments?: AttachmentInfo[];
+	copiedFrom?: CopySource;
 }
 
 /**
@@ -103,7 +119,10 @@ export class Artifact {
 	 * - all|default - use a object with properties for each field to factory the object
 	 * and set its properties
 	 * - treeitem - represents an object that can be parsed in the treetitem
-	 * format of {section}/{notebook}/{filename}
+	 * format of {section}/{notebook}/{filename}.  When the `nested` option
+	 * is set the notebook may have more than one level, so every part
+	 * between the section and the filename is the notebook.  A treeitem
+	 * that ends with a separator is a notebook directory.
 	 * - empty - just return an empty object.  This is the default.
 	 *
 	 * @param mode {string} tells the factory what to make
@@ -144,6 +163,7 @@ export class Artifact {
 				if (opts != null) {
 					if (opts.hasOwnProperty('path') && opts.hasOwnProperty('root')) {
 						artifact = Artifact.factory('treeitem', {
+							nested: opts.nested,
 							root: opts.root,
 							treeitem: opts.path.replace(opts.root, '').replace(/^[\/\\]*/, '')
 						}, artifact);
@@ -157,9 +177,19 @@ export class Artifact {
 						const s: string = opts.treeitem || '';
 						a = s.split(/\/|\\/);
 
-						artifact.section = a[0] || 'Default';
-						artifact.notebook = a[1] || 'Default';
-						artifact.filename = a[2] || '';
+						if (opts.nested) {
+							const directory: boolean = /[\/\\]$/.test(s);
+							a = a.filter((it: string) => it !== '');
+
+							const n: number = (directory || a.length < 3) ? a.length : a.length - 1;
+							artifact.section = a[0] || 'Default';
+							artifact.notebook = a.slice(1, n).join('/') || 'Default';
+							artifact.filename = a[n] || '';
+						} else {
+							artifact.section = a[0] || 'Default';
+							artifact.notebook = a[1] || 'Default';
+							artifact.filename = a[2] || '';
+						}
 					}
 
 					if (opts.hasOwnProperty('root')) {
@@ -210,11 +240,13 @@ export class Artifact {
 	}
 
 	/**
-	 * Adds a unique tag to the artifact.
+	 * Adds a unique tag to the artifact.  Tags can be nested with a `/`
+	 * separator (e.g. `project/alpha`).
 	 * @param tag {string} the name of the tag to add.
 	 */
 	public addTag(tag: string) {
-		if (this._meta.tags.indexOf(tag) === -1) {
+		tag = normalizeTag(tag);
+		if (tag !== '' && this._meta.tags.indexOf(tag) === -1) {
 			this._meta.tags.push(tag);
 		}
 	}
@@ -235,6 +267,16 @@ export class Artifact {
 		return this.section !== '';
 	}
 
+	/**
+	 * Checks if the artifact has a tag.  A parent tag matches any of its
+	 * children, so `project` matches an artifact tagged `project/alpha`.
+	 * @param tag {string} the name of the tag to check
+	 * @returns {boolean} true if the artifact has the tag, otherwise false.
+	 */
+	public hasTag(tag: string): boolean {
+		return this._meta.tags.some((it: string) => isTagOf(it, tag));
+	}
+
 	public info(): string {
 		return `${this.section}|${this.notebook}|${this.filename}`;
 	}
@@ -286,6 +328,38 @@ export class Artifact {
 		return join(this.section, this.notebook, this.filename);
 	}
 
+	/**
+	 * Removes a tag from the artifact.  Any children of the tag are also
+	 * removed (e.g. removing `project` also removes `project/alpha`).
+	 * @param tag {string} the name of the tag to remove.
+	 * @returns {boolean} true if a tag was removed, otherwise false.
+	 */
+	public removeTag(tag: string): boolean {
+		const n = this._meta.tags.length;
+		this._meta.tags = this._meta.tags.filter((it: string) => !isTagOf(it, tag));
+		return n !== this._meta.tags.length;
+	}
+
+	/**
+	 * Renames a tag on the artifact.  The children of the tag are moved with
+	 * it, so renaming `project` to `work` changes `project/alpha` to
+	 * `work/alpha`.  If the artifact already has the new tag, then the two
+	 * are merged.
+	 * @param from {string} the name of the tag to change
+	 * @param to {string} the new name of the tag
+	 * @returns {boolean} true if a tag was changed, otherwise false.
+	 */
+	public renameTag(from: string, to: string): boolean {
+		const tags = renameTags(this._meta.tags, from, to);
+
+		if (tags != null) {
+			this._meta.tags = tags;
+			return true;
+		}
+
+		return false;
+	}
+
 	public toString(): string {
 		let s: string = '';
 
@@ -315,6 +389,14 @@ export class Artifact {
 		this._meta.accessed = val;
 	}
 
+	get attachments(): AttachmentInfo[] {
+		return this._meta.attachments || [];
+	}
+
+	set attachments(val: AttachmentInfo[]) {
+		this._meta.attachments = val;
+	}
+
 	get buf(): string {
 		return this._buf;
 	}
@@ -332,6 +414,18 @@ export class Artifact {
 		return Buffer.from(this.buf);
 	}
 
+	/**
+	 * The binder and path of the artifact this one was copied from, and
+	 * when it was copied.  It is null if the artifact isn't a copy.
+	 */
+	get copiedFrom(): CopySource {
+		return this._meta.copiedFrom || null;
+	}
+
+	set copiedFrom(val: CopySource) {
+		this._meta.copiedFrom = val;
+	}
+
 	get created(): Date {
 		return this._meta.created;
 	}
@@ -0,0 +1,158 @@
+/**
+ * This module contains the store for the binary attachments of artifacts.
+ * The contents of each attachment are kept once in a file named by their
+ * content hash, so the same file attached to many artifacts is only
+ * stored once.  The artifacts refer to the attachments by hash in their
+ * meta data.
+ *
+ */
+
+'use strict';
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import {join} from 'util.join';
+import {Cipher, decodeBuffer, encode} from './cipher';
+import {writeAtomicSync} from './savejournal';
+
+export interface AttachmentInfo {
+	name: string;
+	hash: string;
+	size: number;
+	added: Date;
+}
+
+export interface AttachmentOpts {
+	cipher?: () => Cipher;
+}
+
+/**
+ * Computes the content hash used to name an attachment.
+ * @param data {Buffer} the contents of the attachment
+ * @returns {string} the hex sha256 hash of the contents
+ */
+export function attachmentHash(data: Buffer): string {
+	return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Manages the attachment files for a binder.  Each file is kept in a
+ * directory named by the first two characters of its hash to keep the
+ * directories small.
+ */
+export class AttachmentStore {
+
+	private _opts: AttachmentOpts = {
+		cipher: () => null
+	};
+	private _root: string = '';
+
+	/**
+	 * Creates a new attachment store instance.
+	 * @param root {string} the directory where attachments are kept
+	 * @param [opts] {AttachmentOpts} optional parameters
+	 *
+	 * - `cipher {Function}`: called to get the cipher used for the
+	 * attachment files.  When it returns null the files are not encrypted.
+	 */
+	constructor(root: string, opts?: AttachmentOpts) {
+		this._root = root;
+		this._opts = Object.assign(this._opts, opts);
+	}
+
+	/**
+	 * Saves the contents of an attachment.  Nothing is written when the same
+	 * contents are already stored.
+	 * @param data {Buffer} the contents of the attachment
+	 * @returns {string} the hash of the contents
+	 */
+	public add(data: Buffer): string {
+		const hash: string = attachmentHash(data);
+
+		if (!this.has(hash)) {
+			fs.mkdirsSync(join(this.root, hash.slice(0, 2)));
+			writeAtomicSync(this.filename(hash), encode(data, this._opts.cipher()));
+		}
+
+		return hash;
+	}
+
+	/**
+	 * Retrieves the contents of an attachment.
+	 * @param hash {string} the hash of the attachment
+	 * @returns {Buffer} the contents of the attachment
+	 * @throws {Error} if the attachment doesn't exist.
+	 */
+	public get(hash: string): Buffer {
+		if (!this.has(hash)) {
+			throw new Error(`Attachment ${hash} doesn't exist`);
+		}
+
+		return decodeBuffer(fs.readFileSync(this.filename(hash)), this._opts.cipher());
+	}
+
+	/**
+	 * Checks if the contents of an attachment are stored.
+	 * @param hash {string} the hash of the attachment
+	 * @returns {boolean} true if the attachment exists, otherwise false.
+	 */
+	public has(hash: string): boolean {
+		return fs.existsSync(this.filename(hash));
+	}
+
+	/**
+	 * Enumerates the hashes of the stored attachments.
+	 * @returns {string[]} the hash of each attachment
+	 */
+	public list(): string[] {
+		if (!fs.existsSync(this.root)) {
+			return [];
+		}
+
+		const hashes: string[] = [];
+		for (const directory of fs.readdirSync(this.root)) {
+			if (fs.statSync(join(this.root, directory)).isDirectory()) {
+				for (const hash of fs.readdirSync(join(this.root, directory))) {
+					if (hash.startsWith(directory)) {
+						hashes.push(hash);
+					}
+				}
+			}
+		}
+
+		return hashes.sort();
+	}
+
+	/**
+	 * Removes the attachments that are no longer used by any artifact.
+	 * @param used {Set<string>} the hashes of the attachments in use
+	 * @returns {string[]} the hashes of the attachments that were removed
+	 */
+	public prune(used: Set<string>): string[] {
+		const removed: string[] = this.list().filter((hash: string) => !used.has(hash));
+
+		for (const hash of removed) {
+			fs.removeSync(this.filename(hash));
+		}
+
+		return removed;
+	}
+
+	//
+	// Properties
+	//
+
+	get root(): string {
+		return this._root;
+	}
+
+	/**
+	 * Computes the location of an attachment file.
+	 * @param hash {string} the hash of the attachment
+	 * @returns {string} the absolute file name
+	 * @private
+	 */
+	private filename(hash: string): string {
+		return join(this.root, hash.slice(0, 2), hash);
+	}
+}
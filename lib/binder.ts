@@ -23,12 +23,78 @@ import {
 	ArtifactSearch,
 	ArtifactType
 } from './artifact';
+import {AttachmentInfo, AttachmentStore} from './attachments';
+import {
+	Cipher,
+	CipherConfig,
+	decode,
+	decodeBuffer,
+	encode,
+	readSecureFile
+} from './cipher';
+import {
+	EnexData,
+	EnexImportOpts,
+	EnexImportResult,
+	EnexNote,
+	parseEnex
+} from './enex';
+import {Events} from './events';
+import {ExportOpts, HtmlExporter} from './exporter';
+import {CommitInfo, GitStore} from './gitstore';
+import {
+	IntegrityIssue,
+	integrityIssues,
+	IntegrityReport,
+	integrityReport,
+	reportIssue
+} from './integrity';
+import {
+	dateKey,
+	entryDate,
+	journalDefaults,
+	JournalEntry,
+	journalLocation,
+	JournalOpts
+} from './journal';
+import {BrokenLink, LinkGraph, rewriteLinks} from './links';
+import {evaluateQuery, parseQuery, QueryResult} from './query';
+import {DiffLine, diffLines, RevisionInfo, RevisionStore} from './revisions';
+import {
+	JournalRecovery,
+	SaveJournal,
+	tempExt,
+	writeAtomicSync
+} from './savejournal';
+import {IndexMatch, SearchIndex} from './searchindex';
+import {
+	hashDirectory,
+	planSync,
+	sharedHashes,
+	SyncAction,
+	SyncHashes,
+	SyncReport,
+	syncReport,
+	SyncSkip,
+	SyncState
+} from './sync';
+import {normalizeTag, renameTags, TagIndex, TagInfo} from './tags';
+import {fillTemplate, templateSection, TemplateVars, templateVars} from './templates';
+import {
+	currentUser,
+	TrashEntry,
+	TrashLog,
+	TrashOpts,
+	trashSelected
+} from './trashlog';
+import {Watcher} from './watcher';
 
 const walk = require('klaw-sync');
 
 const defRoot = join('~/', '.notesdb');
-const validNameChars = `-\\.+@_!$&0-9a-zA-Z `; // regex [] pattern
-const defIgnoreList: string[] = ['.DS_Store', '.placeholder', 'Trash'];
+export const validNameChars = `-\\.+@_!$&0-9a-zA-Z `; // regex [] pattern
+const defIgnoreList: string[] = ['.DS_Store', '.placeholder', 'Trash', tempExt];
+const reRegexSearch: RegExp = /[\\^$.|?+()[\]{}]/;
 const pkg = require('../package.json');
 
 export interface Notebook {
@@ -40,6 +106,11 @@ export interface NotebookDetails {
 	count: number;
 }
 
+/**
+ * The notebooks of a section keyed by their name.  In a binder with nested
+ * notebooks each nested notebook is keyed by its path within the section
+ * (e.g. `Projects` and `Projects/2018`).
+ */
 export interface Section {
 	[key: string]: Notebook;
 }
@@ -49,15 +120,29 @@ export interface Schema {
 	trash: {[key: string]: Section};
 }
 
+export interface CopyItem {
+	from: ArtifactSearch;
+	to: ArtifactSearch;
+}
+
 export interface BinderOpts {
 	binderName?: string;
 	configRoot?: string;
+	encrypt?: boolean;
 	env?: object;
+	git?: boolean;
 	ignore?: string[];
+	nested?: boolean;
+	passphrase?: string;
 	root?: string;
 	bufSize?: number;
 	saveInterval?: number;
 	maxRecents?: number;
+	maxRevisions?: number;
+	revisionAge?: number;
+	trashAge?: number;
+	user?: string;
+	watch?: boolean;
 }
 
 export interface Appender {
@@ -73,11 +158,22 @@ export interface ConfigDB {
 	dbdir: string;
 	trash: string;
 	metaFile: string;
+	indexFile: string;
+	linkFile: string;
+	revisionDir: string;
+	attachmentDir: string;
+	trashFile: string;
 	root: string;
 	logdir: string;
 	saveInterval: number;
 	bufSize: number;
 	maxRecents: number;
+	maxRevisions: number;
+	revisionAge: number;
+	trashAge?: number;
+	nested?: boolean;
+	encryption?: CipherConfig;
+	notebookEncryption?: {[key: string]: CipherConfig};
 }
 
 export interface Namespace {
@@ -98,6 +194,8 @@ export interface NotesMeta {
 export class Binder extends EventEmitter {
 
 	private _artifacts: any = new Map();
+	private _attachments: AttachmentStore = null;
+	private _cipher: Cipher = null;
 	private _config: ConfigDB = {
 		binderName: '',
 		configFile: '',
@@ -105,24 +203,45 @@ export class Binder extends EventEmitter {
 		dbdir: '',
 		trash: '',
 		metaFile: '',
+		indexFile: '',
+		linkFile: '',
+		revisionDir: '',
+		attachmentDir: '',
+		trashFile: '',
 		root: '',
 		logdir: '',
 		saveInterval: 5000,
 		bufSize: 65535,
-		maxRecents: 5
+		maxRecents: 5,
+		maxRevisions: 10,
+		revisionAge: 0,
+		nested: false,
+		notebookEncryption: {}
 	};
 	private _fnSaveInterval: any;
+	private _git: GitStore = null;
 	private _ignore: string[] = [];
+	private _index: SearchIndex = null;
 	private _initialized: boolean = false;
+	private _journal: SaveJournal = null;
+	private _links: LinkGraph = null;
+	private _locked: boolean = false;
 	private _log: Logger = null;
 	private _meta: NotesMeta = {};
+	private _notebookCiphers: Map<string, Cipher> = new Map();
 	private _recents: Deque<Artifact> = null;
+	private _recovered: JournalRecovery[] = [];
 	private _reID: RegExp = new RegExp(`^[${validNameChars}]+$`);
+	private _revisions: RevisionStore = null;
 	private _schema: Schema = {
 		notes: {},
 		trash: {}
 	};
+	private _tags: TagIndex = new TagIndex();
 	private _timedSave: boolean = false;
+	private _trashLog: TrashLog = null;
+	private _user: string = '';
+	private _watcher: Watcher = null;
 
 	/**
 	 * Creates the instance of the Binder class and loads or defines the
@@ -140,17 +259,48 @@ export class Binder extends EventEmitter {
 	 * - `configRoot {string} default='~/.notesdb'`: The name of the
 	 * configuration directory where the configuration and log files are
 	 * located.
+	 * - `encrypt {boolean} default=false`: when true, the artifacts, the
+	 * meta data, the search index, the links and the revisions of the binder
+	 * are encrypted with a key derived from the `passphrase`.  An existing
+	 * binder that isn't encrypted is converted when it is opened.
 	 * - `env {object}`: a copy of the current runtime environment
 	 * variables.  This allows for the environment to be changed before
 	 * instantiating the class (for multiple instances and testing).
+	 * - `git {boolean} default=false`: when true, the binder directory is
+	 * kept as a git repository and each timed save that changes files is
+	 * committed.  The commit message lists the artifacts that were added,
+	 * modified, renamed or trashed.  Requires the `git` program.
 	 * - `ignore {Array}`: the list of file names that this database will
 	 * ignore when parsing/processing artifacts.
+	 * - `nested {boolean} default=false`: when true, notebooks can hold
+	 * other notebooks to any depth.  A nested notebook is named by its path
+	 * within the section, e.g. `Projects/2018`.  Without it the binder keeps
+	 * the fixed section/notebook/artifact layout and anything deeper in the
+	 * binder directory is ignored.  The setting is saved with the binder,
+	 * so it only needs to be given once.
+	 * - `passphrase {string}`: the passphrase of an encrypted binder.  When
+	 * an encrypted binder is opened without it, the binder is locked until
+	 * `unlock()` is called.
 	 * - `root {string} default='~/.notesdb'`: The path location to the
 	 * database.  This is optional and only needed when creating a new
 	 * database.
 	 * - `saveInterval {number} default='5000'`: determines how often a
 	 * save check is performed.  The schema is scanned and saved very N
 	 * millis.
+	 * - `maxRevisions {number} default=10`: the number of prior revisions
+	 * kept for each artifact when it is saved.  Set to 0 to keep none.
+	 * - `revisionAge {number} default=0`: the number of days that a prior
+	 * revision is kept.  Set to 0 to keep revisions regardless of age.
+	 * - `trashAge {number} default=0`: the number of days that an item is
+	 * kept in the trash.  Older items are purged when the binder is opened
+	 * and on each timed save.  Set to 0 to keep items until the trash is
+	 * emptied.  The setting is saved with the binder.
+	 * - `user {string}`: the name recorded as the user that deleted an
+	 * item moved to the trash.  It defaults to the name of the user that
+	 * runs the program.
+	 * - `watch {boolean} default=false`: when true, the binder directory is
+	 * watched for changes made by other programs and the schema is updated
+	 * as they happen (see `Events` for the events that are emitted).
 	 */
 	constructor(opts?: BinderOpts) {
 		super();
@@ -158,12 +308,17 @@ export class Binder extends EventEmitter {
 		opts = Object.assign({
 			binderName: 'adb',
 			configRoot: '',
+			encrypt: false,
 			env: process.env,
+			git: false,
 			ignore: [],
 			root: defRoot,
 			bufSize: (64 * 1024),
 			saveInterval: 5000,
-			maxRecents: 5
+			maxRecents: 5,
+			maxRevisions: 10,
+			revisionAge: 0,
+			watch: false
 		}, opts);
 
 		if (opts.configRoot === '') {
@@ -173,20 +328,66 @@ export class Binder extends EventEmitter {
 		const configFile = join(opts.configRoot, 'config.json');
 		this.ignore = _.union(opts.ignore, defIgnoreList);
 
+		// Finish or discard any saves that were interrupted by a crash
+		// before the configuration and meta data are read.
+		this._journal = new SaveJournal(join(opts.configRoot, 'journal.json'));
+		this._recovered = this._journal.recover();
+
 		if (fs.existsSync(configFile)) {
 			// Opens an existing configuration file
 			this._config = Object.assign(
 				this._config,
 				JSON.parse(fs.readFileSync(configFile).toString()));
 
-			if (this.config.hasOwnProperty('metaFile') && fs.existsSync(this._config.metaFile)) {
-				this._meta = JSON.parse(fs.readFileSync(this._config.metaFile).toString());
+			// An encrypted binder stays locked until its passphrase is given
+			if (this._config.encryption) {
+				if (opts.passphrase) {
+					this._cipher = Cipher.open(this._config.encryption, opts.passphrase);
+				} else {
+					this._locked = true;
+				}
+			}
+
+			if (!this._locked && this.config.hasOwnProperty('metaFile') && fs.existsSync(this._config.metaFile)) {
+				this._meta = JSON.parse(readSecureFile(this._config.metaFile, this._cipher));
+			}
+
+			// Configurations created before the search index existed won't
+			// have a location for it, so it is placed next to the meta data.
+			if (!this._config.indexFile) {
+				this._config.indexFile = join(this._config.configRoot, 'index.json');
+			}
+
+			if (!this._config.linkFile) {
+				this._config.linkFile = join(this._config.configRoot, 'links.json');
+			}
+
+			if (!this._config.revisionDir) {
+				this._config.revisionDir = join(this._config.configRoot, 'revisions');
+			}
+
+			if (!this._config.attachmentDir) {
+				this._config.attachmentDir = join(this._config.configRoot, 'attachments');
+			}
+
+			if (!this._config.trashFile) {
+				this._config.trashFile = join(this._config.configRoot, 'trash.json');
 			}
 
 			// Apply optional overrides to an existing configuration
 			this._config.bufSize = opts.bufSize;
 			this._config.saveInterval = opts.saveInterval;
 			this._config.maxRecents = opts.maxRecents;
+			this._config.maxRevisions = opts.maxRevisions;
+			this._config.revisionAge = opts.revisionAge;
+
+			if (opts.nested) {
+				this._config.nested = true;
+			}
+
+			if (opts.trashAge != null) {
+				this._config.trashAge = opts.trashAge;
+			}
 		} else {
 			// Creates a new database
 			this._config = Object.assign(
@@ -197,11 +398,16 @@ export class Binder extends EventEmitter {
 				throw new Error(`Invalid binder name '${this.config.binderName}'.  Can only use '${validNameChars}'.`);
 			}
 
+			if (opts.encrypt) {
+				this._cipher = Cipher.create(opts.passphrase);
+				this._config.encryption = this._cipher.config;
+			}
+
 			if (!fs.existsSync(this.config.configRoot)) {
 				fs.mkdirsSync(this.config.configRoot);
 			}
-			fs.writeFileSync(this.config.configFile, JSON.stringify(this.config, null, '\t'));
-			fs.writeFileSync(this.config.metaFile, JSON.stringify(this.meta, null, '\t'));
+			writeAtomicSync(this.config.configFile, JSON.stringify(this.config, null, '\t'));
+			writeAtomicSync(this.config.metaFile, encode(JSON.stringify(this.meta, null, '\t'), this._cipher));
 
 			if (!fs.existsSync(this.config.dbdir)) {
 				fs.mkdirsSync(this.config.dbdir);
@@ -213,6 +419,7 @@ export class Binder extends EventEmitter {
 		}
 
 		this._recents = new Deque<Artifact>(this.config.maxRecents, null, artifactComparator);
+		this._user = opts.user || currentUser(opts.env);
 
 		this._log = logger.instance({
 			debug: pkg.debug,
@@ -223,17 +430,54 @@ export class Binder extends EventEmitter {
 			namespace: 'notesdb_binder'
 		});
 
+		for (const recovery of this._recovered) {
+			this.log.warn(`Recovered interrupted save of ${recovery.key}: ${recovery.action}`);
+		}
+
+		this._index = new SearchIndex(this.config.indexFile, this._cipher);
+		this._links = new LinkGraph(this.config.linkFile, this._cipher);
+		this._revisions = new RevisionStore(this.config.revisionDir, {
+			cipher: this.cipherFor,
+			maxRevisions: this.config.maxRevisions,
+			revisionAge: this.config.revisionAge
+		});
+		this._attachments = new AttachmentStore(this.config.attachmentDir, {
+			cipher: () => this._cipher
+		});
+		this._trashLog = new TrashLog(this.config.trashFile, this._cipher);
+
+		// The repository is ignored before the schema is loaded
+		if (opts.git) {
+			this._git = new GitStore(this.config.dbdir);
+			this.ignore = _.union(this.ignore, ['.git']);
+		}
+
 		this.load('notes');
 		this.load('trash');
 
+		if (opts.encrypt && this._config.encryption == null) {
+			this.reencrypt(Cipher.create(opts.passphrase));
+		}
+
+		this.purgeTrash();
+
 		if (opts.saveInterval > 0) {
 			this._fnSaveInterval = setInterval(() => {
 				this.save()
 					.then((adb: Binder) => {
+						if (adb._git != null) {
+							const commit: CommitInfo = adb._git.commit();
+							if (commit != null) {
+								this.log.info(`Committed ${commit.id}: ${commit.message}`);
+							}
+						}
+
 						adb._timedSave = true;
+						this.emit(Events.binderTimedSave, this);
+						this.purgeTrash();
 					})
-					.catch((err: string) => {
-						this.log.error(`Timed save failure: ${err}`);
+					.catch((err: any) => {
+						this.log.error(`Timed save failure: ${(err instanceof Error) ? err.message : err}`);
 					});
 			}, opts.saveInterval);
 		} else {
@@ -252,7 +496,23 @@ export class Binder extends EventEmitter {
 				});
 		});
 
-		this.emit('loaded', this);
+		if (opts.watch) {
+			// Nested notebooks can be any depth, so every directory is
+			// watched.
+			this._watcher = new Watcher(this.config.dbdir, {
+				depth: this.config.nested ? Infinity : 2,
+				ignore: _.union(this.ignore, ['Trash'])
+			});
+
+			this._watcher.on('changes', this.syncChanges);
+			this._watcher.on('error', (err: Error) => {
+				this.log.error(`Watch failure: ${err.message}`);
+			});
+
+			this._watcher.start();
+		}
+
+		this.emit(Events.binderLoaded, this);
 	}
 
 	/**
@@ -271,341 +531,414 @@ export class Binder extends EventEmitter {
 	@autobind
 	public add(opts: ArtifactSearch, area: string = NS.notes): any {
 		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-			let artifact: Artifact = null;
-			if (opts instanceof Artifact) {
-				artifact = opts;
-			} else {
-				artifact = Artifact.factory('fields', opts);
+			if (opts == null) {
+				reject('Trying to add invalid artifact to DB');
+				return;
 			}
-			artifact.root = this.config.dbdir;
 
-			try {
-				if (artifact.type === ArtifactType.SNA) {
-					this.createSection(artifact, area);
-					this.createNotebook(artifact, area);
-					this.createArtifact(artifact, resolve, reject, area);
-				} else if (artifact.type === ArtifactType.SN) {
-					this.createSection(artifact, area);
-					this.createNotebook(artifact, area);
-					resolve(artifact);
-				} else if (artifact.type === ArtifactType.S) {
-					this.createSection(artifact, area);
+			const existing = {
+				section: this.hasSection(opts, area),
+				notebook: this.hasNotebook(opts, area),
+				artifact: this.hasArtifact(opts, area)
+			};
+
+			this.insert(opts, area)
+				.then((artifact: Artifact) => {
+					if (area === NS.notes) {
+						this.emitCreated(artifact, existing.section, existing.notebook);
+
+						if (!existing.artifact && this.hasArtifact(artifact)) {
+							this.emit(Events.artifactAdded, artifact);
+						}
+					}
+
 					resolve(artifact);
-				} else {
-					reject('Trying to add invalid artifact to DB');
-				}
-			} catch (err) {
-				reject(err.message);
-			}
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
 		});
 	}
 
 	/**
-	 * Creates new sections within a binder.  It takes a list of section
-	 * strings and creates a directory for each given string.
+	 * Attaches a file (e.g. an image or a PDF) to an artifact.  The contents
+	 * are kept in the attachments directory of the binder under their
+	 * content hash, so a file that is attached more than once is only
+	 * stored once.  An attachment with the same name on the artifact is
+	 * replaced.  The attachments are kept in the meta data of the artifact,
+	 * so they move with it when it is renamed, trashed or restored.
 	 *
-	 * @param schema {Array|string} a list of directories (sections) under this
-	 * binder location.  Each of these directories will be created under this
-	 * binder unless they already exist.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
+	 * The thenable resolves to the `AttachmentInfo` of the attachment.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param filename {string} the file to attach.  The name of the
+	 * attachment is the base name of the file.
+	 * @param [data] {Buffer} the contents of the attachment.  When it is
+	 * not given the file is read.
 	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public create(schema: string[] | string, area: string = NS.notes) {
-		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
-			if (typeof schema === 'string') {
-				schema = [schema];
-			}
+	public addAttachment(opts: ArtifactSearch, filename: string, data: Buffer = null) {
+		return new Promise((resolve: PromiseFn<AttachmentInfo>, reject: PromiseFn<string>) => {
+			const name: string = path.basename(filename || '');
 
-			if (schema.length < 1) {
-				schema.push('Default');
+			if (name === '') {
+				reject('An attachment name is required');
+				return;
 			}
 
-			if (schema.indexOf('Trash') <= -1) {
-				schema.push('Trash');
+			if (this.notebookEncrypted(`${opts.section}/${opts.notebook}`)) {
+				reject(`Attachments can't be added to an encrypted notebook`);
+				return;
 			}
 
-			try {
-				schema.forEach((it: string) => {
-					const artifact = Artifact.factory('fields', {
-						section: it,
-						root: this.config.dbdir
-					});
-					this.createSection(artifact, area);
-				}, this);
-				resolve(this);
-			} catch (err) {
-				reject(err.message);
-			}
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					if (data == null) {
+						data = fs.readFileSync(filename);
+					}
+
+					const info: AttachmentInfo = {
+						name: name,
+						hash: this._attachments.add(data),
+						size: data.length,
+						added: new Date()
+					};
+
+					artifact.attachments = artifact.attachments
+						.filter((it: AttachmentInfo) => it.name !== name)
+						.concat(info)
+						.sort((a: AttachmentInfo, b: AttachmentInfo) => a.name.localeCompare(b.name));
+
+					this.pruneAttachments();
+					this.log.info(`Attached ${name} (${info.hash}) to ${artifact.path()}`);
+					resolve(info);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
 		});
 	}
 
 	/**
-	 * Removes the current contents of the 'Trash' folder/section from the
-	 * current DB.  It also resets the internal trash namespace to empty.  This
-	 * will check that the directory requested is within the database location
-	 * and has the 'Trash' directory.
+	 * Adds a copy of an artifact at a new location in this binder.  The
+	 * contents and the meta data (tags, layout, dates and attachments) of
+	 * the source are copied.  The source can belong to another binder, in
+	 * which case the contents of its attachments must also be added to this
+	 * binder (see `addAttachment()`).
 	 *
-	 * The thenable resolves to a reference to the Binder instance.
+	 * The thenable resolves to the new artifact.
 	 *
-	 * @returns {Promise} a javascript promise object.
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the new
+	 * artifact.
+	 * @param source {Artifact} the artifact to copy.  Its contents must be
+	 * loaded (see `get()`).
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public emptyTrash() {
-		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
-			if (fs.existsSync(this.config.trash) &&
-				this.config.trash.endsWith(`/Trash`) &&
-				this.config.trash.startsWith(this.config.dbdir)) {
-				this.log.info('Emptying trash: ${this.config.trash}');
+	public addCopy(opts: ArtifactSearch, source: Artifact) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			if (Artifact.isType(opts) !== ArtifactType.SNA || source.type !== ArtifactType.SNA) {
+				reject('Only artifacts can be copied');
+				return;
+			}
 
-				fs.remove(this.config.trash, (err: Error) => {
-					if (err) {
-						reject(err.message);
-					}
+			if (this.hasArtifact(opts)) {
+				reject(`Artifact already exists: ${opts.section}|${opts.notebook}|${opts.filename}`);
+				return;
+			}
 
-					this.schema.trash = {};
-					fs.mkdirsSync(this.config.trash);
-					resolve(this);
+			const meta: ArtifactMeta = _.cloneDeep(source.meta);
+
+			this.add(opts)
+				.then((artifact: Artifact) => {
+					artifact.meta = meta;
+					this.meta[artifact.path()] = artifact.meta;
+					this._tags.set(artifact.path(), artifact.tags);
+					artifact.buf = source.buf;
+
+					return this.saveArtifact(artifact);
+				})
+				.then((artifact: Artifact) => {
+					// The dates of the source are kept, so the file is given
+					// its modification time.
+					artifact.created = new Date(source.created);
+					artifact.updated = new Date(source.updated);
+					fs.utimesSync(artifact.absolute(), new Date(), artifact.updated);
+					this.indexArtifact(artifact, artifact.buf);
+
+					this.log.info(`Copied ${source.path()} to ${artifact.path()}`);
+					resolve(artifact);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
 				});
-			} else {
-				reject(`Invalid trash directory, no empty: ${this.config.trash}`);
-			}
 		});
 	}
 
 	/**
-	 * Performs a text search against all artifacts within the repository.
-	 * This will return a list of all artifacts tha contain the requested
-	 * string.  The string can be a regex.
+	 * Creates a new artifact from a template.  Templates are the artifacts
+	 * in the reserved `Templates` section.  The `{{name}}` placeholders in
+	 * the template are replaced with the built in values (`date`, `time`,
+	 * `section`, `notebook`, `filename` and `title`) and the custom
+	 * variables given.  A custom variable overrides a built in value.  The
+	 * tags of the template are added to the new artifact.
 	 *
-	 * The thenable from this call is an Array of Artifacts that meet the
-	 * search criteria.
+	 * The thenable resolves to the new artifact.
 	 *
-	 * @param search {string} the regex string to used as the search criteria.
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the new
+	 * artifact.
+	 * @param templateName {string} the filename of the template.  The
+	 * extension can be left off.
+	 * @param [vars] {TemplateVars} custom placeholder values
 	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public find(search: string) {
-		const regex = new RegExp(search);
-		const self = this;
+	public addFromTemplate(opts: ArtifactSearch, templateName: string, vars: TemplateVars = {}) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			const template: Artifact = this.findTemplate(templateName);
 
-		function searchArtifact(artifact: Artifact) {
-			return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-				const filename: string = join(self.config.dbdir, artifact.path());
-				fs.readFile(filename, (err, data) => {
-					if (err) {
-						reject(err.message);
-					}
+			if (template == null) {
+				reject(`Template '${templateName}' not found`);
+				return;
+			}
 
-					if (regex.test(data.toString())) {
-						resolve(artifact);
-					} else {
-						resolve(null);
+			if (this.hasArtifact(opts)) {
+				reject(`Artifact already exists: ${opts.section}|${opts.notebook}|${opts.filename}`);
+				return;
+			}
+
+			let text: string = '';
+
+			this.get(template)
+				.then((artifact: Artifact) => {
+					text = fillTemplate(artifact.buf, Object.assign(templateVars(opts), vars));
+					return this.add(opts);
+				})
+				.then((artifact: Artifact) => {
+					artifact.buf = text;
+					for (const tag of template.tags) {
+						artifact.addTag(tag);
 					}
+					this._tags.set(artifact.path(), artifact.tags);
+
+					return this.saveArtifact(artifact);
+				})
+				.then((artifact: Artifact) => {
+					this.log.info(`Created ${artifact.path()} from template ${template.path()}`);
+					resolve(artifact);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
 				});
-			});
-		}
+		});
+	}
 
-		return new Promise((resolve: PromiseFn<Artifact[]>, reject: PromiseFn<string>) => {
-			const promises: Array<Promise<any>> = [];
-			for (const artifact of this._artifacts.values()) {
-				promises.push(searchArtifact(artifact));
+	/**
+	 * Adds a tag to an artifact and updates the binder's tag index.  Tags
+	 * can be nested with a `/` separator (e.g. `project/alpha`).
+	 *
+	 * The thenable resolves to the artifact that was changed.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param tag {string} the name of the tag to add
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public addTag(opts: ArtifactSearch, tag: string) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			if (normalizeTag(tag) === '') {
+				reject(`Invalid tag name '${tag}'`);
+				return;
 			}
 
-			Promise.all(promises)
-				.then((artifacts: Artifact[]) => {
-					resolve(artifacts.filter(n => {
-						return n != null;
-					}));
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					artifact.addTag(tag);
+					this._tags.set(artifact.path(), artifact.tags);
+					resolve(artifact);
 				})
-				.catch((err: Error) => {
-					reject(err.message);
+				.catch((err: string) => {
+					reject(err);
 				});
 		});
 	}
 
 	/**
-	 * Retrieves an artifact from the schema.  If it exists, then it is returned
-	 * by the promise.  If it is not found, then an error will be thrown.  If
-	 * the artifact has never been loaded before, then it is read from the
-	 * filesystem when this request is made.  This will place the artifact into
-	 * the recent documents queue.
+	 * Retrieves the list of attachments of an artifact.
 	 *
-	 * When the request is a section or notebook a temporary artifact object
-	 * is created and returned.
+	 * The thenable resolves to an array of `AttachmentInfo` objects sorted
+	 * by name.
 	 *
-	 * The thenable resolves to the artifact created by the get request.
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public attachments(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<AttachmentInfo[]>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					resolve(artifact.attachments);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Retrieves the artifacts that link to an artifact with a
+	 * `[[Section/Notebook/File]]` reference.
 	 *
-	 * @param opts {ArtifactSearch} the section/notebook/filename to search
-	 * for within the schema.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {Promise} a javascript promise object.
+	 * The thenable resolves to an array of Artifacts, sorted by path.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public get(opts: ArtifactSearch, area: string = NS.notes) {
-		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-			const type: ArtifactType = Artifact.isType(opts);
-
-			if (type === ArtifactType.SNA && this.hasArtifact(opts)) {
-				const artifact = this._schema[area][opts.section][opts.notebook][opts.filename];
-				const absolute = artifact.absolute();
-
-				if (fs.existsSync(absolute) && !artifact.loaded) {
-					const inp = fs.createReadStream(absolute);
-
-					inp.on('close', () => {
-						artifact.loaded = true;
-						artifact.makeClean();
-
-						if (!this.recents.contains(artifact)) {
-							this.recents.enqueue(artifact);
-						}
-
-						fs.stat(absolute, (err, stats) => {
-							if (err) {
-								reject(err.message);
-							}
-
-							this.loadMetadata(artifact, stats);
-							resolve(artifact);
-						});
-					});
-
-					inp.on('error', (err: Error) => {
-						reject(err.message);
-					});
-
-					inp.on('data', (chunk: string) => {
-						artifact.buf += chunk;
-					});
-				} else {
-					if (!this.recents.contains(artifact)) {
-						this.recents.enqueue(artifact);
-					}
-					resolve(artifact);
-				}
-			} else if ((type === ArtifactType.SN && this.hasNotebook(opts, area)) ||
-				(type === ArtifactType.S && this.hasSection(opts, area))) {
-				const artifact = Artifact.factory('fields', opts);
-				artifact.root = this.config.dbdir;
-				if (!this.recents.contains(artifact)) {
-					this.recents.enqueue(artifact);
-				}
-				resolve(artifact);
-			} else {
-				reject(`Artifact doesn't exist: ${opts.section}|${opts.notebook}|${opts.filename}`);
-			}
-		});
-	}
+	public backlinks(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<Artifact[]>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					resolve(this._links.backlinks(artifact.path())
+						.map((key: string) => this._artifacts.get(key))
+						.filter((it: Artifact) => it != null));
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
 
 	/**
-	 * Checks to see if a document is in the repository by name, notebook and
-	 * section.
-	 * @param search {ArtifactSearch} an object that represents the item to
-	 * find in the schema.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {boolean} true if the artifact is found, otherwise false
+	 * Finds every `[[...]]` link in the binder that refers to a section,
+	 * notebook or artifact that doesn't exist.
+	 * @returns {BrokenLink[]} a list of `{source, target}` paths sorted by
+	 * the source artifact.
 	 */
 	@autobind
-	public hasArtifact(search: ArtifactSearch, area: string = NS.notes): boolean {
-		if (this.hasSection(search, area) && this.hasNotebook(search, area)) {
-
-			return Object.prototype.hasOwnProperty
-				.call(this.schema[area][search.section][search.notebook], search.filename);
-		}
+	public brokenLinks(): BrokenLink[] {
+		return this._links.broken((target: string) => {
+			const [section, ...notebook] = target.split('/');
+
+			if (this._artifacts.has(target)) {
+				return true;
+			} else if (notebook.length > 0) {
+				return this.hasNotebook({section, notebook: notebook.join('/')});
+			}
 
-		return false;
+			return this.hasSection({section});
+		});
 	}
 
 	/**
-	 * Checks the given section for the existence of a notebook by name.
-	 * @param search {ArtifactSearch} an object that represents the item to
-	 * find in the schema.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {boolean} true if the notebook is found, otherwise false
+	 * Lists the dates that have journal entries (see `today()`).  The date
+	 * of an entry is taken from its filename, or from the date it was
+	 * created when the filename isn't a date.
+	 * @param [opts] {JournalOpts} optional parameters
+	 *
+	 * - `section {string} default='Journal'`: the journal section
+	 * - `year {number}`: only list the entries of this year
+	 * - `month {number}`: only list the entries of this month (1-12)
+	 * @returns {JournalEntry[]} the date, created date and path of each
+	 * entry, sorted by date.
 	 */
 	@autobind
-	public hasNotebook(search: ArtifactSearch, area: string = NS.notes): boolean {
-		if (this.schema.hasOwnProperty(area)) {
-			if (this.schema[area].hasOwnProperty(search.section)) {
-				return Object.prototype.hasOwnProperty
-					.call(this.schema[area][search.section], search.notebook);
-			}
-		}
+	public calendar(opts: JournalOpts = {}): JournalEntry[] {
+		opts = Object.assign({}, journalDefaults, opts);
+		const entries: JournalEntry[] = [];
 
-		return false;
-	}
+		for (const artifact of this.artifacts.values()) {
+			const date: string = (artifact.section === opts.section && artifact.type === ArtifactType.SNA) ? entryDate(artifact) : null;
 
-	/**
-	 * Checks the current schema for the existence of a section.
-	 * @param search {ArtifactSearch} an object that represents the item to
-	 * find in the schema.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @return {boolean} true if the section is found, otherwise false.
-	 */
-	@autobind
-	public hasSection(search: ArtifactSearch, area: string = NS.notes): boolean {
-		if (this.schema.hasOwnProperty(area)) {
-			return Object.prototype.hasOwnProperty.call(this.schema[area], search.section);
+			if (date != null &&
+				(opts.year == null || Number(date.slice(0, 4)) === opts.year) &&
+				(opts.month == null || Number(date.slice(5, 7)) === opts.month)) {
+				entries.push({date: date, created: artifact.created, path: artifact.path()});
+			}
 		}
 
-		return false;
+		return entries.sort((a: JournalEntry, b: JournalEntry) => {
+			return a.date.localeCompare(b.date) || a.path.localeCompare(b.path);
+		});
 	}
 
 	/**
-	 * Enumerates the list of notebooks in a section from the schema.
-	 * returns {NotebookDetails[]} a list of the notebooks for a section and
-	 * their associated artifact counts.
-	 * @param sectionName {string} the name of the section where the notebooks
-	 * are located.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {NotebookDetails[]} a list of notebook names as strings and the
-	 * number of artifacts within that notebook.
+	 * Changes the passphrase of an encrypted binder.  The binder is saved,
+	 * and then every artifact, revision, the meta data, the search index and
+	 * the links are encrypted again with a key derived from the new
+	 * passphrase.
+	 *
+	 * The thenable resolves to a reference to the binder.
+	 *
+	 * @param passphrase {string} the current passphrase
+	 * @param newPassphrase {string} the new passphrase
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public notebooks(sectionName: string, area: string = NS.notes): NotebookDetails[] {
-		const notebooks: NotebookDetails[] = [];
+	public changePassphrase(passphrase: string, newPassphrase: string) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			if (!this.encrypted) {
+				reject(`Binder '${this.binderName}' is not encrypted`);
+				return;
+			}
 
-		if (!this.initialized) {
-			throw new Error('Trying to retrieve notebooks from an unitialized database.');
-		}
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
 
-		if (this.hasSection({section: sectionName}, area)) {
-			_.forOwn(this.schema[area][sectionName], (value: any, key: string) => {
-				value.toString();
-				notebooks.push({
-					name: key,
-					count: Object.keys(this.schema[area][sectionName][key]).length
-				});
-			});
-		} else {
-			throw new Error(`Section '${sectionName}' not found in binder.`);
-		}
+			try {
+				Cipher.open(this._config.encryption, passphrase);
+			} catch (err) {
+				reject(err.message);
+				return;
+			}
 
-		return (notebooks);
+			this.save()
+				.then(() => {
+					this.reencrypt(Cipher.create(newPassphrase));
+					this.log.info(`Changed the passphrase of binder '${this.binderName}'`);
+					resolve(this);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
 	}
 
 	/**
-	 * Scans the current repository directory to rebuild the schema.  This
-	 * only needs to be done if a file/artifact is added to the directory
-	 * structure after the instance has been loaded.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {Promise} a javascript promise object.
+	 * Compares the binder on disk with its schema and meta data without
+	 * changing anything.  The report lists:
+	 *
+	 * - `invalidNames`: files and directories whose names fail the name check
+	 * - `missing`: sections, notebooks and artifacts whose files are gone
+	 * - `orphanedMeta`: meta data entries that have no artifact
+	 * - `strayTrash`: items in the trash that aren't in a notebook
+	 * - `unreadable`: artifacts whose files can't be read or decoded
+	 * - `untracked`: files and directories that aren't in the schema
+	 *
+	 * Each path in the report is relative to the binder directory.  The
+	 * artifacts of a locked notebook are not read.
+	 *
+	 * The thenable resolves to the IntegrityReport of the binder.
+	 *
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public reload(area: string = NS.notes) {
-		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
-			this.initialized = false;
+	public check() {
+		return new Promise((resolve: PromiseFn<IntegrityReport>, reject: PromiseFn<string>) => {
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
+
 			try {
-				this.load(area);
-				resolve(this);
+				resolve(this.checkBinder());
 			} catch (err) {
 				reject(err.message);
 			}
@@ -613,250 +946,498 @@ export class Binder extends EventEmitter {
 	}
 
 	/**
-	 * Immediately removes an section/notebook/artifact from the system.
+	 * Replaces the current buffer of an artifact with its contents from a
+	 * prior git commit and saves it.  The binder must be opened with the
+	 * `git` option.  The checkout itself is committed by the next timed
+	 * save, so it can be undone like any other change.
 	 *
-	 * The thenable resolves to a reference to the Binder instance.
+	 * The thenable resolves to the artifact that was checked out.
 	 *
-	 * @param opts {ArtifactSearch} the section/notebook/filename to search
-	 * for within the schema.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param id {string} the id of the commit (from `history()`).  An
+	 * abbreviated id can be used.
 	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public remove(opts: ArtifactSearch, area: string = NS.notes) {
-		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+	public checkout(opts: ArtifactSearch, id: string) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			if (this._git == null) {
+				reject(`Binder '${this.binderName}' is not kept in git`);
+				return;
+			}
+
 			this.get(opts)
 				.then((artifact: Artifact) => {
-					switch (artifact.type) {
-						case ArtifactType.SNA:
-							this._artifacts.delete(artifact.path());
-							this.recents.eject(artifact);
-							delete this.schema[area][artifact.section][artifact.notebook][artifact.filename];
-							break;
+					// The commit is found in the history of the artifact to
+					// get the name the artifact had in it.
+					const commit: CommitInfo = this._git.history(artifact.path())
+						.find((it: CommitInfo) => it.id.startsWith(id));
 
-						case ArtifactType.SN:
-							delete this.schema[area][artifact.section][artifact.notebook];
-							break;
+					if (id === '' || commit == null) {
+						throw new Error(`Commit '${id}' not found for ${artifact.path()}`);
+					}
 
-						case ArtifactType.S:
-							delete this.schema[area][artifact.section];
-							break;
+					const data: Buffer = this._git.show(commit.path, commit.id);
 
-						default:
-							reject('Invalid artifact type given in remove');
-							break;
+					// The unsaved buffer is kept before it is replaced
+					if (artifact.isDirty()) {
+						this._revisions.add(artifact.path(), artifact.buf);
 					}
 
-					fs.remove(artifact.absolute(), err => {
-						if (err) {
-							reject(err.message);
-						}
-
-						resolve(this);
-					});
+					artifact.buf = decode(data, this.cipherFor(artifact.path()));
+					return this.saveArtifact(artifact);
 				})
-				.catch((err: string) => {
-					reject(err);
+				.then((artifact: Artifact) => {
+					this.log.info(`Checked out ${artifact.path()} from commit ${id}`);
+					resolve(artifact);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
 				});
 		});
 	}
 
 	/**
-	 * Renames an artifact from the source (src) to destination (dst).
+	 * Copies an artifact, a notebook or a whole section to a new location.
+	 * The contents and the meta data (tags, layout, dates and attachments)
+	 * of each artifact are copied, and each copy records where it was
+	 * copied from in the `copiedFrom` field of its meta data.  When the
+	 * destination already exists, then a timestamp is appended to its name
+	 * (see `Artifact.makeUnique()`).  Artifacts can't be copied into or out
+	 * of an encrypted notebook.
 	 *
-	 * The thenable resolves to a reference to the renamed artifact.
+	 * The thenable resolves to the new artifact, notebook or section.
 	 *
-	 * @param src {ArtifactSearch} the source artifact that will be changed
-	 * @param dst {ArtifactSearch} the destination artifact that the source
-	 * will be changed into.
-	 * @returns {Promise} a javascript promise object.
+	 * @param src {ArtifactSearch} the section/notebook/filename to copy
+	 * @param dst {ArtifactSearch} the location of the copy.  It must be the
+	 * same type (section, notebook or artifact) as the source.
+	 * @param [binder] {Binder} the binder that receives the copy.  It
+	 * defaults to this binder.
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public rename(src: ArtifactSearch, dst: ArtifactSearch) {
+	public copy(src: ArtifactSearch, dst: ArtifactSearch, binder: Binder = this) {
 		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-			let srcArtifact: Artifact = null;
-			let dstArtifact: Artifact = null;
+			const type: ArtifactType = Artifact.isType(src);
+			let source: Artifact = null;
+			let target: Artifact = null;
 
-			if (Artifact.isDuplicateSearch(src, dst)) {
-				reject(`No difference between artifacts in rename request`);
+			if (binder === this && Artifact.isDuplicateSearch(src, dst)) {
+				reject(`No difference between artifacts in copy request`);
+				return;
+			}
+
+			if (type !== Artifact.isType(dst)) {
+				reject('SRC artifact type does not match DST');
+				return;
+			}
+
+			if (binder === this && type === ArtifactType.SN && src.section === dst.section &&
+				dst.notebook.startsWith(`${src.notebook}/`)) {
+				reject(`Notebook '${src.section}/${src.notebook}' can't be copied into itself`);
+				return;
+			}
+
+			if ((binder !== this || src.section !== dst.section || src.notebook !== dst.notebook) &&
+				(this.hasEncryptedNotebook(src) || binder.hasEncryptedNotebook(dst))) {
+				reject(`Artifacts can't be copied into or out of an encrypted notebook`);
+				return;
 			}
 
 			this.get(src)
 				.then((artifact: Artifact) => {
-					srcArtifact = artifact;
-					if (srcArtifact.type !== Artifact.isType(dst)) {
-						reject('SRC artifact type does not match DST');
-					}
-					return this.add(dst);
-				})
-				.then((artifact: Artifact) => {
-					dstArtifact = artifact;
-					dstArtifact.meta = _.cloneDeep(srcArtifact.meta);
-					dstArtifact.buf = srcArtifact.buf;
-					dstArtifact.makeDirty();
+					source = artifact;
+					target = binder.copyTarget(dst);
+
+					return this.copyItems(src, target)
+						.reduce((chain: Promise<any>, item: CopyItem) => {
+							return chain.then(() => this.copyItem(item, binder));
+						}, Promise.resolve());
 				})
 				.then(() => {
-					return this.remove(srcArtifact);
+					return binder.get(target);
 				})
-				.then(() => {
-					resolve(dstArtifact);
+				.then((artifact: Artifact) => {
+					this.log.info(`Copied ${source.path()} to ${binder.binderName}:${artifact.path()}`);
+					this.emit(Events.artifactCopied, artifact, source);
+					resolve(artifact);
 				})
-				.catch((err: string) => {
-					reject(err);
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
 				});
 		});
 	}
 
 	/**
-	 * Takes an item from the trash and puts it back into the schema.  If the
-	 * item is already in the schema, then it appends a timestamp to the name
-	 * of the item that is being restored.
-	 *
-	 * The thenable resolves to the artifact that was retored.
+	 * Creates new sections within a binder.  It takes a list of section
+	 * strings and creates a directory for each given string.
 	 *
-	 * @param opts {ArtifactSearch} The section/notebook/filename to restore
-	 * @returns {Promise} a javascript promise object.
+	 * @param schema {Array|string} a list of directories (sections) under this
+	 * binder location.  Each of these directories will be created under this
+	 * binder unless they already exist.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public restore(opts: ArtifactSearch) {
-		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-			const dstArtifact: Artifact = Artifact.factory('fields', opts);
-			dstArtifact.root = this.config.dbdir;
-			const srcArtifact: Artifact = dstArtifact.clone();
-			srcArtifact.root = join(this.config.dbdir, 'Trash');
+	public create(schema: string[] | string, area: string = NS.notes) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			if (typeof schema === 'string') {
+				schema = [schema];
+			}
 
-			// Compute the garbage can file/directory location
-			if (!fs.existsSync(srcArtifact.absolute())) {
-				reject(`This artifact doesn't exist in Trash and can't be restored: ${srcArtifact.info()}`);
+			if (schema.length < 1) {
+				schema.push('Default');
 			}
 
-			// Compute the restore location
-			if (fs.existsSync(dstArtifact.absolute())) {
-				dstArtifact.makeUnique();
+			if (schema.indexOf('Trash') <= -1) {
+				schema.push('Trash');
 			}
 
-			fs.move(srcArtifact.absolute(), dstArtifact.absolute(), (err: Error) => {
-				if (err) {
-					reject(err.message);
-				}
+			try {
+				schema.forEach((it: string) => {
+					const artifact = Artifact.factory('fields', {
+						section: it,
+						root: this.config.dbdir
+					});
+					const exists = this.hasSection(artifact, area);
 
-				fs.removeSync(srcArtifact.absolute());
+					this.createSection(artifact, area);
 
-				// This is an expensive reload process.  When it s single item it's
-				// expensive to do this, but if it's a directory with a lot of files
-				// restored, then it would be worth the overhead.
-				this.reload()
-					.then(() => {
-						resolve(dstArtifact);
-					})
-					.catch((errmsg: string) => {
-						reject(errmsg);
-					});
-			});
+					if (!exists && area === NS.notes && it !== 'Trash') {
+						this.emit(Events.sectionCreated, artifact);
+					}
+				}, this);
+				resolve(this);
+			} catch (err) {
+				reject(err.message);
+			}
 		});
 	}
 
 	/**
-	 * User requested save function.  If given an artifact, then a single
-	 * save is performed.  If no artifact is specifid, then the binder
-	 * artifact list is scanned for dirty artifacts that need to be saved.
+	 * Computes a line by line difference between two revisions of an
+	 * artifact.  The revision id `current` can be used to refer to the
+	 * current buffer of the artifact.
 	 *
-	 * The thenable resolves to a reference to the Binder instance.
+	 * The thenable resolves to an array of `DiffLine` objects.  Each line
+	 * has an op of `' '` (unchanged), `'-'` (removed) or `'+'` (added).
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param from {string} the id of the older revision
+	 * @param [to] {string} the id of the newer revision.  The default is
+	 * the current buffer.
 	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public save() {
+	public diffRevisions(opts: ArtifactSearch, from: string, to: string = 'current') {
+		return new Promise((resolve: PromiseFn<DiffLine[]>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					const content = (id: string) => {
+						return (id === 'current') ? artifact.buf : this._revisions.get(artifact.path(), id);
+					};
+
+					resolve(diffLines(content(from), content(to)));
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Removes the current contents of the 'Trash' folder/section from the
+	 * current DB.  It also resets the internal trash namespace to empty.  This
+	 * will check that the directory requested is within the database location
+	 * and has the 'Trash' directory.
+	 *
+	 * When a section or an age is given only the items that match are
+	 * removed (see `trashed()`).  Directories in the trash that are left
+	 * empty are removed with them.
+	 *
+	 * The thenable resolves to a reference to the Binder instance.
+	 *
+	 * @param [opts] {TrashOpts} selects the items to remove
+	 *
+	 * - `olderThan {number}`: only items deleted more than this many days
+	 * ago are removed.
+	 * - `section {string}`: only items in this section of the trash are
+	 * removed.
+	 *
+	 * @returns {Promise} a javascript promise object.
+	 */
+	@autobind
+	public emptyTrash(opts: TrashOpts = {}) {
 		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
-			try {
-				this.saveBinder((err: Error) => {
+			if (opts.section != null || opts.olderThan != null) {
+				if (this._locked) {
+					reject(`Binder '${this.binderName}' is locked`);
+					return;
+				}
+
+				try {
+					this.removeTrash(this.trashed(opts));
+					this.emit(Events.trashEmptied, this);
+					resolve(this);
+				} catch (err) {
+					reject(err.message);
+				}
+
+				return;
+			}
+
+			if (fs.existsSync(this.config.trash) &&
+				this.config.trash.endsWith(`/Trash`) &&
+				this.config.trash.startsWith(this.config.dbdir)) {
+				this.log.info('Emptying trash: ${this.config.trash}');
+
+				fs.remove(this.config.trash, (err: Error) => {
 					if (err) {
 						reject(err.message);
 					}
 
+					this.schema.trash = {};
+					fs.mkdirsSync(this.config.trash);
+					this._trashLog.clear();
+					this.pruneAttachments();
+					this.emit(Events.trashEmptied, this);
 					resolve(this);
 				});
-			} catch (err) {
-				reject(err.message);
+			} else {
+				reject(`Invalid trash directory, no empty: ${this.config.trash}`);
 			}
 		});
 	}
 
 	/**
-	 * Performs a save of a single artifact.
-	 * @param artifact {Artifact} the artifact value to save
+	 * Encrypts the artifacts of a single notebook with their own passphrase.
+	 * The files of the notebook (including its artifacts in the trash and
+	 * their revisions) are encrypted with a key derived from the passphrase.
+	 * The notebook is unlocked when this call finishes.  When it is locked
+	 * with `lockNotebook()` its artifacts can't be retrieved, saved or found
+	 * until `unlockNotebook()` is called.
+	 *
+	 * The contents of an encrypted notebook are kept out of the search index
+	 * and the links that are written to disk.  The meta data of its
+	 * artifacts (dates and tags) is not encrypted by the notebook.
+	 *
+	 * The thenable resolves to a reference to the binder.
+	 *
+	 * @param opts {ArtifactSearch} the section and notebook to encrypt
+	 * @param passphrase {string} the passphrase for the notebook
 	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public saveArtifact(artifact: Artifact) {
-		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-			if (artifact.isDirty()) {
+	public encryptNotebook(opts: ArtifactSearch, passphrase: string) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			const key: string = `${opts.section}/${opts.notebook}`;
+			let cipher: Cipher = null;
 
-				// Keep an eye on this function if there are save issues.  When a promise is
-				// not yet fulfilled, and a save occurs, then the file may show as empty as
-				// buffered output is not yet written while waiting for the save promise to
-				// finish.  If the app crashes before this sync finishes, then data loss
-				// may occur.  May need to make this the sync version and trade off performance
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
 
-				fs.writeFile(artifact.absolute(), artifact.buf, (err: Error) => {
-					if (err) {
-						reject(`Error writing artifact: ${err.message}`);
+			if (!this.hasNotebook(opts)) {
+				reject(`Notebook '${opts.notebook}' not found in section '${opts.section}'.`);
+				return;
+			}
+
+			if (this.notebookEncrypted(key)) {
+				reject(`Notebook '${key}' is already encrypted`);
+				return;
+			}
+
+			if (this.hasEncryptedNotebook(opts)) {
+				reject(`Notebook '${key}' holds an encrypted notebook`);
+				return;
+			}
+
+			try {
+				cipher = Cipher.create(passphrase);
+			} catch (err) {
+				reject(err.message);
+				return;
+			}
+
+			this.save()
+				.then(() => {
+					for (const directory of [
+						join(this.config.dbdir, key),
+						join(this.config.trash, key),
+						join(this.config.revisionDir, key)
+					]) {
+						for (const filename of this.listFiles(directory)) {
+							this.recodeFile(filename, this._cipher, cipher);
+						}
 					}
 
-					artifact.makeClean();
-					resolve(artifact);
+					this._config.notebookEncryption[key] = cipher.config;
+					this._notebookCiphers.set(key, cipher);
+
+					// The plain text of the notebook is removed from the index
+					// on disk, and then indexed again in memory only.
+					this._index.removePrefix(`${key}/`);
+					this._links.removePrefix(`${key}/`);
+
+					return this.save();
+				})
+				.then(() => {
+					for (const artifact of this.notebookArtifacts(key)) {
+						this.indexArtifact(artifact);
+					}
+
+					this.log.info(`Encrypted notebook '${key}'`);
+					resolve(this);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
 				});
-			} else {
-				resolve(artifact);
-			}
 		});
 	}
 
 	/**
-	 * Enumerates the list of sections from the schema.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {Array} a list of section names as strings
+	 * Writes the binder, a section or a notebook as a static HTML site.
+	 * Each artifact becomes a page that shows its contents, dates and tags.
+	 * Markdown artifacts (`.md`, `.markdown`) are rendered to HTML and all
+	 * other artifacts are shown as preformatted text.  An index page is
+	 * written for the site, each section and each notebook.  The unsaved
+	 * buffer of a loaded artifact is used instead of the file.
+	 *
+	 * The thenable resolves to the list of files that were written.
+	 *
+	 * @param opts {ExportOpts} the items to export
+	 *
+	 * - `section {string}`: the section to export.  If it is not given, then
+	 * all sections are exported.
+	 * - `notebook {string}`: the notebook within the section to export.  If
+	 * it is not given, then all notebooks in the section are exported.
+	 * - `outDir {string}`: the directory where the site is written
+	 * - `title {string} default=binderName`: the title of the site
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public sections(area: string = NS.notes): string[] {
-		const sections: string[] = [];
+	public exportHtml(opts: ExportOpts) {
+		return new Promise((resolve: PromiseFn<string[]>, reject: PromiseFn<string>) => {
+			opts = Object.assign({
+				title: this.binderName
+			}, opts);
+
+			if (opts.outDir == null || opts.outDir === '') {
+				reject('An output directory is required for an export');
+				return;
+			}
 
-		if (!this.initialized) {
-			throw new Error('Trying to retrieve sections from an ' +
-				'unitialized database.');
-		}
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
 
-		_.forOwn(this.schema[area], (value: any, key: string) => {
-			value.toString();
-			sections.push(key);
-		});
+			if (opts.section != null && !this.hasSection(opts)) {
+				reject(`Section '${opts.section}' not found in binder.`);
+				return;
+			}
 
-		return (sections);
+			if (opts.notebook != null && !this.hasNotebook(opts)) {
+				reject(`Notebook '${opts.notebook}' not found in section '${opts.section}'.`);
+				return;
+			}
+
+			if (opts.notebook != null && this.isNotebookLocked(opts)) {
+				reject(`Notebook '${opts.section}/${opts.notebook}' is locked`);
+				return;
+			}
+
+			try {
+				const exporter = new HtmlExporter(opts.outDir, opts.title);
+				const sections: string[] = (opts.section != null)
+					? [opts.section]
+					: this.sections().filter((it: string) => it !== 'Trash').sort();
+
+				for (const section of sections) {
+					const notebooks: string[] = (opts.notebook != null)
+						? [opts.notebook]
+						: Object.keys(this.schema.notes[section])
+							.filter((notebook: string) => !this.isNotebookLocked({section, notebook}))
+							.sort();
+
+					for (const notebook of notebooks) {
+						const artifacts: Artifact[] = Object.keys(this.schema.notes[section][notebook])
+							.sort()
+							.map((filename: string) => this.schema.notes[section][notebook][filename]);
+
+						for (const artifact of artifacts) {
+							const content = (artifact.loaded)
+								? artifact.buf
+								: this.readArtifact(artifact);
+							exporter.writeArtifact(artifact, content);
+						}
+
+						exporter.writeNotebook(section, notebook, artifacts);
+					}
+
+					exporter.writeSection(section, this.notebooks(section)
+						.filter((it: NotebookDetails) => notebooks.indexOf(it.name) !== -1)
+						.sort((a, b) => a.name.localeCompare(b.name)));
+				}
+
+				exporter.writeIndex(sections);
+
+				this.log.info(`Exported ${exporter.files.length} pages to ${opts.outDir}`);
+				resolve(exporter.files);
+			} catch (err) {
+				reject(err.message);
+			}
+		});
 	}
 
 	/**
-	 * Called when the database is no longer needed.  This will cleanup
-	 * operations and shutdown the intervals.
+	 * Performs a text search against all artifacts within the repository.
+	 * This will return a list of all artifacts that contain the requested
+	 * string.
+	 *
+	 * The search is resolved against the binder's inverted index.  The
+	 * search string is a list of clauses that must all match:
+	 *
+	 * - `term` - a word that must appear in the artifact
+	 * - `"some phrase"` - words that must appear together in this order
+	 * - `pre*` - any word that starts with the given prefix
+	 *
+	 * Words are matched whole, and the words of a search without quotes
+	 * can appear anywhere in the artifact (e.g. `hello world` finds an
+	 * artifact with `world` on one line and `hello` on another).  Quote the
+	 * words to only find them together, as the search did before the index.
+	 *
+	 * Results are ranked by relevance (best match first).  If the search
+	 * string contains regex special characters, then it is treated as a
+	 * regex and every artifact is read and scanned instead.
+	 *
+	 * The thenable from this call is an Array of Artifacts that meet the
+	 * search criteria.
+	 *
+	 * @param search {string} the search string (or regex) to used as the
+	 * search criteria.
 	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public shutdown() {
-		return new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
-			try {
-				this.saveBinder((err: Error) => {
-					if (err) {
-						reject(err.message);
-					}
+	public find(search: string) {
+		if (reRegexSearch.test(search)) {
+			return this.scan(search);
+		}
 
-					if (this._fnSaveInterval != null) {
-						clearInterval(this._fnSaveInterval);
-						this._fnSaveInterval = null;
-					}
+		return new Promise((resolve: PromiseFn<Artifact[]>, reject: PromiseFn<string>) => {
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
 
-					this.initialized = false;
-					resolve('The database is shutdown.');
-				});
+			try {
+				resolve(this._index.search(search)
+					.map(match => this._artifacts.get(match.path))
+					.filter((artifact: Artifact) => artifact != null));
 			} catch (err) {
 				reject(err.message);
 			}
@@ -864,483 +1445,3512 @@ export class Binder extends EventEmitter {
 	}
 
 	/**
-	 * Converts the internal structures to a string and returns it.
-	 * @return {string} a string that shows the configuration and schema for
-	 * the database.
+	 * Retrieves all of the artifacts that have a tag.  A parent tag also
+	 * finds the artifacts of its children, so `project` finds artifacts
+	 * tagged `project/alpha`.
+	 *
+	 * The thenable resolves to an array of Artifacts, sorted by path.
+	 *
+	 * @param tag {string} the name of the tag to find
+	 * @returns {Promise} a javascript promise object
 	 */
 	@autobind
-	public toString() {
-		const obj = {
-			config: this.config,
-			schema: this.schema
-		};
-
-		return JSON.stringify(obj, null, '\t');
+	public findByTag(tag: string) {
+		return new Promise((resolve: PromiseFn<Artifact[]>) => {
+			resolve(this._tags.find(tag)
+				.map((key: string) => this._artifacts.get(key))
+				.filter((artifact: Artifact) => artifact != null));
+		});
 	}
 
 	/**
-	 * Moves an artifact from it's current directory to the "Trash" folder.  It
-	 * is not removed until the emptyTrash() method is called.  The artifact
-	 * is removed from the schema dictionary and stored in the trash dictionary.
+	 * Retrieves an artifact from the schema.  If it exists, then it is returned
+	 * by the promise.  If it is not found, then an error will be thrown.  If
+	 * the artifact has never been loaded before, then it is read from the
+	 * filesystem when this request is made.  This will place the artifact into
+	 * the recent documents queue.
 	 *
-	 * The thenable resolves to the artifact that was moved to the trash.
+	 * When the request is a section or notebook a temporary artifact object
+	 * is created and returned.
 	 *
-	 * @param opts {ArtifactSearch} the section/notebook/filename to remove
+	 * The thenable resolves to the artifact created by the get request.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename to search
 	 * for within the schema.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
 	 * @returns {Promise} a javascript promise object.
 	 */
 	@autobind
-	public trash(opts: ArtifactSearch) {
-		this.createTrash();
+	public get(opts: ArtifactSearch, area: string = NS.notes) {
 		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
-			this.get(opts)
-				.then((srcArtifact: Artifact) => {
-					const dstArtifact: Artifact = srcArtifact.clone();
-					dstArtifact.root = join(this.config.dbdir, 'Trash');
-					if (fs.existsSync(dstArtifact.absolute())) {
-						dstArtifact.makeUnique();
-					}
-
-					fs.move(srcArtifact.absolute(), dstArtifact.absolute(), (err: Error) => {
-						if (err) {
-							reject(err.message);
-						}
+			const type: ArtifactType = Artifact.isType(opts);
 
-						this.remove(srcArtifact)
-							.then((adb: Binder) => {
-								return adb.reload('trash');
-							})
-							.then(() => {
-								resolve(dstArtifact);
-							})
-							.catch((errmsg: string) => {
-								reject(errmsg);
-							});
-					});
-				})
-				.catch((err: string) => {
-					reject(err);
-				});
-		});
-	}
+			if (type === ArtifactType.SNA && this.hasArtifact(opts, area) && this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+			} else if (type === ArtifactType.SNA && this.hasArtifact(opts, area) && this.isNotebookLocked(opts)) {
+				reject(`Notebook '${opts.section}/${opts.notebook}' is locked`);
+			} else if (type === ArtifactType.SNA && this.hasArtifact(opts)) {
+				const artifact = this._schema[area][opts.section][opts.notebook][opts.filename];
+				const absolute = artifact.absolute();
 
-	//
-	// Properties
-	//
+				if (fs.existsSync(absolute) && !artifact.loaded) {
+					const inp = fs.createReadStream(absolute);
+					const chunks: Buffer[] = [];
 
-	get artifacts(): Map<string, Artifact> {
-		return this._artifacts;
-	}
+					inp.on('close', () => {
+						try {
+							artifact.buf = decode(Buffer.concat(chunks), this.cipherFor(artifact.path()));
+						} catch (err) {
+							reject(`Error reading artifact: ${err.message}`);
+							return;
+						}
+
+						artifact.loaded = true;
+						artifact.makeClean();
+
+						if (!this.recents.contains(artifact)) {
+							this.recents.enqueue(artifact);
+						}
+
+						fs.stat(absolute, (err, stats) => {
+							if (err) {
+								reject(err.message);
+							}
+
+							this.loadMetadata(artifact, stats);
+							resolve(artifact);
+						});
+					});
+
+					inp.on('error', (err: Error) => {
+						reject(err.message);
+					});
+
+					inp.on('data', (chunk: Buffer) => {
+						chunks.push(chunk);
+					});
+				} else {
+					if (!this.recents.contains(artifact)) {
+						this.recents.enqueue(artifact);
+					}
+					resolve(artifact);
+				}
+			} else if ((type === ArtifactType.SN && this.hasNotebook(opts, area)) ||
+				(type === ArtifactType.S && this.hasSection(opts, area))) {
+				const artifact = Artifact.factory('fields', opts);
+				artifact.root = this.config.dbdir;
+				if (!this.recents.contains(artifact)) {
+					this.recents.enqueue(artifact);
+				}
+				resolve(artifact);
+			} else {
+				reject(`Artifact doesn't exist: ${opts.section}|${opts.notebook}|${opts.filename}`);
+			}
+		});
+	}
+
+	/**
+	 * Retrieves the contents of an attachment of an artifact.
+	 *
+	 * The thenable resolves to a Buffer with the contents.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param name {string} the name of the attachment
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public getAttachment(opts: ArtifactSearch, name: string) {
+		return new Promise((resolve: PromiseFn<Buffer>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					const info: AttachmentInfo = artifact.attachments.find((it: AttachmentInfo) => it.name === name);
+
+					if (info == null) {
+						throw new Error(`Attachment '${name}' doesn't exist on ${artifact.path()}`);
+					}
+
+					resolve(this._attachments.get(info.hash));
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Retrieves the contents of a prior revision of an artifact.
+	 *
+	 * The thenable resolves to the string contents of the revision.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param id {string} the id of the revision (see `revisions()`)
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public getRevision(opts: ArtifactSearch, id: string) {
+		return new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					resolve(this._revisions.get(artifact.path(), id));
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Checks to see if a document is in the repository by name, notebook and
+	 * section.
+	 * @param search {ArtifactSearch} an object that represents the item to
+	 * find in the schema.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {boolean} true if the artifact is found, otherwise false
+	 */
+	@autobind
+	public hasArtifact(search: ArtifactSearch, area: string = NS.notes): boolean {
+		if (this.hasSection(search, area) && this.hasNotebook(search, area)) {
+
+			return Object.prototype.hasOwnProperty
+				.call(this.schema[area][search.section][search.notebook], search.filename);
+		}
+
+		return false;
+	}
+
+	/**
+	 * Checks the given section for the existence of a notebook by name.
+	 * @param search {ArtifactSearch} an object that represents the item to
+	 * find in the schema.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {boolean} true if the notebook is found, otherwise false
+	 */
+	@autobind
+	public hasNotebook(search: ArtifactSearch, area: string = NS.notes): boolean {
+		if (this.schema.hasOwnProperty(area)) {
+			if (this.schema[area].hasOwnProperty(search.section)) {
+				return Object.prototype.hasOwnProperty
+					.call(this.schema[area][search.section], search.notebook);
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Checks the current schema for the existence of a section.
+	 * @param search {ArtifactSearch} an object that represents the item to
+	 * find in the schema.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @return {boolean} true if the section is found, otherwise false.
+	 */
+	@autobind
+	public hasSection(search: ArtifactSearch, area: string = NS.notes): boolean {
+		if (this.schema.hasOwnProperty(area)) {
+			return Object.prototype.hasOwnProperty.call(this.schema[area], search.section);
+		}
+
+		return false;
+	}
+
+	/**
+	 * Retrieves the git commits that changed an artifact.  The binder must
+	 * be opened with the `git` option.  Renames of the artifact are
+	 * followed.
+	 *
+	 * The thenable resolves to an array of `CommitInfo` objects, newest
+	 * first.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public history(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<CommitInfo[]>, reject: PromiseFn<string>) => {
+			if (this._git == null) {
+				reject(`Binder '${this.binderName}' is not kept in git`);
+				return;
+			}
+
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					resolve(this._git.history(artifact.path()));
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Reads an Evernote export (.enex) file and adds each note in it to the
+	 * binder as a markdown artifact.  The ENML content of a note is converted
+	 * to markdown.  The created/updated dates and the tags of each note are
+	 * kept in the artifact's metadata.  Names that contain characters that
+	 * can't be used in the binder are cleaned up, and a number is added to
+	 * the filename when a note with the same name already exists.
+	 *
+	 * Attachments, encrypted text, and notes that can't be read are not
+	 * imported.  They are reported in the `skipped` list of the result.
+	 *
+	 * The thenable resolves to an object with the list of `artifacts` that
+	 * were created and the list of items that were `skipped`.
+	 *
+	 * @param filename {string} the location of the .enex file
+	 * @param [opts] {EnexImportOpts} optional parameters
+	 *
+	 * - `section {string} default=Evernote`: the section for the notes
+	 * - `notebook {string}`: the notebook for the notes.  It defaults to the
+	 * name of the export file.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public importEnex(filename: string, opts: EnexImportOpts = {}) {
+		return new Promise((resolve: PromiseFn<EnexImportResult>, reject: PromiseFn<string>) => {
+			let data: EnexData = null;
+
+			try {
+				data = parseEnex(fs.readFileSync(filename).toString());
+			} catch (err) {
+				reject(`Error reading Evernote export '${filename}': ${err.message}`);
+				return;
+			}
+
+			const result: EnexImportResult = {
+				artifacts: [],
+				skipped: data.skipped
+			};
+
+			const section = this.sanitizeName(opts.section || 'Evernote');
+			const notebook = this.sanitizeName(opts.notebook || path.basename(filename, path.extname(filename)));
+
+			data.notes.reduce((chain: Promise<any>, note: EnexNote) => {
+				return chain
+					.then(() => {
+						return this.importNote(section, notebook, note);
+					})
+					.then((artifact: Artifact) => {
+						result.artifacts.push(artifact);
+					})
+					.catch((err: string) => {
+						result.skipped.push({title: note.title, reason: err});
+					});
+			}, Promise.resolve())
+				.then(() => {
+					this.log.info(`Imported ${result.artifacts.length} notes from ${filename} (${result.skipped.length} skipped)`);
+					resolve(result);
+				});
+		});
+	}
+
+	/**
+	 * Checks if a notebook is encrypted with its own passphrase (see
+	 * `encryptNotebook()`) and is locked.
+	 * @param search {ArtifactSearch} the section and notebook to check
+	 * @returns {boolean} true if the notebook is locked, otherwise false.
+	 */
+	@autobind
+	public isNotebookLocked(search: ArtifactSearch): boolean {
+		const key: string = this.notebookKey(`${search.section}/${search.notebook}`);
+		return this.notebookEncrypted(key) && !this._notebookCiphers.has(key);
+	}
+
+	/**
+	 * Retrieves the outgoing `[[...]]` links of an artifact.  The links are
+	 * taken from the artifact when it was last saved.
+	 *
+	 * The thenable resolves to an array of the linked paths in the order
+	 * they appear in the artifact.  A path may refer to an artifact that
+	 * doesn't exist (see `brokenLinks()`).
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public links(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<string[]>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					resolve(this._links.links(artifact.path()));
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Locks an encrypted binder.  The binder is saved, and then the
+	 * contents of every artifact, the meta data, the tags, the search index
+	 * and the links are cleared from memory along with the key.  While the
+	 * binder is locked, artifacts can't be retrieved, saved or searched
+	 * until `unlock()` is called.
+	 *
+	 * The thenable resolves to a reference to the binder.
+	 *
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public lock() {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			if (!this.encrypted) {
+				reject(`Binder '${this.binderName}' is not encrypted`);
+				return;
+			}
+
+			if (this._locked) {
+				resolve(this);
+				return;
+			}
+
+			this.save()
+				.then(() => {
+					for (const artifact of this.everyArtifact()) {
+						this.recents.eject(artifact);
+						artifact.buf = '';
+						artifact.makeClean();
+						artifact.loaded = false;
+						artifact.meta = Artifact.factory().meta;
+					}
+
+					this._meta = {};
+					this._tags = new TagIndex();
+					this._index.clear();
+					this._links.clear();
+					this._trashLog.clear();
+					this._cipher = null;
+					this._notebookCiphers.clear();
+					this._locked = true;
+
+					this.log.info(`Locked binder '${this.binderName}'`);
+					this.emit(Events.binderLocked, this);
+					resolve(this);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Locks a notebook that was encrypted with `encryptNotebook()`.  The
+	 * notebook is saved, and then the buffers of its artifacts are cleared,
+	 * the artifacts are removed from the recent list and their contents are
+	 * removed from the search index and the links.  The key of the notebook
+	 * is cleared from memory.
+	 *
+	 * The thenable resolves to a reference to the binder.
+	 *
+	 * @param opts {ArtifactSearch} the section and notebook to lock
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public lockNotebook(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			const key: string = this.notebookKey(`${opts.section}/${opts.notebook}`);
+
+			if (!this.notebookEncrypted(key)) {
+				reject(`Notebook '${key}' is not encrypted`);
+				return;
+			}
+
+			if (this.isNotebookLocked(opts)) {
+				resolve(this);
+				return;
+			}
+
+			this.save()
+				.then(() => {
+					for (const artifact of this.notebookArtifacts(key)) {
+						this.recents.eject(artifact);
+						artifact.buf = '';
+						artifact.makeClean();
+						artifact.loaded = false;
+					}
+
+					this._index.removePrefix(`${key}/`);
+					this._links.removePrefix(`${key}/`);
+					this._notebookCiphers.delete(key);
+
+					this.log.info(`Locked notebook '${key}'`);
+					this.emit(Events.notebookLocked, Artifact.factory('fields', {
+						section: opts.section,
+						notebook: opts.notebook,
+						root: this.config.dbdir
+					}));
+					resolve(this);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Retrieves the first journal entry after a date (see `today()`).
+	 *
+	 * The thenable resolves to the artifact of the entry or null if there
+	 * is no later entry.
+	 *
+	 * @param [opts] {JournalOpts} optional parameters
+	 *
+	 * - `date {Date} default=now`: the date to start from
+	 * - `section {string} default='Journal'`: the journal section
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public nextEntry(opts: JournalOpts = {}) {
+		return this.journalStep(opts, 1);
+	}
+
+	/**
+	 * Enumerates the list of notebooks in a section from the schema.
+	 * returns {NotebookDetails[]} a list of the notebooks for a section and
+	 * their associated artifact counts.
+	 * @param sectionName {string} the name of the section where the notebooks
+	 * are located.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {NotebookDetails[]} a list of notebook names as strings and the
+	 * number of artifacts within that notebook.
+	 */
+	@autobind
+	public notebooks(sectionName: string, area: string = NS.notes): NotebookDetails[] {
+		const notebooks: NotebookDetails[] = [];
+
+		if (!this.initialized) {
+			throw new Error('Trying to retrieve notebooks from an unitialized database.');
+		}
+
+		if (this.hasSection({section: sectionName}, area)) {
+			_.forOwn(this.schema[area][sectionName], (value: any, key: string) => {
+				value.toString();
+				notebooks.push({
+					name: key,
+					count: Object.keys(this.schema[area][sectionName][key]).length
+				});
+			});
+		} else {
+			throw new Error(`Section '${sectionName}' not found in binder.`);
+		}
+
+		return (notebooks);
+	}
+
+	/**
+	 * Retrieves the last journal entry before a date (see `today()`).
+	 *
+	 * The thenable resolves to the artifact of the entry or null if there
+	 * is no earlier entry.
+	 *
+	 * @param [opts] {JournalOpts} optional parameters
+	 *
+	 * - `date {Date} default=now`: the date to start from
+	 * - `section {string} default='Journal'`: the journal section
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public previousEntry(opts: JournalOpts = {}) {
+		return this.journalStep(opts, -1);
+	}
+
+	/**
+	 * Performs a structured query against the artifacts in the binder.  The
+	 * query is a list of terms that are joined with the boolean operators
+	 * `AND`, `OR` and `NOT` (or `-`) and grouped with parens.  Terms next to
+	 * each other are joined with AND.  A term is one of:
+	 *
+	 * - `section:{name}`, `notebook:{name}`, `filename:{name}` - matches the
+	 * location of the artifact (case insensitive, a trailing `*` matches a
+	 * prefix).
+	 * - `tag:{name}` - the artifact has the given tag
+	 * - `accessed:{date}`, `created:{date}`, `updated:{date}` - compares an
+	 * artifact date.  The date can be prefixed with `>`, `>=`, `<` or `<=`.
+	 * Without a comparison it matches any time on that day.
+	 * - anything else is a text search against the search index (see
+	 * `find()` for the text syntax).
+	 *
+	 * e.g. `section:Work tag:urgent updated:>2026-01-01 "meeting notes"`
+	 *
+	 * The thenable resolves to an array of `QueryResult` objects.  Each
+	 * holds the matching artifact, its relevance score and the character
+	 * positions of the text matches within the artifact.  The results are
+	 * ranked by score.
+	 *
+	 * @param query {string} the query string to evaluate
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public query(query: string) {
+		return new Promise((resolve: PromiseFn<QueryResult[]>, reject: PromiseFn<string>) => {
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
+
+			try {
+				const root = parseQuery(query);
+				const cache: Map<string, Map<string, IndexMatch>> = new Map();
+				const lookup = (search: string) => {
+					if (!cache.has(search)) {
+						const matches: Map<string, IndexMatch> = new Map();
+						for (const match of this._index.search(search)) {
+							matches.set(match.path, match);
+						}
+						cache.set(search, matches);
+					}
+
+					return cache.get(search);
+				};
+
+				const results: QueryResult[] = [];
+				for (const artifact of this._artifacts.values()) {
+					if (this.isNotebookLocked(artifact)) {
+						continue;
+					}
+
+					const result: QueryResult = {
+						artifact: artifact,
+						score: 0,
+						positions: []
+					};
+
+					if (evaluateQuery(root, artifact, lookup, result)) {
+						result.positions.sort((a, b) => a.start - b.start);
+						results.push(result);
+					}
+				}
+
+				// Ties keep the schema order of the artifacts
+				resolve(results
+					.map((result: QueryResult, idx: number) => ({result, idx}))
+					.sort((a, b) => (b.result.score - a.result.score) || (a.idx - b.idx))
+					.map(it => it.result));
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	/**
+	 * Scans the current repository directory to rebuild the schema.  This
+	 * only needs to be done if a file/artifact is added to the directory
+	 * structure after the instance has been loaded.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Promise} a javascript promise object.
+	 */
+	@autobind
+	public reload(area: string = NS.notes) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			this.initialized = false;
+			try {
+				this.load(area);
+				this.emit(Events.binderReloaded, this, area);
+				resolve(this);
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	/**
+	 * Immediately removes an section/notebook/artifact from the system.
+	 *
+	 * The thenable resolves to a reference to the Binder instance.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename to search
+	 * for within the schema.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public remove(opts: ArtifactSearch, area: string = NS.notes) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			let artifact: Artifact = null;
+
+			this.get(opts)
+				.then((it: Artifact) => {
+					artifact = it;
+					return this.deleteArtifact(artifact, area);
+				})
+				.then(() => {
+					this.pruneAttachments();
+
+					switch (artifact.type) {
+						case ArtifactType.SNA:
+							this.emit(Events.artifactRemoved, artifact);
+							break;
+
+						case ArtifactType.SN:
+							this.emit(Events.notebookRemoved, artifact);
+							break;
+
+						default:
+							this.emit(Events.sectionRemoved, artifact);
+							break;
+					}
+
+					resolve(this);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Removes an attachment from an artifact.  The stored contents are
+	 * deleted when no other artifact uses them.
+	 *
+	 * The thenable resolves to the artifact that was changed.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param name {string} the name of the attachment
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public removeAttachment(opts: ArtifactSearch, name: string) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					const attachments: AttachmentInfo[] = artifact.attachments.filter((it: AttachmentInfo) => it.name !== name);
+
+					if (attachments.length === artifact.attachments.length) {
+						throw new Error(`Attachment '${name}' doesn't exist on ${artifact.path()}`);
+					}
+
+					artifact.attachments = attachments;
+					this.pruneAttachments();
+					this.log.info(`Removed attachment ${name} from ${artifact.path()}`);
+					resolve(artifact);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Removes a tag from an artifact and updates the binder's tag index.
+	 * Children of the tag are also removed.
+	 *
+	 * The thenable resolves to the artifact that was changed.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param tag {string} the name of the tag to remove
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public removeTag(opts: ArtifactSearch, tag: string) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					artifact.removeTag(tag);
+					this._tags.set(artifact.path(), artifact.tags);
+					resolve(artifact);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Renames an artifact from the source (src) to destination (dst).
+	 *
+	 * The thenable resolves to a reference to the renamed artifact.
+	 *
+	 * @param src {ArtifactSearch} the source artifact that will be changed
+	 * @param dst {ArtifactSearch} the destination artifact that the source
+	 * will be changed into.
+	 * @param [relink] {boolean} when true, the `[[...]]` links in other
+	 * artifacts that point to the source are changed to point to the
+	 * destination.  The changed artifacts are saved.
+	 * @returns {Promise} a javascript promise object.
+	 */
+	@autobind
+	public rename(src: ArtifactSearch, dst: ArtifactSearch, relink: boolean = false) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			let srcArtifact: Artifact = null;
+			let dstArtifact: Artifact = null;
+
+			if (Artifact.isDuplicateSearch(src, dst)) {
+				reject(`No difference between artifacts in rename request`);
+			}
+
+			if ((src.section !== dst.section || src.notebook !== dst.notebook) &&
+				(this.hasEncryptedNotebook(src) || this.hasEncryptedNotebook(dst))) {
+				reject(`Artifacts can't be moved into or out of an encrypted notebook`);
+				return;
+			}
+
+			this.get(src)
+				.then((artifact: Artifact) => {
+					srcArtifact = artifact;
+					if (srcArtifact.type !== Artifact.isType(dst)) {
+						reject('SRC artifact type does not match DST');
+					}
+					return this.insert(dst);
+				})
+				.then((artifact: Artifact) => {
+					dstArtifact = artifact;
+					this._revisions.move(srcArtifact.path(), dstArtifact.path());
+					dstArtifact.meta = _.cloneDeep(srcArtifact.meta);
+					this.meta[dstArtifact.path()] = dstArtifact.meta;
+					dstArtifact.buf = srcArtifact.buf;
+					dstArtifact.makeDirty();
+
+					// The new artifact is saved right away so that the search
+					// index, link graph (and a watcher) see the contents on disk.
+					if (dstArtifact.type === ArtifactType.SNA) {
+						this._tags.set(dstArtifact.path(), dstArtifact.tags);
+						return this.saveArtifact(dstArtifact);
+					}
+
+					return dstArtifact;
+				})
+				.then(() => {
+					return this.deleteArtifact(srcArtifact);
+				})
+				.then(() => {
+					if (relink) {
+						return this.relink(srcArtifact.path(), dstArtifact.path());
+					}
+
+					return [];
+				})
+				.then(() => {
+					this.emit(Events.artifactRenamed, dstArtifact, srcArtifact);
+					resolve(dstArtifact);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Renames a tag on every artifact in the binder.  The children of the
+	 * tag are moved with it, so renaming `project` to `work` changes
+	 * `project/alpha` to `work/alpha`.  If an artifact already has the new
+	 * tag, then the two are merged.  The tags of artifacts in the trash are
+	 * also changed so they are correct if the artifact is restored.
+	 *
+	 * The thenable resolves to the number of artifacts that were changed.
+	 *
+	 * @param from {string} the name of the tag to change
+	 * @param to {string} the new name of the tag
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public renameTag(from: string, to: string) {
+		return new Promise((resolve: PromiseFn<number>, reject: PromiseFn<string>) => {
+			if (normalizeTag(from) === '' || normalizeTag(to) === '') {
+				reject(`Invalid tag rename '${from}' to '${to}'`);
+				return;
+			}
+
+			let count: number = 0;
+			for (const key of Object.keys(this.meta)) {
+				const meta = this.meta[key];
+				const tags = renameTags(meta.tags, from, to);
+
+				if (tags != null) {
+					meta.tags = tags;
+					if (this._artifacts.has(key)) {
+						this._artifacts.get(key).meta.tags = tags;
+						this._tags.set(key, tags);
+						count++;
+					}
+				}
+			}
+
+			this.log.info(`Renamed tag '${from}' to '${to}' on ${count} artifacts`);
+			resolve(count);
+		});
+	}
+
+	/**
+	 * Runs the integrity check of the binder (see `check()`) and fixes the
+	 * problems that it can:
+	 *
+	 * - orphaned meta data is deleted
+	 * - missing sections, notebooks and artifacts are removed from the schema
+	 * along with their meta data
+	 * - invalid names are renamed to a valid name when that name is free
+	 * - stray items are removed from the trash
+	 * - untracked files and directories are loaded into the schema.  A file
+	 * that is in a section directory is moved to its `Default` notebook.
+	 *
+	 * Unreadable artifacts are only reported.  The `repaired` flag of each
+	 * issue in the report shows if it was fixed.
+	 *
+	 * The thenable resolves to the IntegrityReport of the repair.
+	 *
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public repair() {
+		return new Promise((resolve: PromiseFn<IntegrityReport>, reject: PromiseFn<string>) => {
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
+
+			const moved: Map<string, string> = new Map();
+			let report: IntegrityReport = null;
+
+			try {
+				report = this.checkBinder();
+
+				for (const issue of report.orphanedMeta) {
+					delete this.meta[issue.path];
+					issue.repaired = true;
+				}
+
+				for (const issue of report.missing) {
+					const [section, ...parts] = issue.path.split('/');
+
+					for (const key of Array.from(this.artifacts.keys())) {
+						if (key === issue.path || key.startsWith(`${issue.path}/`)) {
+							this.unloadArtifact(this._artifacts.get(key));
+							delete this.meta[key];
+						}
+					}
+
+					if (parts.length === 0) {
+						delete this.schema.notes[section];
+					} else if (this.hasNotebook({section: section, notebook: parts.join('/')})) {
+						this.deleteNotebook(Artifact.factory('fields', {section: section, notebook: parts.join('/')}));
+					}
+
+					issue.repaired = true;
+				}
+
+				// Each change to the files is made on its own.  The issue is
+				// marked (and logged) only when its change succeeds, and a
+				// change that fails leaves the issue for the next repair.
+				// Names are given to the log as arguments as they can hold
+				// format characters.
+				for (const issue of report.invalidNames) {
+					const dst: string = join(path.dirname(issue.path), this.sanitizeName(path.basename(issue.path)));
+
+					try {
+						if (!fs.existsSync(join(this.config.dbdir, dst))) {
+							fs.moveSync(join(this.config.dbdir, issue.path), join(this.config.dbdir, dst));
+							issue.repaired = true;
+							this.log.info('Renamed %s to %s', issue.path, dst);
+						}
+					} catch (err) {
+						this.log.error('Failed to rename %s: %s', issue.path, err.message);
+					}
+				}
+
+				for (const issue of report.strayTrash) {
+					try {
+						fs.removeSync(join(this.config.dbdir, issue.path));
+						issue.repaired = true;
+					} catch (err) {
+						this.log.error('Failed to remove %s: %s', issue.path, err.message);
+					}
+				}
+
+				// A file in a section directory is moved to the default
+				// notebook of the section so it can be loaded.
+				for (const issue of report.untracked) {
+					const [section, ...parts] = issue.path.split('/');
+					const dst: string = join(section, 'Default', parts[0] || '');
+
+					try {
+						if (fs.statSync(join(this.config.dbdir, issue.path)).isFile() && parts.length === 1 &&
+							!fs.existsSync(join(this.config.dbdir, dst))) {
+							fs.moveSync(join(this.config.dbdir, issue.path), join(this.config.dbdir, dst));
+							moved.set(issue.path, dst);
+							this.log.info('Moved %s to %s', issue.path, dst);
+						}
+					} catch (err) {
+						this.log.error('Failed to move %s: %s', issue.path, err.message);
+					}
+				}
+			} catch (err) {
+				reject(err.message);
+				return;
+			}
+
+			// Reloading the binder picks up the untracked and renamed items.
+			this.reload()
+				.then(() => {
+					for (const issue of report.untracked) {
+						const [section, ...parts] = issue.path.split('/');
+
+						if (moved.has(issue.path)) {
+							issue.repaired = this._artifacts.has(moved.get(issue.path));
+						} else if (fs.statSync(join(this.config.dbdir, issue.path)).isFile()) {
+							issue.repaired = this._artifacts.has(issue.path);
+						} else {
+							issue.repaired = (parts.length === 0)
+								? this.hasSection({section: section})
+								: this.hasNotebook({section: section, notebook: parts.join('/')});
+						}
+					}
+
+					return this.save();
+				})
+				.then(() => {
+					this.log.info(`Repaired ${integrityIssues(report).filter((it: IntegrityIssue) => it.repaired).length} issue(s) in ${this.binderName}`);
+					resolve(report);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Takes an item from the trash and puts it back into the schema.  If the
+	 * item is already in the schema, then it appends a timestamp to the name
+	 * of the item that is being restored.
+	 *
+	 * The thenable resolves to the artifact that was retored.
+	 *
+	 * @param opts {ArtifactSearch} The section/notebook/filename to restore.
+	 * A section is required and each name must pass the name check, so an
+	 * item outside of the trash can't be moved into the binder.
+	 * @returns {Promise} a javascript promise object.
+	 */
+	@autobind
+	public restore(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			if (opts == null || opts.section == null || !this.isValidName(opts.section) ||
+				(opts.notebook != null && !this.isValidNotebook(opts.notebook)) ||
+				(opts.filename != null && (opts.notebook == null || !this.isValidName(opts.filename)))) {
+				reject(`Invalid item to restore.  Can only use '${validNameChars}'.`);
+				return;
+			}
+
+			const dstArtifact: Artifact = Artifact.factory('fields', opts);
+			dstArtifact.root = this.config.dbdir;
+			const srcArtifact: Artifact = dstArtifact.clone();
+			srcArtifact.root = join(this.config.dbdir, 'Trash');
+
+			// Compute the garbage can file/directory location
+			if (!fs.existsSync(srcArtifact.absolute())) {
+				reject(`This artifact doesn't exist in Trash and can't be restored: ${srcArtifact.info()}`);
+				return;
+			}
+
+			// Compute the restore location.  When the name is made unique
+			// the meta data (e.g. tags) is copied to the new name.
+			if (fs.existsSync(dstArtifact.absolute())) {
+				dstArtifact.makeUnique();
+				this.copyMetadata(srcArtifact.path(), dstArtifact.path());
+			}
+
+			fs.move(srcArtifact.absolute(), dstArtifact.absolute(), (err: Error) => {
+				if (err) {
+					reject(err.message);
+					return;
+				}
+
+				fs.removeSync(srcArtifact.absolute());
+				this._trashLog.remove(srcArtifact.path());
+
+				// This is an expensive reload process.  When it s single item it's
+				// expensive to do this, but if it's a directory with a lot of files
+				// restored, then it would be worth the overhead.
+				this.reload()
+					.then(() => {
+						this.emit(Events.artifactRestored, dstArtifact);
+						resolve(dstArtifact);
+					})
+					.catch((errmsg: string) => {
+						reject(errmsg);
+					});
+			});
+		});
+	}
+
+	/**
+	 * Replaces the current buffer of an artifact with the contents of a
+	 * prior revision and saves it.  The contents that are replaced become a
+	 * new revision, so a restore can itself be undone.
+	 *
+	 * The thenable resolves to the restored artifact.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @param id {string} the id of the revision to restore
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public restoreRevision(opts: ArtifactSearch, id: string) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					const content = this._revisions.get(artifact.path(), id);
+
+					// The unsaved buffer is kept before it is replaced
+					if (artifact.isDirty()) {
+						this._revisions.add(artifact.path(), artifact.buf);
+					}
+
+					artifact.buf = content;
+					return this.saveArtifact(artifact);
+				})
+				.then((artifact: Artifact) => {
+					this.log.info(`Restored revision ${id} of ${artifact.path()}`);
+					resolve(artifact);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Retrieves the list of prior revisions for an artifact.  A revision is
+	 * kept each time the artifact is saved with new contents.  The number of
+	 * revisions kept is determined by the `maxRevisions` and `revisionAge`
+	 * options.
+	 *
+	 * The thenable resolves to an array of `RevisionInfo` objects, newest
+	 * first.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename of the
+	 * artifact.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public revisions(opts: ArtifactSearch) {
+		return new Promise((resolve: PromiseFn<RevisionInfo[]>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((artifact: Artifact) => {
+					resolve(this._revisions.list(artifact.path()));
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * User requested save function.  If given an artifact, then a single
+	 * save is performed.  If no artifact is specifid, then the binder
+	 * artifact list is scanned for dirty artifacts that need to be saved.
+	 *
+	 * The thenable resolves to a reference to the Binder instance.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public save() {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			try {
+				this.saveBinder((err: Error) => {
+					if (err) {
+						reject(err.message);
+					}
+
+					this.emit(Events.binderSaved, this);
+					resolve(this);
+				});
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	/**
+	 * Performs a save of a single artifact.
+	 * @param artifact {Artifact} the artifact value to save
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public saveArtifact(artifact: Artifact) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			if (artifact.isDirty() && this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+			} else if (artifact.isDirty() && this.isNotebookLocked(artifact)) {
+				reject(`Notebook '${artifact.section}/${artifact.notebook}' is locked`);
+			} else if (artifact.isDirty()) {
+
+				// The artifact is written to a temporary file that is renamed
+				// into place, so a crash during the save can't leave the file
+				// empty or partially written.  This is a sync write to keep
+				// two saves of the same artifact from overlapping.
+
+				try {
+					this.addRevision(artifact);
+					this.writeFile(artifact.absolute(), encode(artifact.buf, this.cipherFor(artifact.path())), artifact.path());
+				} catch (err) {
+					reject(`Error writing artifact: ${err.message}`);
+					return;
+				}
+
+				artifact.makeClean();
+				this.indexArtifact(artifact, artifact.buf);
+				this.emit(Events.artifactSaved, artifact);
+				resolve(artifact);
+			} else {
+				resolve(artifact);
+			}
+		});
+	}
+
+	/**
+	 * Enumerates the list of sections from the schema.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Array} a list of section names as strings
+	 */
+	@autobind
+	public sections(area: string = NS.notes): string[] {
+		const sections: string[] = [];
+
+		if (!this.initialized) {
+			throw new Error('Trying to retrieve sections from an ' +
+				'unitialized database.');
+		}
+
+		_.forOwn(this.schema[area], (value: any, key: string) => {
+			value.toString();
+			sections.push(key);
+		});
+
+		return (sections);
+	}
+
+	/**
+	 * Called when the database is no longer needed.  This will cleanup
+	 * operations and shutdown the intervals.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public shutdown() {
+		return new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			try {
+				this.saveBinder((err: Error) => {
+					if (err) {
+						reject(err.message);
+					}
+
+					if (this._fnSaveInterval != null) {
+						clearInterval(this._fnSaveInterval);
+						this._fnSaveInterval = null;
+					}
+
+					if (this._watcher != null) {
+						this._watcher.close();
+						this._watcher = null;
+					}
+
+					this.initialized = false;
+					resolve('The database is shutdown.');
+				});
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	/**
+	 * Synchronizes the binder with another directory (e.g. a folder that is
+	 * shared between machines by a file sync service).  The directory uses
+	 * the same {section}/{notebook}/{filename} layout as the binder and is
+	 * created if it doesn't exist.  The content hash of each artifact on
+	 * both sides is compared with the hash from the last sync with the
+	 * directory to decide which side changed it:
+	 *
+	 * - new and changed artifacts are copied both ways.
+	 * - an artifact that was moved to the trash (`Trash/`) or removed on one
+	 * side is trashed or removed on the other side.
+	 * - when both sides changed an artifact the binder version is kept and
+	 * the other version is written on both sides as a conflict copy with a
+	 * timestamp added to its name (see `Artifact.makeUnique()`).
+	 *
+	 * Encrypted binders can't be synced and encrypted notebooks are
+	 * skipped.  An artifact that can't be synced is skipped and the sync
+	 * continues with the next one.
+	 *
+	 * The thenable resolves to a `SyncReport` with the changes made to the
+	 * binder (`local`) and the directory (`remote`), the `conflicts` and
+	 * the `skipped` items.
+	 *
+	 * @param directory {string} the directory to sync with
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public sync(directory: string) {
+		return new Promise((resolve: PromiseFn<SyncReport>, reject: PromiseFn<string>) => {
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
+
+			if (this.encrypted) {
+				reject(`Binder '${this.binderName}' is encrypted and can't be synced`);
+				return;
+			}
+
+			directory = normalize(path.resolve(directory));
+			const dbdir: string = normalize(path.resolve(this.config.dbdir));
+
+			if (directory === dbdir || directory.startsWith(`${dbdir}/`) || dbdir.startsWith(`${directory}/`)) {
+				reject(`Binder '${this.binderName}' can't be synced with '${directory}'`);
+				return;
+			}
+
+			const report: SyncReport = syncReport(directory);
+			const state: SyncState = new SyncState(join(this.config.configRoot, 'sync.json'));
+
+			this.save()
+				.then(() => {
+					fs.mkdirsSync(directory);
+
+					const actions: SyncAction[] = planSync(
+						this.syncHashes(this.config.dbdir, report),
+						this.syncHashes(directory, report),
+						state.get(directory),
+						new Set(Object.keys(hashDirectory(this.config.trash))),
+						new Set(Object.keys(hashDirectory(join(directory, 'Trash')))));
+
+					return actions.reduce((chain: Promise<any>, action: SyncAction) => {
+						return chain
+							.then(() => {
+								return this.syncArtifact(directory, action, report);
+							})
+							.catch((err: any) => {
+								report.skipped.push({path: action.path, reason: (err instanceof Error) ? err.message : err});
+							});
+					}, Promise.resolve());
+				})
+				.then(() => {
+					state.set(directory, sharedHashes(this.syncHashes(this.config.dbdir), this.syncHashes(directory)));
+
+					this.log.info(`Synced with ${directory} (${report.conflicts.length} conflicts, ${report.skipped.length} skipped)`);
+					this.emit(Events.binderSynced, this, report);
+					resolve(report);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
+	/**
+	 * Enumerates all of the tags used by artifacts in the binder.  Parent
+	 * tags are included, and the count for a parent includes the artifacts
+	 * that use any of its children.
+	 * @returns {TagInfo[]} a list of tag names and the number of artifacts
+	 * that use each, sorted by name.
+	 */
+	@autobind
+	public tags(): TagInfo[] {
+		return this._tags.list();
+	}
+
+	/**
+	 * Enumerates the templates that can be used with `addFromTemplate()`.
+	 * These are the artifacts in the `Templates` section.
+	 * @returns {string[]} the filename of each template, sorted by name.
+	 */
+	@autobind
+	public templates(): string[] {
+		return this.templateArtifacts()
+			.map((artifact: Artifact) => artifact.filename)
+			.sort();
+	}
+
+	/**
+	 * Finds or creates the daily journal entry for today.  The entry is
+	 * named by its date (`YYYY-MM-DD.md`) and is placed in a notebook for
+	 * its year (`YYYY`) or month (`YYYY-MM`) in the journal section.
+	 *
+	 * The thenable resolves to the artifact of the entry.
+	 *
+	 * @param [opts] {JournalOpts} optional parameters
+	 *
+	 * - `date {Date} default=now`: the date of the entry
+	 * - `groupBy {string} default='month'`: `year` or `month`, the period
+	 * of each notebook.
+	 * - `section {string} default='Journal'`: the journal section
+	 * - `template {string}`: a template used for a new entry (see
+	 * `addFromTemplate()`).  The `{{date}}` placeholder is the date of the
+	 * entry.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public today(opts: JournalOpts = {}) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			opts = Object.assign({}, journalDefaults, opts);
+			const date: Date = opts.date || new Date();
+			let search: ArtifactSearch = null;
+
+			try {
+				search = journalLocation(date, opts);
+			} catch (err) {
+				reject(err.message);
+				return;
+			}
+
+			let entry: Promise<any> = null;
+			if (this.hasArtifact(search)) {
+				entry = this.get(search);
+			} else if (opts.template) {
+				entry = this.addFromTemplate(search, opts.template, {date: dateKey(date)});
+			} else {
+				entry = this.add(search);
+			}
+
+			entry
+				.then((artifact: Artifact) => {
+					resolve(artifact);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Converts the internal structures to a string and returns it.
+	 * @return {string} a string that shows the configuration and schema for
+	 * the database.
+	 */
+	@autobind
+	public toString() {
+		const obj = {
+			config: this.config,
+			schema: this.schema
+		};
+
+		return JSON.stringify(obj, null, '\t');
+	}
+
+	/**
+	 * Moves an artifact from it's current directory to the "Trash" folder.  It
+	 * is not removed until the emptyTrash() method is called.  The artifact
+	 * is removed from the schema dictionary and stored in the trash dictionary.
+	 * The original path, the time and the user (see the `user` option) are
+	 * recorded for the item (see `trashed()`).
+	 *
+	 * The thenable resolves to the artifact that was moved to the trash.
+	 *
+	 * @param opts {ArtifactSearch} the section/notebook/filename to remove
+	 * for within the schema.
+	 * @returns {Promise} a javascript promise object.
+	 */
+	@autobind
+	public trash(opts: ArtifactSearch) {
+		this.createTrash();
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			this.get(opts)
+				.then((srcArtifact: Artifact) => {
+					const dstArtifact: Artifact = srcArtifact.clone();
+					dstArtifact.root = join(this.config.dbdir, 'Trash');
+					if (fs.existsSync(dstArtifact.absolute())) {
+						dstArtifact.makeUnique();
+					}
+
+					fs.move(srcArtifact.absolute(), dstArtifact.absolute(), (err: Error) => {
+						if (err) {
+							reject(err.message);
+						}
+
+						this._trashLog.add(dstArtifact.path(), srcArtifact.path(), this.user);
+						this.deleteArtifact(srcArtifact)
+							.then((adb: Binder) => {
+								return adb.reload('trash');
+							})
+							.then(() => {
+								this.emit(Events.artifactTrashed, dstArtifact, srcArtifact);
+								resolve(dstArtifact);
+							})
+							.catch((errmsg: string) => {
+								reject(errmsg);
+							});
+					});
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Lists the items in the trash.  Each entry holds the location of the
+	 * item within the trash, its original path, the time it was deleted and
+	 * the user that deleted it.  A file that was put in the trash some other
+	 * way (e.g. by another program) is listed with its location as the
+	 * original path, the time it was last modified and no user.
+	 * @param [opts] {TrashOpts} selects the items by section or age (see
+	 * `emptyTrash()`).
+	 * @returns {TrashEntry[]} the entries, most recently deleted first.  The
+	 * list is empty when the binder is locked.
+	 */
+	@autobind
+	public trashed(opts: TrashOpts = {}): TrashEntry[] {
+		const entries: TrashEntry[] = [];
+
+		if (this._locked || !fs.existsSync(this.config.trash)) {
+			return entries;
+		}
+
+		for (const location of this._trashLog.keys()) {
+			if (fs.existsSync(join(this.config.trash, location))) {
+				entries.push(this._trashLog.get(location));
+			} else {
+				this._trashLog.remove(location);
+			}
+		}
+
+		// The directories are walked so the items within them are found, but
+		// only the files are listed.  The ignore list is checked against the
+		// location within the trash, so the directory that holds the binder
+		// can't hide its trash.
+		const ignore: string[] = this.ignore.filter((it: string) => it !== 'Trash');
+		const files = walk(this.config.trash, {
+			filter: (item: any) => {
+				const location: string = normalize(path.relative(this.config.trash, item.path));
+				return ignore.every((it: string) => location.indexOf(it) === -1);
+			},
+			noRecurseOnFailedFilter: true
+		}).filter((item: any) => item.stats.isFile());
+
+		for (const file of files) {
+			const location: string = normalize(path.relative(this.config.trash, file.path));
+
+			if (!entries.some((it: TrashEntry) => location === it.location || location.startsWith(`${it.location}/`))) {
+				entries.push({
+					deleted: file.stats.mtime,
+					deletedBy: '',
+					location: location,
+					original: location
+				});
+			}
+		}
+
+		return entries
+			.filter((it: TrashEntry) => trashSelected(it, opts))
+			.sort((a: TrashEntry, b: TrashEntry) => (b.deleted.getTime() - a.deleted.getTime()) || a.location.localeCompare(b.location));
+	}
+
+	/**
+	 * Unlocks an encrypted binder that was opened without a passphrase or
+	 * locked with `lock()`.  The meta data, the search index and the links
+	 * are read again with the key derived from the passphrase.
+	 *
+	 * The thenable resolves to a reference to the binder.
+	 *
+	 * @param passphrase {string} the passphrase of the binder
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public unlock(passphrase: string) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			if (!this.encrypted) {
+				reject(`Binder '${this.binderName}' is not encrypted`);
+				return;
+			}
+
+			if (!this._locked) {
+				resolve(this);
+				return;
+			}
+
+			try {
+				const cipher = Cipher.open(this._config.encryption, passphrase);
+
+				this._meta = (fs.existsSync(this.config.metaFile))
+					? JSON.parse(readSecureFile(this.config.metaFile, cipher))
+					: {};
+				this._cipher = cipher;
+				this._locked = false;
+				this._index = new SearchIndex(this.config.indexFile, cipher);
+				this._links = new LinkGraph(this.config.linkFile, cipher);
+				this._trashLog = new TrashLog(this.config.trashFile, cipher);
+
+				for (const artifact of this.everyArtifact()) {
+					this.loadMetadata(artifact);
+					if (this._artifacts.has(artifact.path())) {
+						this._tags.set(artifact.path(), artifact.tags);
+					}
+				}
+
+				this.loadIndex();
+
+				this.log.info(`Unlocked binder '${this.binderName}'`);
+				this.emit(Events.binderUnlocked, this);
+				resolve(this);
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	/**
+	 * Unlocks a notebook that was locked with `lockNotebook()`.  The
+	 * contents of its artifacts are added to the search index and the links
+	 * again.
+	 *
+	 * The thenable resolves to a reference to the binder.
+	 *
+	 * @param opts {ArtifactSearch} the section and notebook to unlock
+	 * @param passphrase {string} the passphrase of the notebook
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public unlockNotebook(opts: ArtifactSearch, passphrase: string) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			const key: string = this.notebookKey(`${opts.section}/${opts.notebook}`);
+
+			if (!this.notebookEncrypted(key)) {
+				reject(`Notebook '${key}' is not encrypted`);
+				return;
+			}
+
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
+
+			if (!this.isNotebookLocked(opts)) {
+				resolve(this);
+				return;
+			}
+
+			try {
+				this._notebookCiphers.set(key, Cipher.open(this._config.notebookEncryption[key], passphrase));
+
+				for (const artifact of this.notebookArtifacts(key)) {
+					this.indexArtifact(artifact);
+				}
+
+				this.log.info(`Unlocked notebook '${key}'`);
+				this.emit(Events.notebookUnlocked, Artifact.factory('fields', {
+					section: opts.section,
+					notebook: opts.notebook,
+					root: this.config.dbdir
+				}));
+				resolve(this);
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	//
+	// Properties
+	//
+
+	get artifacts(): Map<string, Artifact> {
+		return this._artifacts;
+	}
 
 	get binderName(): string {
 		return this._config.binderName;
 	}
 
-	get config() {
-		return this._config;
+	get config() {
+		return this._config;
+	}
+
+	get configFile() {
+		return this._config.configFile;
+	}
+
+	get encryptedNotebooks(): string[] {
+		return Object.keys(this._config.notebookEncryption);
+	}
+
+	get encrypted(): boolean {
+		return this._config.encryption != null;
+	}
+
+	get ignore() {
+		return this._ignore;
+	}
+
+	set ignore(val: string[]) {
+		this._ignore = val;
+	}
+
+	get initialized() {
+		return this._initialized;
+	}
+
+	set initialized(val: boolean) {
+		this._initialized = val;
+	}
+
+	get locked(): boolean {
+		return this._locked;
+	}
+
+	get log(): any {
+		return this._log;
+	}
+
+	get meta(): NotesMeta {
+		return this._meta;
+	}
+
+	get nested(): boolean {
+		return this.config.nested === true;
+	}
+
+	get recents() {
+		return this._recents;
+	}
+
+	get recovered(): JournalRecovery[] {
+		return this._recovered;
+	}
+
+	get reID() {
+		return this._reID;
+	}
+
+	get schema() {
+		return this._schema;
+	}
+
+	get timedSave() {
+		return this._timedSave;
+	}
+
+	get user(): string {
+		return this._user;
+	}
+
+	get versioned(): boolean {
+		return this._git != null;
+	}
+
+	get watching(): boolean {
+		return this._watcher != null && this._watcher.watching;
+	}
+
+	/**
+	 * Creates a new artifact (file) within the schema.  This call is a
+	 * synchronous write of the file.
+	 * @param artifact {Artifact} a structure that holds the details for the file
+	 * that will be created.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @private
+	 */
+	@autobind
+	private addArtifact(artifact: Artifact, area: string = NS.notes) {
+		if (artifact.hasSection() &&
+			artifact.hasNotebook() &&
+			artifact.hasFilename() &&
+			!this.hasArtifact(artifact, area)) {
+			if (this.isValidName(artifact.filename)) {
+				this.loadMetadata(artifact);
+				this.schema[area][artifact.section][artifact.notebook][artifact.filename] = artifact;
+
+				if (area !== NS.trash) {
+					this._artifacts.set(artifact.path(), artifact);
+					this._tags.set(artifact.path(), artifact.tags);
+				}
+			} else {
+				throw new Error(`Invalid filename name '${artifact.filename}'.  Can only use '${validNameChars}'.`);
+			}
+		}
+
+		return this;
+	}
+
+	/**
+	 * Runs each of the integrity checks of the binder.
+	 * @returns {IntegrityReport} the problems that were found
+	 * @private
+	 */
+	@autobind
+	private checkBinder(): IntegrityReport {
+		const report: IntegrityReport = integrityReport();
+
+		this.checkSchema(report);
+		this.checkDisk(report);
+		this.checkMeta(report);
+		this.checkTrash(report);
+
+		this.log.info(`Integrity check of ${this.binderName} found ${integrityIssues(report).length} issue(s)`);
+		return report;
+	}
+
+	/**
+	 * Finds the files and directories of the binder that have an invalid
+	 * name or aren't in the schema.  The trash and the names in the ignore
+	 * list are skipped.
+	 * @param report {IntegrityReport} the report that receives the issues
+	 * @private
+	 */
+	@autobind
+	private checkDisk(report: IntegrityReport) {
+		const ignore: string[] = _.union(this.ignore, ['Trash']);
+		const items = walk(this.config.dbdir, {
+			filter: (item: any) => {
+				const relpath: string = normalize(path.relative(this.config.dbdir, item.path));
+				return ignore.every((it: string) => relpath.indexOf(it) === -1);
+			},
+			noRecurseOnFailedFilter: true
+		});
+
+		for (const item of items) {
+			const relpath: string = normalize(path.relative(this.config.dbdir, item.path));
+			const [section, ...parts] = relpath.split('/');
+			const directory: boolean = item.stats.isDirectory();
+
+			if (!relpath.split('/').every(this.isValidName)) {
+				reportIssue(report.invalidNames, relpath, `Invalid name '${path.basename(relpath)}'`);
+			} else if (!this.config.nested && (parts.length > 2 || (parts.length === 2 && directory))) {
+				reportIssue(report.untracked, relpath, `The binder doesn't use nested notebooks`);
+			} else if (directory) {
+				const tracked: boolean = (parts.length === 0)
+					? this.hasSection({section: section})
+					: this.hasNotebook({section: section, notebook: parts.join('/')});
+
+				if (!tracked) {
+					reportIssue(report.untracked, relpath, 'Directory is not in the binder');
+				}
+			} else if (parts.length < 2) {
+				reportIssue(report.untracked, relpath, 'File is not in a notebook');
+			} else if (!this._artifacts.has(relpath)) {
+				reportIssue(report.untracked, relpath, 'File is not in the binder');
+			}
+		}
+	}
+
+	/**
+	 * Finds the meta data entries that have no artifact in the binder or in
+	 * the trash.
+	 * @param report {IntegrityReport} the report that receives the issues
+	 * @private
+	 */
+	@autobind
+	private checkMeta(report: IntegrityReport) {
+		for (const key of Object.keys(this.meta)) {
+			if (!this._artifacts.has(key) &&
+				!fs.existsSync(join(this.config.dbdir, key)) &&
+				!fs.existsSync(join(this.config.trash, key))) {
+				reportIssue(report.orphanedMeta, key, 'No artifact for the meta data');
+			}
+		}
+	}
+
+	/**
+	 * Finds the sections, notebooks and artifacts of the schema whose files
+	 * are missing, and the artifacts whose files can't be read.
+	 * @param report {IntegrityReport} the report that receives the issues
+	 * @private
+	 */
+	@autobind
+	private checkSchema(report: IntegrityReport) {
+		for (const section of Object.keys(this.schema.notes)) {
+			if (!fs.existsSync(join(this.config.dbdir, section))) {
+				reportIssue(report.missing, section, `Directory of the section doesn't exist`);
+			}
+
+			for (const notebook of Object.keys(this.schema.notes[section])) {
+				if (!fs.existsSync(join(this.config.dbdir, section, notebook))) {
+					reportIssue(report.missing, `${section}/${notebook}`, `Directory of the notebook doesn't exist`);
+				}
+			}
+		}
+
+		for (const artifact of Array.from(this.artifacts.values())) {
+			if (!fs.existsSync(artifact.absolute())) {
+				reportIssue(report.missing, artifact.path(), `File of the artifact doesn't exist`);
+			} else if (!this.isNotebookLocked(artifact)) {
+				try {
+					decode(fs.readFileSync(artifact.absolute()), this.cipherFor(artifact.path()));
+				} catch (err) {
+					reportIssue(report.unreadable, artifact.path(), err.message);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Finds the items in the trash that can't be restored to a notebook.
+	 * These are files outside of a notebook, items with invalid names and
+	 * nested items when the binder doesn't use nested notebooks.
+	 * @param report {IntegrityReport} the report that receives the issues
+	 * @private
+	 */
+	@autobind
+	private checkTrash(report: IntegrityReport) {
+		if (!fs.existsSync(this.config.trash)) {
+			return;
+		}
+
+		const ignore: string[] = this.ignore.filter((it: string) => it !== 'Trash');
+		const items = walk(this.config.trash, {
+			filter: (item: any) => {
+				const relpath: string = normalize(path.relative(this.config.trash, item.path));
+				return ignore.every((it: string) => relpath.indexOf(it) === -1);
+			},
+			noRecurseOnFailedFilter: true
+		});
+
+		for (const item of items) {
+			const relpath: string = normalize(path.relative(this.config.trash, item.path));
+			const parts: string[] = relpath.split('/');
+			const directory: boolean = item.stats.isDirectory();
+
+			if (!directory && parts.length < 3) {
+				reportIssue(report.strayTrash, `Trash/${relpath}`, 'File is not in a notebook');
+			} else if (!this.config.nested && (parts.length > 3 || (parts.length === 3 && directory))) {
+				reportIssue(report.strayTrash, `Trash/${relpath}`, `The binder doesn't use nested notebooks`);
+			} else if (!parts.every(this.isValidName)) {
+				reportIssue(report.strayTrash, `Trash/${relpath}`, `Invalid name '${path.basename(relpath)}'`);
+			}
+		}
+	}
+
+	/**
+	 * Keeps the current contents of an artifact file as a revision before it
+	 * is overwritten by a save.  Empty files and files that are unchanged
+	 * are not kept.
+	 * @param artifact {Artifact} the artifact that is about to be saved
+	 * @private
+	 */
+	@autobind
+	private addRevision(artifact: Artifact) {
+		const absolute = artifact.absolute();
+
+		if (artifact.type === ArtifactType.SNA && fs.existsSync(absolute)) {
+			const previous = this.readArtifact(artifact);
+			if (previous !== '' && previous !== artifact.buf) {
+				this._revisions.add(artifact.path(), previous);
+			}
+		}
+	}
+
+	/**
+	 * Retrieves the cipher used for the files of an artifact.  The artifacts
+	 * of an encrypted notebook use the key of the notebook, and all others
+	 * use the key of the binder.
+	 * @param key {string} the path of the artifact (or a revision key)
+	 * @returns {Cipher} the cipher for the artifact.  It is null when the
+	 * files are not encrypted or the notebook is locked.
+	 * @private
+	 */
+	@autobind
+	private cipherFor(key: string): Cipher {
+		const notebook: string = this.notebookKey(key);
+
+		if (this.notebookEncrypted(notebook)) {
+			return this._notebookCiphers.get(notebook) || null;
+		}
+
+		return this._cipher;
+	}
+
+	/**
+	 * Copies a single artifact, or creates an empty notebook or section,
+	 * for `copy()`.  The contents of the attachments of an artifact are
+	 * added to the binder that receives the copy.
+	 * @param item {CopyItem} the source and destination locations
+	 * @param binder {Binder} the binder that receives the copy
+	 * @returns {Promise} a javascript promise object
+	 * @private
+	 */
+	@autobind
+	private copyItem(item: CopyItem, binder: Binder): Promise<any> {
+		let source: Artifact = null;
+		let copied: Artifact = null;
+
+		if (Artifact.isType(item.from) !== ArtifactType.SNA) {
+			return binder.add(item.to);
+		}
+
+		return this.get(item.from)
+			.then((artifact: Artifact) => {
+				source = artifact;
+				return binder.addCopy(item.to, source);
+			})
+			.then((artifact: Artifact) => {
+				copied = artifact;
+
+				return source.attachments.reduce((chain: Promise<any>, info: AttachmentInfo) => {
+					return chain
+						.then(() => this.getAttachment(item.from, info.name))
+						.then((data: Buffer) => binder.addAttachment(item.to, info.name, data));
+				}, Promise.resolve());
+			})
+			.then(() => {
+				// The attachments keep the dates they were first added
+				copied.attachments = source.attachments.map((info: AttachmentInfo) => Object.assign({}, info));
+				copied.copiedFrom = {
+					binder: this.binderName,
+					path: source.path(),
+					date: new Date()
+				};
+
+				return copied;
+			});
+	}
+
+	/**
+	 * Builds the list of artifacts, notebooks and sections that are copied
+	 * by `copy()`.  The notebooks are listed before their artifacts, and
+	 * nested notebooks after their parents.
+	 * @param search {ArtifactSearch} the section/notebook/filename to copy
+	 * @param target {Artifact} the location of the copy
+	 * @returns {CopyItem[]} the source and destination of each item
+	 * @private
+	 */
+	@autobind
+	private copyItems(search: ArtifactSearch, target: Artifact): CopyItem[] {
+		const items: CopyItem[] = [];
+
+		if (target.type === ArtifactType.SNA) {
+			return [{from: search, to: target}];
+		}
+
+		if (target.type === ArtifactType.S) {
+			items.push({from: {section: search.section}, to: {section: target.section}});
+		}
+
+		const notebooks = this.schema.notes[search.section];
+		for (const notebook of Object.keys(notebooks).sort()) {
+			let name: string = notebook;
+
+			if (target.type === ArtifactType.SN) {
+				if (notebook !== search.notebook && !notebook.startsWith(`${search.notebook}/`)) {
+					continue;
+				}
+
+				name = `${target.notebook}${notebook.slice(search.notebook.length)}`;
+			}
+
+			items.push({
+				from: {section: search.section, notebook: notebook},
+				to: {section: target.section, notebook: name}
+			});
+
+			for (const filename of Object.keys(notebooks[notebook]).sort()) {
+				items.push({
+					from: {section: search.section, notebook: notebook, filename: filename},
+					to: {section: target.section, notebook: name, filename: filename}
+				});
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * Copies the meta data for an artifact (or all of the artifacts under a
+	 * section or notebook) to a new path.
+	 * @param src {string} the path of the artifact, notebook or section
+	 * @param dst {string} the new path for the meta data
+	 * @private
+	 */
+	@autobind
+	private copyMetadata(src: string, dst: string) {
+		for (const key of Object.keys(this.meta)) {
+			if (key === src) {
+				this.meta[dst] = _.cloneDeep(this.meta[key]);
+			} else if (key.startsWith(`${src}/`)) {
+				this.meta[`${dst}${key.slice(src.length)}`] = _.cloneDeep(this.meta[key]);
+			}
+		}
+	}
+
+	/**
+	 * Computes the destination of `copy()` in this binder.  If the artifact,
+	 * notebook or section already exists, then a timestamp is added to its
+	 * name.
+	 * @param search {ArtifactSearch} the requested destination
+	 * @returns {Artifact} the location of the copy
+	 * @private
+	 */
+	@autobind
+	private copyTarget(search: ArtifactSearch): Artifact {
+		const target: Artifact = Artifact.factory('fields', search);
+		let exists: boolean = false;
+
+		switch (target.type) {
+			case ArtifactType.SNA:
+				exists = this.hasArtifact(target);
+				break;
+
+			case ArtifactType.SN:
+				exists = this.hasNotebook(target);
+				break;
+
+			default:
+				exists = this.hasSection(target);
+				break;
+		}
+
+		return exists ? target.makeUnique() : target;
+	}
+
+	/**
+	 * Creates a new artifact (file) within the schema.  This call is an async
+	 * write of the file.  It expects to be called from a promise with the
+	 * proper resolve/reject callbacks.
+	 * @param artifact {Artifact} a structure that holds the details for the file
+	 * that will be created.
+	 * @param resolve {Function} a promise resolve function that can be called
+	 * if this function is successful.
+	 * @param reject {Function} a promise reject function that can be called
+	 * if this function fails.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @private
+	 */
+	@autobind
+	private createArtifact(artifact: Artifact, resolve: PromiseFn<Artifact>, reject: PromiseFn<string>, area: string = NS.notes) {
+		if (artifact.hasSection() &&
+			artifact.hasNotebook() &&
+			artifact.hasFilename() &&
+			!this.hasArtifact(artifact)) {
+			if (this.isValidName(artifact.filename)) {
+				let dst = join(this.config.dbdir, artifact.path());
+				if (area === NS.trash) {
+					dst = join(this.config.dbdir, 'Trash', artifact.path());
+				}
+
+				if (!fs.existsSync(dst)) {
+					// Note that if you try to use an async write here for the file
+					// it will lead to intermediate failures in loading the stats
+					// with a "file not found" error.  It seems that even though
+					// the writeFile callback is executed, and the file "should" be
+					// created, one cannot reliably use the fs.stat within that callback
+					// to get the file details.
+					writeAtomicSync(dst, encode(artifact.buffer, this.cipherFor(artifact.path())));
+				}
+
+				fs.stat(dst, (err, stats) => {
+					if (err) {
+						reject(err.message);
+					}
+
+					artifact.loaded = true;
+					this.loadMetadata(artifact, stats);
+					this.schema[area][artifact.section][artifact.notebook][artifact.filename] = artifact;
+
+					if (area !== NS.trash) {
+						this._artifacts.set(artifact.path(), artifact);
+						this._tags.set(artifact.path(), artifact.tags);
+						this.indexArtifact(artifact);
+					}
+
+					this.log.info(`Added artifact: ${artifact.filename}`);
+					resolve(artifact);
+				});
+			} else {
+				reject(`Invalid filename name '${artifact.filename}'.  Can only use '${validNameChars}'.`);
+			}
+		} else {
+			resolve(artifact);
+		}
+	}
+
+	/**
+	 * Takes the name of the initial configuration file and builds the initial
+	 * structure for that configuration.
+	 * @param opts {BinderOpts} parameters used to instantiate this object.
+	 * @returns {ConfigDB} a newly populated configuration object
+	 * @private
+	 */
+	private createInitialConfig(opts: BinderOpts): ConfigDB {
+		const configFile: string = join(opts.configRoot || './', 'config.json');
+		const metaFile: string = join(opts.configRoot || './', 'meta.json');
+
+		return {
+			binderName: opts.binderName || 'adb',
+			configFile: configFile,
+			configRoot: opts.configRoot,
+			dbdir: join(opts.root || './', opts.binderName || 'adb'),
+			trash: join(opts.root || './', opts.binderName || 'adb', 'Trash'),
+			metaFile: metaFile,
+			indexFile: join(opts.configRoot || './', 'index.json'),
+			linkFile: join(opts.configRoot || './', 'links.json'),
+			revisionDir: join(opts.configRoot || './', 'revisions'),
+			attachmentDir: join(opts.configRoot || './', 'attachments'),
+			trashFile: join(opts.configRoot || './', 'trash.json'),
+			logdir: join(path.dirname(configFile || './')),
+			root: opts.root || '',
+			saveInterval: opts.saveInterval,
+			bufSize: opts.bufSize,
+			maxRecents: opts.maxRecents,
+			maxRevisions: opts.maxRevisions,
+			revisionAge: opts.revisionAge,
+			trashAge: opts.trashAge || 0,
+			nested: opts.nested === true
+		};
+	}
+
+	/**
+	 * Creates a new notebook within a section.
+	 * @param artifact {Artifact} the name of the notebook to create
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Binder} a reference to the changed DB instance
+	 * @private
+	 */
+	@autobind
+	private createNotebook(artifact: Artifact, area: string = NS.notes) {
+		if (artifact.hasSection() && artifact.hasNotebook() &&
+			this.hasSection(artifact, area) &&
+			!this.hasNotebook(artifact, area)) {
+			if (this.isValidNotebook(artifact.notebook)) {
+				// The parents of a nested notebook are created first
+				if (artifact.notebook.includes('/')) {
+					this.createNotebook(Artifact.factory('fields', {
+						section: artifact.section,
+						notebook: path.dirname(artifact.notebook)
+					}), area);
+				}
+
+				let dst = join(this.config.dbdir, artifact.section, artifact.notebook);
+				if (area === NS.trash) {
+					dst = join(this.config.dbdir, 'Trash', artifact.section, artifact.notebook);
+				}
+
+				if (!fs.existsSync(dst)) {
+					this.log.info(`Creating notebook: ${artifact.notebook} in section ${artifact.section}`);
+					fs.mkdirsSync(dst);
+				}
+
+				if (!this.hasNotebook(artifact, area) && fs.existsSync(dst) && fs.lstatSync(dst).isDirectory()) {
+					this.schema[area][artifact.section][artifact.notebook] = {};
+				}
+
+				return (this);
+			} else { // eslint-disable-line no-else-return
+				throw new Error(`Invalid notebook name '${artifact.notebook}'.  Can only use '${validNameChars}'.`);
+			}
+		}
+
+		return this;
+	}
+
+	/**
+	 * Creates a new section (directory) within the database.  If the section
+	 * already exists, then the call is ignored.
+	 * @param artifact {Artifact} the name of the section to create.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Binder} a reference to the changed DB instance
+	 * @private
+	 */
+	@autobind
+	private createSection(artifact: Artifact, area: string = NS.notes) {
+		if (!this.hasSection(artifact, area)) {
+			if (this.isValidName(artifact.section)) {
+				let dst = join(this.config.dbdir, artifact.section);
+				if (area === NS.trash) {
+					dst = join(this.config.dbdir, 'Trash', artifact.section);
+				}
+
+				if (!fs.existsSync(dst)) {
+					this.log.info(`Creating section: ${artifact.section}`);
+					fs.mkdirsSync(dst);
+				}
+
+				if (!this.hasSection(artifact, area) &&
+					fs.existsSync(dst) &&
+					fs.lstatSync(dst).isDirectory()) {
+					this.schema[area][artifact.section] = {};
+				}
+
+				return this;
+			} else { // eslint-disable-line no-else-return
+				throw new Error(`Invalid section name '${artifact.section}'.  Can only use '${validNameChars}'.`);
+			}
+		}
+
+		return this;
+	}
+
+	/**
+	 * Creates the trash directory within the binder.
+	 * @private
+	 */
+	@autobind
+	private createTrash() {
+		const trashDir = join(this.config.dbdir, 'Trash');
+
+		if (!fs.existsSync(trashDir)) {
+			fs.mkdirs(trashDir);
+		}
+	}
+
+	/**
+	 * Removes a section, notebook or artifact from the schema, the binder's
+	 * indexes and the file system without emitting any events.  This is the
+	 * work behind `remove()`, and it is also used by `rename()` and
+	 * `trash()`.
+	 * @param artifact {Artifact} the section/notebook/artifact to remove
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Promise} a javascript promise object
+	 * @private
+	 */
+	@autobind
+	private deleteArtifact(artifact: Artifact, area: string = NS.notes) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			switch (artifact.type) {
+				case ArtifactType.SNA:
+					this._artifacts.delete(artifact.path());
+					this._index.remove(artifact.path());
+					this._links.remove(artifact.path());
+					this._tags.remove(artifact.path());
+					this.recents.eject(artifact);
+					delete this.schema[area][artifact.section][artifact.notebook][artifact.filename];
+					break;
+
+				case ArtifactType.SN:
+					this._index.removePrefix(`${artifact.path()}/`);
+					this._links.removePrefix(`${artifact.path()}/`);
+					this._tags.removePrefix(`${artifact.path()}/`);
+					this.deleteNotebook(artifact, area);
+					break;
+
+				case ArtifactType.S:
+					this._index.removePrefix(`${artifact.path()}/`);
+					this._links.removePrefix(`${artifact.path()}/`);
+					this._tags.removePrefix(`${artifact.path()}/`);
+					delete this.schema[area][artifact.section];
+					break;
+
+				default:
+					reject('Invalid artifact type given in remove');
+					break;
+			}
+
+			fs.remove(artifact.absolute(), err => {
+				if (err) {
+					reject(err.message);
+				}
+
+				resolve(this);
+			});
+		});
+	}
+
+	/**
+	 * Removes a notebook and the notebooks nested within it from the
+	 * schema.
+	 * @param artifact {Artifact} the section and notebook to remove
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @private
+	 */
+	@autobind
+	private deleteNotebook(artifact: Artifact, area: string = NS.notes) {
+		const notebooks = this.schema[area][artifact.section] || {};
+
+		for (const key of Object.keys(notebooks)) {
+			if (key === artifact.notebook || key.startsWith(`${artifact.notebook}/`)) {
+				delete notebooks[key];
+			}
+		}
+	}
+
+	/**
+	 * Emits the create events for the section and notebook of an artifact
+	 * if they were added to the schema.
+	 * @param artifact {Artifact} the artifact that was created
+	 * @param hasSection {boolean} true if the section was in the schema
+	 * before the artifact was created.
+	 * @param hasNotebook {boolean} true if the notebook was in the schema
+	 * before the artifact was created.
+	 * @private
+	 */
+	@autobind
+	private emitCreated(artifact: Artifact, hasSection: boolean, hasNotebook: boolean) {
+		if (!hasSection && this.hasSection(artifact)) {
+			this.emit(Events.sectionCreated, Artifact.factory('fields', {
+				section: artifact.section,
+				root: this.config.dbdir
+			}));
+		}
+
+		if (!hasNotebook && this.hasNotebook(artifact)) {
+			this.emit(Events.notebookCreated, Artifact.factory('fields', {
+				section: artifact.section,
+				notebook: artifact.notebook,
+				root: this.config.dbdir
+			}));
+		}
+	}
+
+	/**
+	 * Retrieves every artifact in the schema, including the artifacts in
+	 * the trash.
+	 * @returns {Artifact[]} the list of artifacts
+	 * @private
+	 */
+	@autobind
+	private everyArtifact(): Artifact[] {
+		const artifacts: Artifact[] = [];
+
+		for (const area of [NS.notes, NS.trash]) {
+			for (const section of Object.keys(this.schema[area])) {
+				for (const notebook of Object.keys(this.schema[area][section])) {
+					for (const filename of Object.keys(this.schema[area][section][notebook])) {
+						artifacts.push(this.schema[area][section][notebook][filename]);
+					}
+				}
+			}
+		}
+
+		return artifacts;
+	}
+
+	/**
+	 * Finds a template artifact by its filename.  When no filename matches,
+	 * the name is compared with the filenames without their extension.
+	 * @param name {string} the name of the template
+	 * @returns {Artifact} the template or null if it doesn't exist
+	 * @private
+	 */
+	@autobind
+	private findTemplate(name: string): Artifact {
+		const artifacts: Artifact[] = this.templateArtifacts();
+
+		return artifacts.find((it: Artifact) => it.filename === name) ||
+			artifacts.find((it: Artifact) => path.basename(it.filename, path.extname(it.filename)) === name) ||
+			null;
+	}
+
+	/**
+	 * Checks if a section or notebook is (or holds) an encrypted notebook.
+	 * @param search {ArtifactSearch} the section and optional notebook
+	 * @returns {boolean} true if an encrypted notebook is found, otherwise
+	 * false.
+	 * @private
+	 */
+	@autobind
+	private hasEncryptedNotebook(search: ArtifactSearch): boolean {
+		const target: string = (search.notebook == null || search.notebook === '')
+			? search.section
+			: `${search.section}/${search.notebook}`;
+
+		return this.encryptedNotebooks.some((key: string) => key === target || key.startsWith(`${target}/`));
+	}
+
+	/**
+	 * Creates an artifact for a note read from an Evernote export.  The
+	 * modification time of the file is set to the updated date of the note
+	 * so that the date is kept when the binder is reloaded.
+	 * @param section {string} the section for the note
+	 * @param notebook {string} the notebook for the note
+	 * @param note {EnexNote} the note to add
+	 * @returns {Promise} a javascript promise object that resolves to the
+	 * new artifact.
+	 * @private
+	 */
+	@autobind
+	private importNote(section: string, notebook: string, note: EnexNote) {
+		const name = this.sanitizeName(note.title);
+		let filename = `${name}.md`;
+
+		for (let n = 2; this.hasArtifact({section, notebook, filename}); n++) {
+			filename = `${name}-${n}.md`;
+		}
+
+		return this.add({section, notebook, filename})
+			.then((artifact: Artifact) => {
+				artifact.buf = note.content;
+				for (const tag of note.tags) {
+					artifact.addTag(tag);
+				}
+				this._tags.set(artifact.path(), artifact.tags);
+
+				return this.saveArtifact(artifact);
+			})
+			.then((artifact: Artifact) => {
+				if (note.created != null) {
+					artifact.created = note.created;
+				}
+
+				if (note.updated != null) {
+					artifact.updated = note.updated;
+					fs.utimesSync(artifact.absolute(), new Date(), note.updated);
+					this.indexArtifact(artifact, artifact.buf);
+				}
+
+				return artifact;
+			});
+	}
+
+	/**
+	 * Adds a single artifact to the search index and the link graph.  Only
+	 * artifacts that are in the notes area are indexed.  If the text is not
+	 * given, then the current contents of the file are used.
+	 * @param artifact {Artifact} the artifact to index
+	 * @param [text] {string} the contents of the artifact
+	 * @private
+	 */
+	@autobind
+	private indexArtifact(artifact: Artifact, text: string = null) {
+		const absolute = artifact.absolute();
+
+		if (!this._locked && !this.isNotebookLocked(artifact) &&
+			this._artifacts.has(artifact.path()) && fs.existsSync(absolute)) {
+			if (text == null) {
+				text = this.readArtifact(artifact);
+			}
+
+			const mtime = fs.statSync(absolute).mtime.getTime();
+			this._index.update(artifact.path(), text, mtime);
+			this._links.update(artifact.path(), text, mtime);
+		}
+	}
+
+	/**
+	 * Creates the requested artifact within the schema without emitting
+	 * any events.  This is the work behind `add()`, and it is also used by
+	 * the calls that create an artifact as part of a larger change (e.g.
+	 * `rename()`).
+	 *
+	 * @param opts {ArtifactSearch} the artifact object to create
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @returns {Promise} a javascript promise object
+	 * @private
+	 */
+	@autobind
+	private insert(opts: ArtifactSearch, area: string = NS.notes) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			let artifact: Artifact = null;
+			if (opts instanceof Artifact) {
+				artifact = opts;
+			} else {
+				artifact = Artifact.factory('fields', opts);
+			}
+			artifact.root = this.config.dbdir;
+
+			try {
+				if (artifact.type === ArtifactType.SNA) {
+					this.createSection(artifact, area);
+					this.createNotebook(artifact, area);
+					this.createArtifact(artifact, resolve, reject, area);
+				} else if (artifact.type === ArtifactType.SN) {
+					this.createSection(artifact, area);
+					this.createNotebook(artifact, area);
+					resolve(artifact);
+				} else if (artifact.type === ArtifactType.S) {
+					this.createSection(artifact, area);
+					resolve(artifact);
+				} else {
+					reject('Trying to add invalid artifact to DB');
+				}
+			} catch (err) {
+				reject(err.message);
+			}
+		});
+	}
+
+	/**
+	 * The directories within the db must follow a simple name check.  It must
+	 * only use the characters in `validNameChars`, and it can't be `.` or
+	 * `..` as those would refer to a directory outside of the binder.
+	 * @param str {string} the name of the database, section, or notebook
+	 * @returns {boolean} true if the name is ok, otherwise false
+	 * @private
+	 */
+	@autobind
+	private isValidName(str: string) {
+		return this.reID.test(str) && str !== '.' && str !== '..';
+	}
+
+	/**
+	 * Checks the name of a notebook.  When the binder has nested notebooks
+	 * each name in the path of the notebook is checked.
+	 * @param str {string} the name (or path) of the notebook
+	 * @returns {boolean} true if the name is ok, otherwise false
+	 * @private
+	 */
+	@autobind
+	private isValidNotebook(str: string) {
+		return (this.config.nested ? str.split('/') : [str]).every(this.isValidName);
+	}
+
+	/**
+	 * Finds the journal entry before or after a date and retrieves it.
+	 * @param opts {JournalOpts} the date to start from and the section
+	 * @param direction {number} -1 for the previous entry, 1 for the next
+	 * @returns {Promise} a javascript promise object that resolves to the
+	 * artifact of the entry or null.
+	 * @private
+	 */
+	@autobind
+	private journalStep(opts: JournalOpts, direction: number) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			const key: string = dateKey(opts.date || new Date());
+			const entries: JournalEntry[] = this.calendar(opts).filter((it: JournalEntry) => {
+				return (direction < 0) ? it.date < key : it.date > key;
+			});
+
+			const entry: JournalEntry = (direction < 0) ? entries[entries.length - 1] : entries[0];
+			if (entry == null) {
+				resolve(null);
+				return;
+			}
+
+			this.get(this.artifacts.get(entry.path))
+				.then((artifact: Artifact) => {
+					resolve(artifact);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
+	/**
+	 * Retrieves the files below a directory that belong to the binder.
+	 * Ignored files and temporary save files are skipped.
+	 * @param directory {string} the directory to search
+	 * @returns {string[]} the absolute path of each file
+	 * @private
+	 */
+	@autobind
+	private listFiles(directory: string): string[] {
+		const files: string[] = [];
+
+		if (fs.existsSync(directory)) {
+			// The filter keeps the walk out of a git repository directory
+			const items = walk(directory, {
+				filter: (item: any) => path.basename(item.path) !== '.git',
+				noRecurseOnFailedFilter: true
+			});
+
+			for (const file of items) {
+				const filename = path.basename(file.path);
+				if (file.stats.isFile() && this.ignore.indexOf(filename) === -1 && !filename.endsWith(tempExt)) {
+					files.push(file.path);
+				}
+			}
+		}
+
+		return files;
+	}
+
+	/**
+	 * This is called after the database instance is instantiated.  This is an
+	 * async call that precedes all other calls.  This ensures that it is
+	 * asynchronously loaded before it is used.  Once initialized, it is not
+	 * reloaded.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @private
+	 */
+	@autobind
+	private load(area: string = NS.notes) {
+		this.validate();
+		this.createTrash();
+		this.loadBinder(area);
+
+		if (area === NS.notes) {
+			this.loadIndex();
+		}
+
+		this.saveBinder();
+
+		this.log.info(`Loaded database '${this.config.binderName}' for ${area}.`);
+		this.initialized = true;
+	}
+
+	/**
+	 * Loads an existing text DB from the file system.  It finds the database by
+	 * reading the configuration stored in this.  If there is no configuration
+	 * information when this is called, then it does nothing.
+	 * @param area {string} the namespace area within the schema object to
+	 * search.  There are two areas: notes & trash.
+	 * @private
+	 */
+	@autobind
+	private loadBinder(area: string = NS.notes) {
+		let directory = '';
+		const trashIndex = this.ignore.indexOf('Trash');
+
+		if (area === NS.trash) {
+			directory = 'Trash';
+			if (trashIndex !== -1) {
+				this.ignore.splice(trashIndex, 1);
+			}
+		} else {
+			if (trashIndex === -1) {
+				this.ignore.push('Trash');
+			}
+		}
+
+		this.tree(directory).forEach((it: string) => {
+			// Without nested notebooks only the section/notebook/artifact
+			// levels of the binder are read.
+			if (!this.config.nested && (it.split('/').length > 3 ||
+				(it.split('/').length === 3 && fs.lstatSync(join(this.config.dbdir, directory, it)).isDirectory()))) {
+				this.log.warn(`Ignoring '${it}', the binder doesn't use nested notebooks`);
+				return;
+			}
+
+			const artifact = Artifact.factory('treeitem', {
+				nested: this.config.nested,
+				treeitem: it,
+				root: this.config.dbdir
+			});
+			this.createSection(artifact, area);
+			this.createNotebook(artifact, area);
+			this.addArtifact(artifact, area);
+		});
+	}
+
+	/**
+	 * Brings the search index and link graph up to date with the artifacts
+	 * in the schema.  Any artifact whose file has changed since it was
+	 * indexed is read and indexed again.  Documents that are no longer in
+	 * the schema are removed.
+	 * @private
+	 */
+	@autobind
+	private loadIndex() {
+		if (this._locked) {
+			return;
+		}
+
+		for (const key of this._index.keys()) {
+			if (!this._artifacts.has(key)) {
+				this._index.remove(key);
+			}
+		}
+
+		for (const key of this._links.keys()) {
+			if (!this._artifacts.has(key)) {
+				this._links.remove(key);
+			}
+		}
+
+		for (const artifact of this._artifacts.values()) {
+			const absolute = artifact.absolute();
+
+			if (fs.existsSync(absolute)) {
+				const mtime = fs.statSync(absolute).mtime.getTime();
+				if (!this._index.isCurrent(artifact.path(), mtime) ||
+					!this._links.isCurrent(artifact.path(), mtime)) {
+					// A file that can't be read is left out of the index.
+					// It is reported as unreadable by check().
+					try {
+						this.indexArtifact(artifact);
+					} catch (err) {
+						this.log.error("Can't index %s: %s", artifact.path(), err.message);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Takes an artifact and tries to load its meta data from the the
+	 * configuration.  It will assign metadata that it finds to the aritifact.
+	 * If the artifact isn't found in the configuration, then the default
+	 * metadata from the artifact is used (and ultimately saved).
+	 * @param artifact {Artifact} a reference to the artifact that will be
+	 * loaded.
+	 * @param [stats] {fs.Stats} the statistics object associated with this
+	 * artifact.
+	 * @private
+	 */
+	@autobind
+	private loadMetadata(artifact: Artifact, stats: fs.Stats = null): void {
+		if (artifact instanceof Artifact) {
+			if (artifact.path() in this.meta) {
+				artifact.meta = this.meta[artifact.path()];
+			} else {
+				this.meta[artifact.path()] = artifact.meta;
+			}
+
+			if (stats == null && fs.existsSync(artifact.absolute())) {
+				stats = fs.statSync(artifact.absolute());
+			}
+
+			if (stats != null) {
+				// An imported artifact can be older than its file, so an
+				// earlier created date in the metadata is kept.
+				const created = new Date(artifact.created);
+
+				artifact.accessed = stats.atime;
+				artifact.created = (created.getTime() < stats.birthtime.getTime()) ? created : stats.birthtime;
+				artifact.updated = stats.mtime;
+			}
+		}
+	}
+
+	/**
+	 * Retrieves the artifacts of a notebook, including its artifacts in the
+	 * trash and the artifacts of the notebooks nested within it.
+	 * @param key {string} the section and notebook, e.g. `Section/Notebook`
+	 * @returns {Artifact[]} the list of artifacts
+	 * @private
+	 */
+	@autobind
+	private notebookArtifacts(key: string): Artifact[] {
+		return this.everyArtifact().filter((artifact: Artifact) => artifact.path().startsWith(`${key}/`));
+	}
+
+	/**
+	 * Checks if the notebook of a path is encrypted with its own key.
+	 * @param key {string} an artifact path or a `Section/Notebook` key
+	 * @returns {boolean} true if the notebook is encrypted, otherwise false.
+	 * @private
+	 */
+	@autobind
+	private notebookEncrypted(key: string): boolean {
+		return this._config.notebookEncryption.hasOwnProperty(this.notebookKey(key));
+	}
+
+	/**
+	 * Computes the `Section/Notebook` key of an artifact path.  When the
+	 * path is within an encrypted notebook (which may be a parent of a
+	 * nested notebook), then the key of that notebook is used.
+	 * @param key {string} the artifact path
+	 * @returns {string} the section and notebook of the path
+	 * @private
+	 */
+	@autobind
+	private notebookKey(key: string): string {
+		key = normalize(key);
+
+		const encrypted: string = this.encryptedNotebooks
+			.find((it: string) => key === it || key.startsWith(`${it}/`));
+
+		return encrypted || key.split('/').slice(0, 2).join('/');
+	}
+
+	/**
+	 * Deletes the stored attachments that are no longer used.  An
+	 * attachment is in use when an artifact in the binder or in the trash
+	 * refers to it.  The attachments in the meta data of artifacts that no
+	 * longer exist are dropped, so a new artifact with the same name starts
+	 * without them.
+	 * @returns {string[]} the hashes of the attachments that were deleted
+	 * @private
+	 */
+	@autobind
+	private pruneAttachments(): string[] {
+		const used: Set<string> = new Set();
+
+		for (const key of Object.keys(this.meta)) {
+			const meta: ArtifactMeta = this.meta[key];
+
+			if (meta.attachments == null) {
+				continue;
+			}
+
+			if (this._artifacts.has(key) || fs.existsSync(join(this.config.trash, key))) {
+				meta.attachments.forEach((it: AttachmentInfo) => used.add(it.hash));
+			} else {
+				delete meta.attachments;
+			}
+		}
+
+		return this._attachments.prune(used);
 	}
 
-	get configFile() {
-		return this._config.configFile;
-	}
+	/**
+	 * Removes the items that have been in the trash longer than the
+	 * `trashAge` of the binder.  It is called when the binder is opened and
+	 * on each timed save.
+	 * @private
+	 */
+	@autobind
+	private purgeTrash() {
+		if (this.config.trashAge > 0 && !this._locked) {
+			try {
+				const expired: TrashEntry[] = this.trashed({olderThan: this.config.trashAge});
 
-	get ignore() {
-		return this._ignore;
+				if (expired.length > 0) {
+					this.removeTrash(expired);
+					this.emit(Events.trashEmptied, this);
+				}
+			} catch (err) {
+				this.log.error(`Trash purge failure: ${err.message}`);
+			}
+		}
 	}
 
-	set ignore(val: string[]) {
-		this._ignore = val;
+	/**
+	 * Reads the contents of an artifact file.  The file is decrypted when
+	 * the binder or its notebook is encrypted.
+	 * @param artifact {Artifact} the artifact to read
+	 * @returns {string} the contents of the file
+	 * @private
+	 */
+	@autobind
+	private readArtifact(artifact: Artifact): string {
+		return readSecureFile(artifact.absolute(), this.cipherFor(artifact.path()));
 	}
 
-	get initialized() {
-		return this._initialized;
-	}
+	/**
+	 * Encrypts a file again with a different cipher.  The modification time
+	 * of the file is kept.
+	 * @param filename {string} the file to change
+	 * @param from {Cipher} the cipher the file was written with
+	 * @param to {Cipher} the new cipher.  When it is null the file is
+	 * written as plain text.
+	 * @private
+	 */
+	@autobind
+	private recodeFile(filename: string, from: Cipher, to: Cipher) {
+		const stats = fs.statSync(filename);
+		const data = decodeBuffer(fs.readFileSync(filename), from);
 
-	set initialized(val: boolean) {
-		this._initialized = val;
+		this.writeFile(filename, encode(data, to), filename);
+		fs.utimesSync(filename, stats.atime, stats.mtime);
 	}
 
-	get log(): any {
-		return this._log;
-	}
+	/**
+	 * Encrypts the files of the binder with a new cipher.  Each artifact
+	 * (including the trash), each revision and each attachment is read with
+	 * the current cipher and written with the new one.  The modification time of each
+	 * file is kept so the search index stays current.  The files of
+	 * notebooks that have their own key are left alone.  The meta data, the
+	 * search index, the links and the configuration are then saved with the
+	 * new cipher.
+	 * @param cipher {Cipher} the new cipher
+	 * @private
+	 */
+	@autobind
+	private reencrypt(cipher: Cipher) {
+		const files: string[] = [];
+
+		for (const directory of [this.config.dbdir, this.config.revisionDir, this.config.attachmentDir]) {
+			for (const filename of this.listFiles(directory)) {
+				const relpath = normalize(path.relative(directory, filename)).replace(/^Trash\//, '');
+				if (!this.notebookEncrypted(relpath)) {
+					files.push(filename);
+				}
+			}
+		}
 
-	get meta(): NotesMeta {
-		return this._meta;
-	}
+		for (const filename of files) {
+			this.recodeFile(filename, this._cipher, cipher);
+		}
 
-	get recents() {
-		return this._recents;
+		this._cipher = cipher;
+		this._config.encryption = cipher.config;
+		this._index.cipher = cipher;
+		this._links.cipher = cipher;
+		this._trashLog.cipher = cipher;
+
+		this._index.save(this.notebookEncrypted);
+		this._links.save(this.notebookEncrypted);
+		this._trashLog.save();
+		this.writeFile(this.config.metaFile, encode(JSON.stringify(this.meta, null, '\t'), cipher), 'meta');
+		this.writeFile(this.config.configFile, JSON.stringify(this.config, null, '\t'), 'config');
 	}
 
-	get reID() {
-		return this._reID;
+	/**
+	 * Changes the links in every artifact that refers to a path (or one of
+	 * its children) so they refer to a new path.  Each artifact that is
+	 * changed is saved.
+	 * @param from {string} the old path of the section, notebook or artifact
+	 * @param to {string} the new path
+	 * @returns {Promise} a javascript promise object that resolves to the
+	 * list of artifacts that were changed.
+	 * @private
+	 */
+	@autobind
+	private relink(from: string, to: string) {
+		const promises: Array<Promise<any>> = this._links.backlinks(from, true)
+			.filter((key: string) => this._artifacts.has(key))
+			.map((key: string) => {
+				return this.get(this._artifacts.get(key))
+					.then((artifact: Artifact) => {
+						artifact.buf = rewriteLinks(artifact.buf, from, to);
+						this.log.info(`Rewrote links to ${from} in ${artifact.path()}`);
+						return this.saveArtifact(artifact);
+					});
+			});
+
+		return Promise.all(promises);
 	}
 
-	get schema() {
-		return this._schema;
+	/**
+	 * Permanently removes items from the trash.  The directories that are
+	 * left empty (see `trashDirectoryEmpty()`) are removed and the trash is
+	 * loaded again.
+	 * @param entries {TrashEntry[]} the items to remove (from `trashed()`)
+	 * @private
+	 */
+	@autobind
+	private removeTrash(entries: TrashEntry[]) {
+		for (const entry of entries) {
+			fs.removeSync(join(this.config.trash, entry.location));
+			this._trashLog.remove(entry.location);
+
+			let directory: string = path.dirname(entry.location);
+			while (directory !== '.' && this.trashDirectoryEmpty(directory)) {
+				fs.removeSync(join(this.config.trash, directory));
+				directory = path.dirname(directory);
+			}
+		}
+
+		this.schema.trash = {};
+		this.load(NS.trash);
+		this.pruneAttachments();
+
+		this.log.info(`Removed ${entries.length} item(s) from the trash`);
 	}
 
-	get timedSave() {
-		return this._timedSave;
+	/**
+	 * Replaces the characters in a name that can't be used in the binder.
+	 * Each run of invalid characters becomes a single space.
+	 * @param str {string} the section, notebook or artifact name to clean
+	 * @returns {string} a name that passes the name check.  A name with no
+	 * valid characters becomes `Untitled`.
+	 * @private
+	 */
+	@autobind
+	private sanitizeName(str: string): string {
+		if (this.isValidName(str)) {
+			return str;
+		}
+
+		const name = (str || '')
+			.replace(new RegExp(`[^${validNameChars}]+`, 'g'), ' ')
+			.replace(/\s+/g, ' ')
+			.trim();
+
+		return (name === '' || /^\.+$/.test(name)) ? 'Untitled' : name;
 	}
 
 	/**
-	 * Creates a new artifact (file) within the schema.  This call is a
-	 * synchronous write of the file.
-	 * @param artifact {Artifact} a structure that holds the details for the file
-	 * that will be created.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
+	 * Saves the internal state of the binder.  This includes saving any changes
+	 * in the configuration or meta data for artifacts.  It also looks for
+	 * "dirty" artifacts and saves them where necessary.
+	 * @param cb {Function} a callback function that is executed when all
+	 * artifact save promises have resolved.
 	 * @private
 	 */
 	@autobind
-	private addArtifact(artifact: Artifact, area: string = NS.notes) {
-		if (artifact.hasSection() &&
-			artifact.hasNotebook() &&
-			artifact.hasFilename() &&
-			!this.hasArtifact(artifact, area)) {
-			if (this.isValidName(artifact.filename)) {
-				this.loadMetadata(artifact);
-				this.schema[area][artifact.section][artifact.notebook][artifact.filename] = artifact;
+	private saveBinder(cb: INilCallback = nil) {
+		const promises: any = [];
 
-				if (area !== NS.trash) {
-					this._artifacts.set(artifact.path(), artifact);
+		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			try {
+				this.log.info(`Saving configuration: ${this.config.configFile}`);
+				const data = JSON.stringify(this.config, null, '\t');
+				this.writeFile(this.config.configFile, data, 'config');
+				resolve('Configuration saved');
+			} catch (err) {
+				reject(`Error saving configuration: ${err.message}`);
+			}
+		}));
+
+		// The meta data, index and links of a locked binder are not in
+		// memory, so only the configuration is saved.
+		if (this._locked) {
+			Promise.all(promises)
+				.then(() => {
+					cb(null);
+				})
+				.catch((err: string) => {
+					cb(new Error(err));
+				});
+			return;
+		}
+
+		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			try {
+				this.log.info(`Saving meta data: ${this.config.metaFile}`);
+				const data = JSON.stringify(this.meta, null, '\t');
+				this.writeFile(this.config.metaFile, encode(data, this._cipher), 'meta');
+				resolve('Wrote metadata');
+			} catch (err) {
+				reject(`Error saving metadata: ${err.message}`);
+			}
+		}));
+
+		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			try {
+				if (this._index.dirty) {
+					this.log.info(`Saving search index: ${this.config.indexFile}`);
+					this._index.save(this.notebookEncrypted);
 				}
-			} else {
-				throw new Error(`Invalid filename name '${artifact.filename}'.  Can only use '${validNameChars}'.`);
+				resolve('Wrote search index');
+			} catch (err) {
+				reject(`Error saving search index: ${err.message}`);
+			}
+		}));
+
+		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			try {
+				if (this._links.dirty) {
+					this.log.info(`Saving link graph: ${this.config.linkFile}`);
+					this._links.save(this.notebookEncrypted);
+				}
+				resolve('Wrote link graph');
+			} catch (err) {
+				reject(`Error saving link graph: ${err.message}`);
+			}
+		}));
+
+		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			try {
+				if (this._trashLog.dirty) {
+					this.log.info(`Saving trash log: ${this.config.trashFile}`);
+					this._trashLog.save();
+				}
+				resolve('Wrote trash log');
+			} catch (err) {
+				reject(`Error saving trash log: ${err.message}`);
 			}
+		}));
+
+		for (const artifact of this.artifacts.values()) {
+			promises.push(this.saveArtifact(artifact));
 		}
 
-		return this;
+		Promise.all(promises)
+			.then((rets: any) => {
+				if (cb && typeof cb === 'function' && rets instanceof Array) {
+					cb(null);
+				}
+			})
+			.catch((err: string) => {
+				if (cb && typeof cb === 'function') {
+					cb(new Error(err));
+				}
+			});
 	}
 
 	/**
-	 * Creates a new artifact (file) within the schema.  This call is an async
-	 * write of the file.  It expects to be called from a promise with the
-	 * proper resolve/reject callbacks.
-	 * @param artifact {Artifact} a structure that holds the details for the file
-	 * that will be created.
-	 * @param resolve {Function} a promise resolve function that can be called
-	 * if this function is successful.
-	 * @param reject {Function} a promise reject function that can be called
-	 * if this function fails.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
+	 * Performs a regex search by reading every artifact in the binder.  This
+	 * is the fallback for `find()` when the search can't be resolved against
+	 * the inverted index.
+	 * @param search {string} the regex string to used as the search criteria.
+	 * @returns {Promise} a javascript promise object
 	 * @private
 	 */
 	@autobind
-	private createArtifact(artifact: Artifact, resolve: PromiseFn<Artifact>, reject: PromiseFn<string>, area: string = NS.notes) {
-		if (artifact.hasSection() &&
-			artifact.hasNotebook() &&
-			artifact.hasFilename() &&
-			!this.hasArtifact(artifact)) {
-			if (this.isValidName(artifact.filename)) {
-				let dst = join(this.config.dbdir, artifact.path());
-				if (area === NS.trash) {
-					dst = join(this.config.dbdir, 'Trash', artifact.path());
-				}
-
-				if (!fs.existsSync(dst)) {
-					// Note that if you try to use an async write here for the file
-					// it will lead to intermediate failures in loading the stats
-					// with a "file not found" error.  It seems that even though
-					// the writeFile callback is executed, and the file "should" be
-					// created, one cannot reliably use the fs.stat within that callback
-					// to get the file details.
-					fs.writeFileSync(dst, artifact.buffer);
-				}
+	private scan(search: string) {
+		const regex = new RegExp(search);
+		const self = this;
 
-				fs.stat(dst, (err, stats) => {
+		function searchArtifact(artifact: Artifact) {
+			return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+				const filename: string = join(self.config.dbdir, artifact.path());
+				fs.readFile(filename, (err, data) => {
 					if (err) {
 						reject(err.message);
+						return;
 					}
 
-					artifact.loaded = true;
-					this.loadMetadata(artifact, stats);
-					this.schema[area][artifact.section][artifact.notebook][artifact.filename] = artifact;
-
-					if (area !== NS.trash) {
-						this._artifacts.set(artifact.path(), artifact);
+					// A file that can't be decoded (e.g. a plain file in an
+					// encrypted binder) fails the search instead of throwing
+					// from the callback.
+					let text: string = '';
+					try {
+						text = decode(data, self.cipherFor(artifact.path()));
+					} catch (decodeErr) {
+						reject(`Can't search ${artifact.path()}: ${decodeErr.message}`);
+						return;
 					}
 
-					this.log.info(`Added artifact: ${artifact.filename}`);
-					resolve(artifact);
+					if (regex.test(text)) {
+						resolve(artifact);
+					} else {
+						resolve(null);
+					}
 				});
-			} else {
-				reject(`Invalid filename name '${artifact.filename}'.  Can only use '${validNameChars}'.`);
-			}
-		} else {
-			resolve(artifact);
+			});
 		}
-	}
 
-	/**
-	 * Takes the name of the initial configuration file and builds the initial
-	 * structure for that configuration.
-	 * @param opts {BinderOpts} parameters used to instantiate this object.
-	 * @returns {ConfigDB} a newly populated configuration object
-	 * @private
-	 */
-	private createInitialConfig(opts: BinderOpts): ConfigDB {
-		const configFile: string = join(opts.configRoot || './', 'config.json');
-		const metaFile: string = join(opts.configRoot || './', 'meta.json');
+		return new Promise((resolve: PromiseFn<Artifact[]>, reject: PromiseFn<string>) => {
+			if (this._locked) {
+				reject(`Binder '${this.binderName}' is locked`);
+				return;
+			}
 
-		return {
-			binderName: opts.binderName || 'adb',
-			configFile: configFile,
-			configRoot: opts.configRoot,
-			dbdir: join(opts.root || './', opts.binderName || 'adb'),
-			trash: join(opts.root || './', opts.binderName || 'adb', 'Trash'),
-			metaFile: metaFile,
-			logdir: join(path.dirname(configFile || './')),
-			root: opts.root || '',
-			saveInterval: opts.saveInterval,
-			bufSize: opts.bufSize,
-			maxRecents: opts.maxRecents
-		};
+			const promises: Array<Promise<any>> = [];
+			for (const artifact of this._artifacts.values()) {
+				if (!this.isNotebookLocked(artifact)) {
+					promises.push(searchArtifact(artifact));
+				}
+			}
+
+			Promise.all(promises)
+				.then((artifacts: Artifact[]) => {
+					resolve(artifacts.filter(n => {
+						return n != null;
+					}));
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
 	}
 
 	/**
-	 * Creates a new notebook within a section.
-	 * @param artifact {Artifact} the name of the notebook to create
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {Binder} a reference to the changed DB instance
+	 * Carries out a single action of a sync (see `planSync()`) and records
+	 * it in the report.
+	 * @param directory {string} the directory that is synced with the binder
+	 * @param action {SyncAction} the action and the path of the artifact
+	 * @param report {SyncReport} the report of the sync
+	 * @returns {Promise} a javascript promise object
 	 * @private
 	 */
 	@autobind
-	private createNotebook(artifact: Artifact, area: string = NS.notes) {
-		if (artifact.hasSection() && artifact.hasNotebook() &&
-			this.hasSection(artifact, area) &&
-			!this.hasNotebook(artifact, area)) {
-			if (this.isValidName(artifact.notebook)) {
-				let dst = join(this.config.dbdir, artifact.section, artifact.notebook);
-				if (area === NS.trash) {
-					dst = join(this.config.dbdir, 'Trash', artifact.section, artifact.notebook);
-				}
+	private syncArtifact(directory: string, action: SyncAction, report: SyncReport) {
+		const location: Artifact = Artifact.factory('treeitem', {nested: true, treeitem: action.path});
+		const search: ArtifactSearch = {section: location.section, notebook: location.notebook, filename: location.filename};
+		const localFile: string = join(this.config.dbdir, action.path);
+		const remoteFile: string = join(directory, action.path);
+		let target: Artifact = null;
+
+		switch (action.action) {
+			case 'push':
+				(fs.existsSync(remoteFile) ? report.remote.updated : report.remote.added).push(action.path);
+				fs.copySync(localFile, remoteFile, {preserveTimestamps: true});
+				return Promise.resolve();
+
+			case 'pull':
+				return this.syncContent(search, fs.readFileSync(remoteFile).toString())
+					.then((added: boolean) => {
+						(added ? report.local.added : report.local.updated).push(action.path);
+					});
 
-				if (!fs.existsSync(dst)) {
-					this.log.info(`Creating notebook: ${artifact.notebook} in section ${artifact.section}`);
-					fs.mkdirsSync(dst);
-				}
+			case 'trashLocal':
+				return this.trash(search)
+					.then(() => {
+						report.local.trashed.push(action.path);
+					});
 
-				if (!this.hasNotebook(artifact, area) && fs.existsSync(dst) && fs.lstatSync(dst).isDirectory()) {
-					this.schema[area][artifact.section][artifact.notebook] = {};
+			case 'removeLocal':
+				return this.remove(search)
+					.then(() => {
+						report.local.removed.push(action.path);
+					});
+
+			case 'trashRemote':
+				// An artifact needs an existing root, so the trash of the
+				// remote directory is created before the first item is moved.
+				fs.mkdirsSync(join(directory, 'Trash'));
+				target = Artifact.factory('fields', Object.assign({root: join(directory, 'Trash')}, search));
+				if (fs.existsSync(target.absolute())) {
+					target.makeUnique();
 				}
 
-				return (this);
-			} else { // eslint-disable-line no-else-return
-				throw new Error(`Invalid notebook name '${artifact.notebook}'.  Can only use '${validNameChars}'.`);
-			}
+				fs.moveSync(remoteFile, target.absolute());
+				report.remote.trashed.push(action.path);
+				return Promise.resolve();
+
+			case 'removeRemote':
+				fs.removeSync(remoteFile);
+				report.remote.removed.push(action.path);
+				return Promise.resolve();
+
+			case 'conflict':
+				// The other version is kept as a copy on both sides and the
+				// binder version replaces it.
+				target = Artifact.factory('fields', search).makeUnique();
+				fs.copySync(remoteFile, join(directory, target.path()), {preserveTimestamps: true});
+
+				return this.syncContent(target, fs.readFileSync(remoteFile).toString())
+					.then(() => {
+						fs.copySync(localFile, remoteFile, {preserveTimestamps: true});
+						report.conflicts.push({path: action.path, copy: target.path()});
+					});
 		}
 
-		return this;
+		return Promise.reject(`Unknown sync action '${action.action}'`);
 	}
 
 	/**
-	 * Creates a new section (directory) within the database.  If the section
-	 * already exists, then the call is ignored.
-	 * @param artifact {Artifact} the name of the section to create.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @returns {Binder} a reference to the changed DB instance
+	 * Updates the schema with changes that were made to the binder directory
+	 * by other programs.  This is called by the watcher with the paths that
+	 * changed.  Each path is checked against the file system to see if it
+	 * was added, changed or removed.  A file that is removed and added in
+	 * the same set of changes with the same modification time is treated
+	 * as a rename.
+	 *
+	 * Changes made by the binder itself are skipped because the search
+	 * index is already current with the file.  If a file changes while its
+	 * buffer has unsaved changes, then the buffer is kept and a conflict
+	 * event is emitted.  The contents on disk become a revision when the
+	 * buffer is saved.
+	 *
+	 * @param changes {string[]} the paths (relative to the binder directory)
+	 * that changed.
 	 * @private
 	 */
 	@autobind
-	private createSection(artifact: Artifact, area: string = NS.notes) {
-		if (!this.hasSection(artifact, area)) {
-			if (this.isValidName(artifact.section)) {
-				let dst = join(this.config.dbdir, artifact.section);
-				if (area === NS.trash) {
-					dst = join(this.config.dbdir, 'Trash', artifact.section);
+	private syncChanges(changes: string[]) {
+		const added: Set<string> = new Set();
+		const changed: Set<string> = new Set();
+		const removed: Set<string> = new Set();
+
+		const check = (key: string) => {
+			if (fs.existsSync(join(this.config.dbdir, key))) {
+				(this._artifacts.has(key) ? changed : added).add(key);
+			} else if (this._artifacts.has(key)) {
+				removed.add(key);
+			}
+		};
+
+		const create = (artifact: Artifact) => {
+			const hasSection = this.hasSection(artifact);
+			const hasNotebook = this.hasNotebook(artifact);
+
+			this.createSection(artifact);
+			this.createNotebook(artifact);
+			this.emitCreated(artifact, hasSection, hasNotebook);
+		};
+
+		try {
+			// A directory is a section or a notebook.  With nested notebooks
+			// every directory below a section is a notebook named by its
+			// path within the section.
+			for (const relpath of changes) {
+				const absolute = join(this.config.dbdir, relpath);
+				const [section, ...parts] = relpath.split('/');
+				const notebook: string = parts.join('/') || undefined;
+
+				if (fs.existsSync(absolute) && fs.lstatSync(absolute).isDirectory()) {
+					if (parts.length < 2 || this.config.nested) {
+						create(Artifact.factory('fields', {section, notebook, root: this.config.dbdir}));
+
+						for (const it of this.tree(relpath)) {
+							const child = Artifact.factory('treeitem', {
+								nested: this.config.nested,
+								treeitem: `${relpath}/${it}`,
+								root: this.config.dbdir
+							});
+							create(child);
+
+							if (child.type === ArtifactType.SNA) {
+								check(child.path());
+							}
+						}
+					}
+				} else if (parts.length > 1) {
+					check(relpath);
 				}
 
-				if (!fs.existsSync(dst)) {
-					this.log.info(`Creating section: ${artifact.section}`);
-					fs.mkdirsSync(dst);
+				for (const key of this._artifacts.keys()) {
+					if (key.startsWith(`${relpath}/`)) {
+						check(key);
+					}
 				}
+			}
 
-				if (!this.hasSection(artifact, area) &&
-					fs.existsSync(dst) &&
-					fs.lstatSync(dst).isDirectory()) {
-					this.schema[area][artifact.section] = {};
+			// Pairs a removed file with an added file that has the same
+			// modification time as the removed one when it was indexed.
+			const renamed: Map<string, string> = new Map();
+			for (const key of added) {
+				const mtime = fs.statSync(join(this.config.dbdir, key)).mtime.getTime();
+				for (const src of removed) {
+					if (!Array.from(renamed.values()).includes(src) && this._index.isCurrent(src, mtime)) {
+						renamed.set(key, src);
+						break;
+					}
 				}
+			}
 
-				return this;
-			} else { // eslint-disable-line no-else-return
-				throw new Error(`Invalid section name '${artifact.section}'.  Can only use '${validNameChars}'.`);
+			const previous: Map<string, Artifact> = new Map();
+			for (const key of removed) {
+				previous.set(key, this.unloadArtifact(this._artifacts.get(key)));
 			}
-		}
 
-		return this;
-	}
+			for (const relpath of changes) {
+				const [section, ...parts] = relpath.split('/');
+				const notebook: string = parts.join('/') || undefined;
 
-	/**
-	 * Creates the trash directory within the binder.
-	 * @private
-	 */
-	@autobind
-	private createTrash() {
-		const trashDir = join(this.config.dbdir, 'Trash');
+				if (!fs.existsSync(join(this.config.dbdir, relpath))) {
+					const artifact = Artifact.factory('fields', {section, notebook, root: this.config.dbdir});
 
-		if (!fs.existsSync(trashDir)) {
-			fs.mkdirs(trashDir);
+					if (notebook == null && this.hasSection(artifact)) {
+						delete this.schema.notes[section];
+						this.emit(Events.sectionRemoved, artifact);
+					} else if (notebook != null && this.hasNotebook(artifact)) {
+						this.deleteNotebook(artifact);
+						this.emit(Events.notebookRemoved, artifact);
+					}
+				}
+			}
+
+			for (const key of added) {
+				const artifact = Artifact.factory('treeitem', {
+					nested: this.config.nested,
+					treeitem: key,
+					root: this.config.dbdir
+				});
+
+				if (renamed.has(key)) {
+					this._revisions.move(renamed.get(key), key);
+					this.copyMetadata(renamed.get(key), key);
+				}
+
+				create(artifact);
+				this.addArtifact(artifact);
+				this.indexArtifact(artifact);
+
+				if (renamed.has(key)) {
+					this.log.info(`External rename of ${renamed.get(key)} to ${key}`);
+					this.emit(Events.artifactRenamed, artifact, previous.get(renamed.get(key)));
+				} else {
+					this.log.info(`External add of ${key}`);
+					this.emit(Events.artifactAdded, artifact);
+				}
+			}
+
+			for (const key of removed) {
+				if (!Array.from(renamed.values()).includes(key)) {
+					this.log.info(`External remove of ${key}`);
+					this.emit(Events.artifactRemoved, previous.get(key));
+				}
+			}
+
+			for (const key of changed) {
+				const artifact = this._artifacts.get(key);
+				const absolute = artifact.absolute();
+
+				if (this._index.isCurrent(key, fs.statSync(absolute).mtime.getTime())) {
+					continue;
+				}
+
+				const content = (this._locked || this.isNotebookLocked(artifact)) ? null : this.readArtifact(artifact);
+				if (artifact.loaded && artifact.isDirty() && artifact.buf !== content) {
+					this.log.warn(`Conflicting external change of ${key}`);
+					this.emit(Events.artifactConflict, artifact, content);
+				} else {
+					if (artifact.loaded) {
+						artifact.buf = content;
+						artifact.makeClean();
+					}
+
+					this.loadMetadata(artifact);
+					this.log.info(`External change of ${key}`);
+					this.emit(Events.artifactChanged, artifact);
+				}
+
+				this.indexArtifact(artifact, content);
+			}
+		} catch (err) {
+			this.log.error(`Failure syncing external changes: ${err.message}`);
 		}
 	}
 
 	/**
-	 * The directories within the db must follow a simple name check.  It must
-	 * pass the following regex: /^\w+$/
-	 * @param str {string} the name of the database, section, or notebook
-	 * @returns {boolean} true if the name is ok, otherwise false
+	 * Replaces the contents of an artifact with the contents from a synced
+	 * directory and saves it.  The artifact is created when it doesn't
+	 * exist.
+	 * @param search {ArtifactSearch} the section/notebook/filename of the
+	 * artifact
+	 * @param content {string} the new contents of the artifact
+	 * @returns {Promise} a javascript promise object that resolves to true
+	 * when the artifact was created.
 	 * @private
 	 */
 	@autobind
-	private isValidName(str: string) {
-		return this.reID.test(str);
+	private syncContent(search: ArtifactSearch, content: string) {
+		return new Promise((resolve: PromiseFn<boolean>, reject: PromiseFn<string>) => {
+			const added: boolean = !this.hasArtifact(search);
+
+			(added ? this.add(search) : this.get(search))
+				.then((artifact: Artifact) => {
+					artifact.buf = content;
+					return this.saveArtifact(artifact);
+				})
+				.then(() => {
+					resolve(added);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
 	}
 
 	/**
-	 * This is called after the database instance is instantiated.  This is an
-	 * async call that precedes all other calls.  This ensures that it is
-	 * asynchronously loaded before it is used.  Once initialized, it is not
-	 * reloaded.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
+	 * Computes the content hash of each artifact in a directory for a sync.
+	 * Artifacts in the trash and in encrypted notebooks are left out.  The
+	 * encrypted notebooks are added to the skipped list of the report.
+	 * @param directory {string} the binder or the synced directory
+	 * @param [report] {SyncReport} the report of the sync
+	 * @returns {SyncHashes} the hash of each artifact keyed by its path
 	 * @private
 	 */
 	@autobind
-	private load(area: string = NS.notes) {
-		this.validate();
-		this.createTrash();
-		this.loadBinder(area);
-		this.saveBinder();
+	private syncHashes(directory: string, report: SyncReport = null): SyncHashes {
+		const hashes: SyncHashes = hashDirectory(directory, ['Trash'], this.config.nested);
 
-		this.log.info(`Loaded database '${this.config.binderName}' for ${area}.`);
-		this.initialized = true;
-	}
+		for (const key of Object.keys(hashes)) {
+			const notebook: string = this.notebookKey(key);
 
-	/**
-	 * Loads an existing text DB from the file system.  It finds the database by
-	 * reading the configuration stored in this.  If there is no configuration
-	 * information when this is called, then it does nothing.
-	 * @param area {string} the namespace area within the schema object to
-	 * search.  There are two areas: notes & trash.
-	 * @private
-	 */
-	@autobind
-	private loadBinder(area: string = NS.notes) {
-		let directory = '';
-		const trashIndex = this.ignore.indexOf('Trash');
+			if (this.notebookEncrypted(notebook)) {
+				delete hashes[key];
 
-		if (area === NS.trash) {
-			directory = 'Trash';
-			if (trashIndex !== -1) {
-				this.ignore.splice(trashIndex, 1);
-			}
-		} else {
-			if (trashIndex === -1) {
-				this.ignore.push('Trash');
+				if (report != null && !report.skipped.some((it: SyncSkip) => it.path === notebook)) {
+					report.skipped.push({path: notebook, reason: 'Encrypted notebooks are not synced'});
+				}
 			}
 		}
 
-		this.tree(directory).forEach((it: string) => {
-			const artifact = Artifact.factory('treeitem', {
-				treeitem: it,
-				root: this.config.dbdir
-			});
-			this.createSection(artifact, area);
-			this.createNotebook(artifact, area);
-			this.addArtifact(artifact, area);
-		});
+		return hashes;
 	}
 
 	/**
-	 * Takes an artifact and tries to load its meta data from the the
-	 * configuration.  It will assign metadata that it finds to the aritifact.
-	 * If the artifact isn't found in the configuration, then the default
-	 * metadata from the artifact is used (and ultimately saved).
-	 * @param artifact {Artifact} a reference to the artifact that will be
-	 * loaded.
-	 * @param [stats] {fs.Stats} the statistics object associated with this
-	 * artifact.
+	 * Retrieves the artifacts in the reserved templates section.
+	 * @returns {Artifact[]} the template artifacts sorted by path
 	 * @private
 	 */
 	@autobind
-	private loadMetadata(artifact: Artifact, stats: fs.Stats = null): void {
-		if (artifact instanceof Artifact) {
-			if (artifact.path() in this.meta) {
-				artifact.meta = this.meta[artifact.path()];
-			} else {
-				this.meta[artifact.path()] = artifact.meta;
-			}
-
-			if (stats == null && fs.existsSync(artifact.absolute())) {
-				stats = fs.statSync(artifact.absolute());
-			}
-
-			if (stats != null) {
-				artifact.accessed = stats.atime;
-				artifact.created = stats.birthtime;
-				artifact.updated = stats.ctime;
-			}
-		}
+	private templateArtifacts(): Artifact[] {
+		return Array.from(this.artifacts.values())
+			.filter((it: Artifact) => it.section === templateSection && it.type === ArtifactType.SNA)
+			.sort(artifactComparator);
 	}
 
 	/**
-	 * Saves the internal state of the binder.  This includes saving any changes
-	 * in the configuration or meta data for artifacts.  It also looks for
-	 * "dirty" artifacts and saves them where necessary.
-	 * @param cb {Function} a callback function that is executed when all
-	 * artifact save promises have resolved.
+	 * Checks if a directory in the trash holds nothing that is listed by
+	 * `trashed()`.  Loading the trash creates a `Default` notebook in each
+	 * section, so a directory that only holds empty directories is empty
+	 * unless one of them was put in the trash.
+	 * @param directory {string} the path of the directory within the trash
+	 * @returns {boolean} true if the directory can be removed, otherwise
+	 * false.
 	 * @private
 	 */
 	@autobind
-	private saveBinder(cb: INilCallback = nil) {
-		const promises: any = [];
-
-		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
-			try {
-				this.log.info(`Saving configuration: ${this.config.configFile}`);
-				const data = JSON.stringify(this.config, null, '\t');
-				fs.writeFileSync(this.config.configFile, data);
-				resolve('Configuration saved');
-			} catch (err) {
-				reject(`Error saving configuration: ${err.message}`);
-			}
-		}));
-
-		promises.push(new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
-			try {
-				this.log.info(`Saving meta data: ${this.config.metaFile}`);
-				const data = JSON.stringify(this.meta, null, '\t');
-				fs.writeFileSync(this.config.metaFile, data);
-				resolve('Wrote metadata');
-			} catch (err) {
-				reject(`Error saving metadata: ${err.message}`);
-			}
-		}));
+	private trashDirectoryEmpty(directory: string): boolean {
+		const absolute: string = join(this.config.trash, directory);
 
-		for (const artifact of this.artifacts.values()) {
-			promises.push(this.saveArtifact(artifact));
+		if (!fs.existsSync(absolute)) {
+			return false;
 		}
 
-		Promise.all(promises)
-			.then((rets: any) => {
-				if (cb && typeof cb === 'function' && rets instanceof Array) {
-					cb(null);
-				}
-			})
-			.catch((err: string) => {
-				if (cb && typeof cb === 'function') {
-					cb(new Error(err));
-				}
-			});
+		return walk(absolute).every((item: any) => item.stats.isDirectory()) &&
+			!this._trashLog.keys().some((it: string) => it === directory || it.startsWith(`${directory}/`));
 	}
 
 	/**
 	 * Returns an array that represents a "treeview" of the current notes
 	 * database.  These represent relative paths from the root of the database.
+	 * When the binder has nested notebooks each directory ends with a `/`
+	 * so that it isn't read as an artifact.
 	 * @param directory {string} the directory where the tree will be retrieved
 	 * It is a relative path from the root of the schema.
 	 * @returns {Array} a list of nodes/directories in the database tree.
@@ -1368,13 +4978,37 @@ export class Binder extends EventEmitter {
 			});
 
 			files.forEach((file: any) => {
-				l.push(normalize(file.path).replace(`${directory}/`, ''));
+				const item: string = normalize(file.path).replace(`${directory}/`, '');
+				l.push((this.config.nested && file.stats.isDirectory()) ? `${item}/` : item);
 			}, this);
 		}
 
 		return l;
 	}
 
+	/**
+	 * Removes an artifact from the schema and the binder's indexes without
+	 * touching the file system.  This is used when the file was already
+	 * removed by another program.
+	 * @param artifact {Artifact} the artifact to remove
+	 * @returns {Artifact} a reference to the removed artifact
+	 * @private
+	 */
+	@autobind
+	private unloadArtifact(artifact: Artifact): Artifact {
+		this._artifacts.delete(artifact.path());
+		this._index.remove(artifact.path());
+		this._links.remove(artifact.path());
+		this._tags.remove(artifact.path());
+		this.recents.eject(artifact);
+
+		if (this.hasArtifact(artifact)) {
+			delete this.schema.notes[artifact.section][artifact.notebook][artifact.filename];
+		}
+
+		return artifact;
+	}
+
 	/**
 	 * Checks the binder configuration to ensure that it is valid
 	 * @private
@@ -1393,4 +5027,28 @@ export class Binder extends EventEmitter {
 			throw new Error(`No notesdb located @ ${this.config.dbdir}.`);
 		}
 	}
+
+	/**
+	 * Writes a file through the save journal.  The data is written to a
+	 * temporary file that is recorded in the journal, renamed into place,
+	 * and then removed from the journal.
+	 * @param filename {string} the file to write
+	 * @param data {string|Buffer} the contents of the file
+	 * @param key {string} the name of the item being saved.  This is
+	 * reported if the save is recovered after a crash.
+	 * @private
+	 */
+	@autobind
+	private writeFile(filename: string, data: string | Buffer, key: string) {
+		const entry = this._journal.begin(filename, data, key);
+
+		try {
+			fs.renameSync(entry.temp, entry.target);
+		} catch (err) {
+			this._journal.rollback(entry);
+			throw err;
+		}
+
+		this._journal.commit(entry);
+	}
 }
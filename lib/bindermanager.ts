@@ -9,17 +9,29 @@
 import autobind from 'autobind-decorator';
 import {EventEmitter} from 'events';
 import * as fs from 'fs-extra';
+import * as _ from 'lodash';
 import * as rimraf from 'rimraf';
 import {home} from 'util.home';
 import {join} from 'util.join';
 import logger, {Logger} from 'util.log';
+import {PromiseFn} from 'util.promise';
 import {timestamp as ts} from 'util.timestamp';
 import {
 	failure,
 	getDirectories,
 	success
 } from 'util.toolbox';
-import {Binder} from './binder';
+import {
+	BinderArchive,
+	packBinder,
+	readArchive,
+	relocateConfig,
+	unpackDirectory,
+	writeArchive
+} from './archive';
+import {Artifact, ArtifactSearch} from './artifact';
+import {Binder, validNameChars} from './binder';
+import {BinderEvents, Events} from './events';
 
 const pkg = require('../package.json');
 
@@ -30,8 +42,16 @@ export interface Binders {
 export interface BinderManagerOpts {
 	defaultName?: string;
 	defaultDirectory?: string;
+	trashAge?: number;
+}
+
+export interface ManagerTrashOpts {
+	binderName?: string;
+	olderThan?: number;
 }
 
+const msPerDay: number = 24 * 60 * 60 * 1000;
+
 /** Creates an instance of the binder management class */
 export class BinderManager extends EventEmitter {
 
@@ -42,7 +62,8 @@ export class BinderManager extends EventEmitter {
 	private _binders: Binders = {};
 	private _opts: BinderManagerOpts = {
 		defaultName: 'default',
-		defaultDirectory: join(home, 'Binders')
+		defaultDirectory: join(home, 'Binders'),
+		trashAge: 0
 	};
 	private _trashDirectory: string;
 
@@ -51,6 +72,10 @@ export class BinderManager extends EventEmitter {
 	 * to manage multiple binder instances and centralize their configuration
 	 * details.
 	 *
+	 * The manager emits the events of each binder it manages (see `Events`).
+	 * The name of the binder is given to the listener before the parameters
+	 * of the event, e.g. `manager.on('artifact:saved', (binderName, artifact) => {})`.
+	 *
 	 * The baseDirectory option points to a directory that will hold another sub
 	 * directory named "binders".  Each of these directories hold the configuration
 	 * details for a single Binder.
@@ -59,6 +84,15 @@ export class BinderManager extends EventEmitter {
 	 * @extends EventEmitter
 	 * @param baseDirectory {string} the location where all of the notebook configurations
 	 * that are managed by this instance are stored.
+	 * @param [opts] {BinderManagerOpts} optional parameters
+	 *
+	 * - `defaultName {string} default='default'`: the name of the binder
+	 * created when the manager has none.
+	 * - `defaultDirectory {string} default='~/Binders'`: the data directory
+	 * of that binder.
+	 * - `trashAge {number} default=0`: the number of days that a removed
+	 * binder is kept in the manager trash.  Older binders are purged when the
+	 * manager is created.  Set to 0 to keep them until the trash is emptied.
 	 */
 	constructor(baseDirectory: string, opts?: BinderManagerOpts) {
 		super();
@@ -87,6 +121,10 @@ export class BinderManager extends EventEmitter {
 
 		this.log.info('Initializing the binder manager instance.');
 		this.load();
+
+		if (this._opts.trashAge > 0) {
+			this.emptyTrash({olderThan: this._opts.trashAge});
+		}
 		this.emit('loaded', this);
 	}
 
@@ -98,6 +136,10 @@ export class BinderManager extends EventEmitter {
 		return this._bindersDirectory;
 	}
 
+	get defaultDirectory(): string {
+		return this._opts.defaultDirectory;
+	}
+
 	get trashDirectory(): string {
 		return this._trashDirectory;
 	}
@@ -122,7 +164,7 @@ export class BinderManager extends EventEmitter {
 					root: binderDirectory
 				});
 				this.log.debug(`Adding binder '${adb.binderName}' to manager`);
-				this._binders[binderName] = adb;
+				this.register(adb);
 			} catch (err) {
 				this.log.error(err.message);
 				return failure;
@@ -135,16 +177,79 @@ export class BinderManager extends EventEmitter {
 		return success;
 	}
 
+	/**
+	 * Copies an artifact, a notebook or a whole section from one binder to
+	 * another (see `Binder.copy()`).  The contents and the meta data (tags,
+	 * layout, dates and attachments) of each artifact are copied.  When the
+	 * destination already exists, then a timestamp is appended to its name
+	 * (see `Artifact.makeUnique()`).
+	 *
+	 * The thenable resolves to the new artifact, notebook or section in the
+	 * destination binder.
+	 *
+	 * @param srcBinder {string} the name of the binder to copy from
+	 * @param search {ArtifactSearch} the section/notebook/filename to copy
+	 * @param dstBinder {string} the name of the binder to copy to
+	 * @param [dstSearch] {ArtifactSearch} the location in the destination
+	 * binder.  It must be the same type (section, notebook or artifact) as
+	 * the source.  It defaults to the location of the source.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public copy(srcBinder: string, search: ArtifactSearch, dstBinder: string, dstSearch: ArtifactSearch = null) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			const src: Binder = this._binders[srcBinder];
+			const dst: Binder = this._binders[dstBinder];
+
+			if (src == null) {
+				reject(`Binder '${srcBinder}' not found in manager`);
+				return;
+			}
+
+			if (dst == null) {
+				reject(`Binder '${dstBinder}' not found in manager`);
+				return;
+			}
+
+			src.copy(search, dstSearch || search, dst)
+				.then((artifact: Artifact) => {
+					this.log.info(`Copied ${srcBinder}:${Artifact.factory('fields', search).path()} to ${dstBinder}:${artifact.path()}`);
+					resolve(artifact);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
 	/**
 	 * Permanently removes the contents of the `Trash` directory.  This directory
 	 * is filled by the `remove()`.
+	 * @param [opts] {ManagerTrashOpts} selects the binders to remove
+	 *
+	 * - `binderName {string}`: only the removed binders with this name are
+	 * removed.
+	 * - `olderThan {number}`: only the binders removed more than this many
+	 * days ago are removed.
+	 *
 	 * @returns {string[]} an array containing the directories that were removed.
 	 */
 	@autobind
-	public emptyTrash(): string[] {
-		const dirs: string[] = getDirectories(this.trashDirectory).map((directory: string) => {
-			return join(this.trashDirectory, directory);
-		});
+	public emptyTrash(opts: ManagerTrashOpts = {}): string[] {
+		// A removed binder is named by its name and a timestamp, so the
+		// name must match exactly (`work` doesn't select `work-old`).
+		const reName: RegExp = (opts.binderName == null) ? null : new RegExp(`^${_.escapeRegExp(opts.binderName)}-\\d+$`);
+		const dirs: string[] = getDirectories(this.trashDirectory)
+			.filter((directory: string) => {
+				return reName == null || reName.test(directory);
+			})
+			.map((directory: string) => {
+				return join(this.trashDirectory, directory);
+			})
+			.filter((directory: string) => {
+				return opts.olderThan == null ||
+					fs.statSync(directory).mtime.getTime() <= Date.now() - (opts.olderThan * msPerDay);
+			});
 
 		dirs.forEach((directory: string) => {
 			rimraf.sync(directory);
@@ -153,6 +258,41 @@ export class BinderManager extends EventEmitter {
 		return dirs;
 	}
 
+	/**
+	 * Writes a binder to a single archive file that can be moved to another
+	 * machine and read with `importBinder()`.  The binder is saved first.
+	 * The archive holds the configuration, the meta data, the search index,
+	 * the revision history and every section, notebook and artifact
+	 * (including the trash).
+	 *
+	 * The thenable resolves to the name of the archive file.
+	 *
+	 * @param binderName {string} the name of the binder to export
+	 * @param filename {string} the archive file to write
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public exportBinder(binderName: string, filename: string) {
+		return new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+			const adb: Binder = this._binders[binderName];
+
+			if (adb == null) {
+				reject(`Binder '${binderName}' not found in manager`);
+				return;
+			}
+
+			adb.save()
+				.then(() => {
+					writeArchive(filename, packBinder(adb.config));
+					this.log.info(`Exported binder '${binderName}' to ${filename}`);
+					resolve(filename);
+				})
+				.catch((err: any) => {
+					reject((err instanceof Error) ? err.message : err);
+				});
+		});
+	}
+
 	/**
 	 * Retrieves a Binder instance from the manager by name.
 	 * @param binderName {string} The name of the binder to find.
@@ -180,6 +320,80 @@ export class BinderManager extends EventEmitter {
 		return true;
 	}
 
+	/**
+	 * Creates a binder from an archive file written by `exportBinder()`.
+	 * The locations in the configuration of the archived binder are
+	 * changed to the new name and directory, so the binder can be used
+	 * right away on this machine.
+	 *
+	 * The thenable resolves to the new Binder instance.
+	 *
+	 * @param filename {string} the archive file to read
+	 * @param [binderName] {string} the name of the new binder.  It defaults
+	 * to the name of the binder in the archive.
+	 * @param [binderDirectory] {string} the location of the data files for
+	 * the new binder.  It defaults to the default directory of the manager.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public importBinder(filename: string, binderName: string = null, binderDirectory: string = null) {
+		return new Promise((resolve: PromiseFn<Binder>, reject: PromiseFn<string>) => {
+			let archive: BinderArchive = null;
+
+			try {
+				archive = readArchive(filename);
+			} catch (err) {
+				reject(err.message);
+				return;
+			}
+
+			binderName = binderName || archive.binderName;
+			binderDirectory = binderDirectory || this._opts.defaultDirectory;
+
+			if (!new RegExp(`^[${validNameChars}]+$`).test(binderName) || ['.', '..', 'Trash'].includes(binderName)) {
+				reject(`Invalid binder name '${binderName}'.  Can only use '${validNameChars}'.`);
+				return;
+			}
+
+			const configRoot = join(this.bindersDirectory, binderName);
+			if (fs.existsSync(configRoot)) {
+				reject(`Binder '${binderName}' already exists, will not import`);
+				return;
+			}
+
+			const config = relocateConfig(archive.config, {
+				binderName: binderName,
+				configRoot: configRoot,
+				root: binderDirectory
+			});
+
+			if (fs.existsSync(config.dbdir) && fs.readdirSync(config.dbdir).length > 0) {
+				reject(`The directory '${config.dbdir}' is not empty, will not import`);
+				return;
+			}
+
+			this.log.info(`Importing binder '${binderName}' from ${filename} to ${binderDirectory}`);
+
+			try {
+				unpackDirectory(config.dbdir, archive.data);
+				unpackDirectory(configRoot, archive.settings);
+				fs.writeFileSync(config.configFile, JSON.stringify(config, null, '\t'));
+
+				const adb: Binder = new Binder({
+					configRoot: configRoot
+				});
+				this.register(adb);
+
+				resolve(adb);
+			} catch (err) {
+				this.log.error(err.message);
+				rimraf.sync(configRoot);
+				rimraf.sync(config.dbdir);
+				reject(err.message);
+			}
+		});
+	}
+
 	/**
 	 * Retrieves information about each of the binders under control of the manager
 	 * @returns {string} a string representing each of the binders in the manager
@@ -212,10 +426,46 @@ export class BinderManager extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Moves an artifact, a notebook or a whole section from one binder to
+	 * another.  It is copied (see `copy()`) and then removed from the
+	 * source binder.
+	 *
+	 * The thenable resolves to the new artifact, notebook or section in the
+	 * destination binder.
+	 *
+	 * @param srcBinder {string} the name of the binder to move from
+	 * @param search {ArtifactSearch} the section/notebook/filename to move
+	 * @param dstBinder {string} the name of the binder to move to
+	 * @param [dstSearch] {ArtifactSearch} the location in the destination
+	 * binder.  It defaults to the location of the source.
+	 * @returns {Promise} a javascript promise object
+	 */
+	@autobind
+	public move(srcBinder: string, search: ArtifactSearch, dstBinder: string, dstSearch: ArtifactSearch = null) {
+		return new Promise((resolve: PromiseFn<Artifact>, reject: PromiseFn<string>) => {
+			let target: Artifact = null;
+
+			this.copy(srcBinder, search, dstBinder, dstSearch)
+				.then((artifact: Artifact) => {
+					target = artifact;
+					return this._binders[srcBinder].remove(search);
+				})
+				.then(() => {
+					this.log.info(`Moved ${srcBinder}:${Artifact.factory('fields', search).path()} to ${dstBinder}:${target.path()}`);
+					resolve(target);
+				})
+				.catch((err: string) => {
+					reject(err);
+				});
+		});
+	}
+
 	/**
 	 * Moves the given binder name to the Trash directory.  A timestamp is added
-	 * to the name of the moved binder.  If the binder doean't exist, then a warning
-	 * message is written to the manager log file.
+	 * to the name of the moved binder and the modification time of its
+	 * directory is set to the time it was removed.  If the binder doean't
+	 * exist, then a warning message is written to the manager log file.
 	 * @param binderName {string} the name of the binder that will be moved
 	 * @return {string} the path to the newly removed item (to the trash)
 	 */
@@ -224,7 +474,9 @@ export class BinderManager extends EventEmitter {
 		const src: string = join(this.bindersDirectory, binderName);
 		const dst: string = join(this.bindersDirectory, 'Trash', `${binderName}-${ts()}`);
 		if (fs.existsSync(src)) {
+			const now: Date = new Date();
 			fs.moveSync(src, dst);
+			fs.utimesSync(dst, now, now);
 		} else {
 			this.log.warn(`${binderName} doesn't exist to remove`);
 			return '';
@@ -273,8 +525,33 @@ export class BinderManager extends EventEmitter {
 					configRoot: join(this.bindersDirectory, directory)
 				});
 				this.log.debug(`Loading binder '${adb.binderName}' into manager`);
-				this._binders[adb.binderName] = adb;
+				this.register(adb);
 			});
 		}
 	}
+
+	/**
+	 * Saves a binder instance in the manager and forwards its events to the
+	 * listeners of the manager.  Each forwarded event is given the name of
+	 * the binder as its first parameter.
+	 * @param adb {Binder} the binder instance to manage
+	 * @private
+	 */
+	@autobind
+	private register(adb: Binder) {
+		const binderName: string = adb.binderName;
+
+		// The binder's loaded event has already happened, and the manager
+		// emits its own loaded event.
+		for (const key of Object.keys(Events) as Array<keyof BinderEvents>) {
+			const event: string = Events[key];
+			if (event !== Events.binderLoaded) {
+				adb.on(event, (...args: any[]) => {
+					this.emit(event, binderName, ...args);
+				});
+			}
+		}
+
+		this._binders[binderName] = adb;
+	}
 }
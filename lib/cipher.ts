@@ -0,0 +1,244 @@
+/**
+ * This module contains the code used to encrypt the files of a binder.
+ * The key is derived from a passphrase with PBKDF2, and each file is
+ * encrypted with AES-256-GCM so that changes to it are detected when it
+ * is read.
+ *
+ */
+
+'use strict';
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+
+export interface CipherConfig {
+	salt: string;
+	iterations: number;
+	check: string;
+}
+
+export const defIterations: number = 100000;
+
+// Every encrypted file starts with this marker.  It is followed by the
+// initialization vector, the authentication tag and the cipher text.
+const magic: Buffer = Buffer.from('NDBX1');
+const algorithm: string = 'aes-256-gcm';
+const digest: string = 'sha512';
+const ivSize: number = 12;
+const keySize: number = 32;
+const saltSize: number = 16;
+const tagSize: number = 16;
+
+// A known value that is encrypted with the key when it is created.  It is
+// used to check a passphrase without decrypting any binder files.
+const checkValue: string = 'notesdb';
+
+/** The number of bytes an encrypted file adds to its contents. */
+export const cipherOverhead: number = magic.length + ivSize + tagSize;
+
+/**
+ * Checks if the contents of a file were written by a Cipher.
+ * @param data {Buffer} the contents of a file
+ * @returns {boolean} true if the data is encrypted, otherwise false.
+ */
+export function isEncrypted(data: Buffer): boolean {
+	return data != null && data.length >= cipherOverhead && data.slice(0, magic.length).equals(magic);
+}
+
+/**
+ * Encrypts the contents of a file when a cipher is given.
+ * @param data {string|Buffer} the contents to write
+ * @param [cipher] {Cipher} the cipher used to encrypt the data.  When it
+ * is null the data is returned as it is.
+ * @returns {string|Buffer} the data to write to the file
+ */
+export function encode(data: string | Buffer, cipher: Cipher = null): string | Buffer {
+	return (cipher != null) ? cipher.encrypt(data) : data;
+}
+
+/**
+ * Converts the contents of a file to a string.  Encrypted contents are
+ * decrypted with the given cipher.  When there is no cipher the contents
+ * must not be encrypted and are returned as they are.  This is how the
+ * plain files of a binder are read when it is first encrypted.
+ * @param data {Buffer} the contents of the file
+ * @param [cipher] {Cipher} the cipher used to decrypt the data
+ * @returns {string} the contents of the file
+ * @throws {Error} when the data is encrypted and there is no cipher, when
+ * there is a cipher and the data is not encrypted, or when the data can't
+ * be decrypted.
+ */
+export function decode(data: Buffer, cipher: Cipher = null): string {
+	return decodeBuffer(data, cipher).toString();
+}
+
+/**
+ * Decrypts the contents of a file that may not be text (see `decode()`).
+ * @param data {Buffer} the contents of the file
+ * @param [cipher] {Cipher} the cipher used to decrypt the data
+ * @returns {Buffer} the contents of the file
+ * @throws {Error} when the data is encrypted and there is no cipher, when
+ * there is a cipher and the data is not encrypted, or when the data can't
+ * be decrypted.
+ */
+export function decodeBuffer(data: Buffer, cipher: Cipher = null): Buffer {
+	if (isEncrypted(data)) {
+		if (cipher == null) {
+			throw new Error('The contents are encrypted and no key is available');
+		}
+
+		return cipher.decryptBuffer(data);
+	}
+
+	// Plain contents in an encrypted location could have been put there
+	// to be read as if they were trusted, so they are refused.
+	if (cipher != null) {
+		throw new Error('The contents are not encrypted');
+	}
+
+	return data;
+}
+
+/**
+ * Reads a file that may be encrypted (see `decode()`).
+ * @param filename {string} the file to read
+ * @param [cipher] {Cipher} the cipher used to decrypt the file
+ * @returns {string} the contents of the file
+ */
+export function readSecureFile(filename: string, cipher: Cipher = null): string {
+	return decode(fs.readFileSync(filename), cipher);
+}
+
+/**
+ * Encrypts and decrypts data with a key derived from a passphrase.  The
+ * passphrase is never kept.  The salt, the number of iterations and a
+ * check value are kept in the `config` so that the same key can be
+ * derived again with `Cipher.open()`.
+ */
+export class Cipher {
+
+	/**
+	 * Creates a cipher with a new random salt.
+	 * @param passphrase {string} the passphrase used to derive the key
+	 * @param [iterations] {number} the number of PBKDF2 iterations
+	 * @returns {Cipher} a new cipher instance
+	 * @throws {Error} when the passphrase is empty.
+	 */
+	public static create(passphrase: string, iterations: number = defIterations): Cipher {
+		const config: CipherConfig = {
+			salt: crypto.randomBytes(saltSize).toString('hex'),
+			iterations: iterations,
+			check: ''
+		};
+
+		const cipher = new Cipher(Cipher.deriveKey(passphrase, config), config);
+		config.check = cipher.encrypt(checkValue).toString('base64');
+
+		return cipher;
+	}
+
+	/**
+	 * Creates a cipher for an existing configuration.
+	 * @param config {CipherConfig} the configuration from `Cipher.create()`
+	 * @param passphrase {string} the passphrase used to derive the key
+	 * @returns {Cipher} a new cipher instance
+	 * @throws {Error} when the passphrase doesn't match the configuration.
+	 */
+	public static open(config: CipherConfig, passphrase: string): Cipher {
+		const cipher = new Cipher(Cipher.deriveKey(passphrase, config), config);
+
+		try {
+			if (cipher.decrypt(Buffer.from(config.check, 'base64')) === checkValue) {
+				return cipher;
+			}
+		} catch (err) {
+			// a wrong key fails the authentication check
+		}
+
+		throw new Error('Invalid passphrase');
+	}
+
+	/**
+	 * Computes the key for a passphrase.
+	 * @param passphrase {string} the passphrase used to derive the key
+	 * @param config {CipherConfig} the salt and number of iterations
+	 * @returns {Buffer} the key
+	 * @throws {Error} when the passphrase is empty.
+	 * @private
+	 */
+	private static deriveKey(passphrase: string, config: CipherConfig): Buffer {
+		if (passphrase == null || passphrase === '') {
+			throw new Error('A passphrase is required');
+		}
+
+		return crypto.pbkdf2Sync(passphrase, Buffer.from(config.salt, 'hex'), config.iterations, keySize, digest);
+	}
+
+	private _config: CipherConfig;
+	private _key: Buffer;
+
+	/**
+	 * The constructor is private.  Objects must be created with the
+	 * `create()` or `open()` functions.
+	 * @param key {Buffer} the derived key
+	 * @param config {CipherConfig} the configuration of the key
+	 * @private
+	 */
+	private constructor(key: Buffer, config: CipherConfig) {
+		this._key = key;
+		this._config = config;
+	}
+
+	/**
+	 * Decrypts data written by `encrypt()`.
+	 * @param data {Buffer} the encrypted data
+	 * @returns {string} the decrypted contents
+	 * @throws {Error} when the data isn't encrypted, was encrypted with a
+	 * different key, or was changed.
+	 */
+	public decrypt(data: Buffer): string {
+		return this.decryptBuffer(data).toString();
+	}
+
+	/**
+	 * Decrypts data written by `encrypt()` without converting it to a
+	 * string, so binary contents are kept.
+	 * @param data {Buffer} the encrypted data
+	 * @returns {Buffer} the decrypted contents
+	 * @throws {Error} when the data isn't encrypted, was encrypted with a
+	 * different key, or was changed.
+	 */
+	public decryptBuffer(data: Buffer): Buffer {
+		if (!isEncrypted(data)) {
+			throw new Error('The contents are not encrypted');
+		}
+
+		const iv = data.slice(magic.length, magic.length + ivSize);
+		const tag = data.slice(magic.length + ivSize, cipherOverhead);
+		const decipher = crypto.createDecipheriv(algorithm, this._key, iv);
+
+		decipher.setAuthTag(tag);
+		return Buffer.concat([decipher.update(data.slice(cipherOverhead)), decipher.final()]);
+	}
+
+	/**
+	 * Encrypts a string with a new random initialization vector.
+	 * @param data {string|Buffer} the contents to encrypt
+	 * @returns {Buffer} the encrypted data
+	 */
+	public encrypt(data: string | Buffer): Buffer {
+		const iv = crypto.randomBytes(ivSize);
+		const cipher = crypto.createCipheriv(algorithm, this._key, iv);
+		const encrypted = Buffer.concat([cipher.update((data instanceof Buffer) ? data : Buffer.from(data || '')), cipher.final()]);
+
+		return Buffer.concat([magic, iv, cipher.getAuthTag(), encrypted]);
+	}
+
+	//
+	// Properties
+	//
+
+	get config(): CipherConfig {
+		return this._config;
+	}
+}
@@ -0,0 +1,555 @@
+/**
+ * This module contains the `notesdb` command line interface.  It is built
+ * on the BinderManager and the Binder.  Artifacts are given as treeitem
+ * paths (`{section}/{notebook}/{filename}`), e.g.
+ *
+ *     notesdb --binder work add Work/Meetings/2018-05-01.md --content "notes"
+ *     notesdb --binder work --json find budget
+ *
+ */
+
+'use strict';
+
+import * as child_process from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import {home} from 'util.home';
+import {join} from 'util.join';
+import {PromiseFn} from 'util.promise';
+import {failure} from 'util.toolbox';
+import {Artifact, ArtifactSearch} from './artifact';
+import {Binder, NotebookDetails} from './binder';
+import {BinderManager} from './bindermanager';
+import {artifactInfo} from './server';
+
+export interface CliOpts {
+	base?: string;
+	binder?: string;
+	content?: string;
+	directory?: string;
+	help?: boolean;
+	json?: boolean;
+}
+
+export interface CliArgs {
+	command: string;
+	args: string[];
+	opts: CliOpts;
+}
+
+interface CommandContext {
+	manager: BinderManager;
+	adb: Binder;
+	args: string[];
+	opts: CliOpts;
+	env: any;
+}
+
+interface Command {
+	usage: string;
+	description: string;
+	binder: boolean;
+	run: (ctx: CommandContext) => Promise<any>;
+	text: (data: any) => string;
+}
+
+// Options that are followed by a value
+const valueOpts: {[key: string]: 'base' | 'binder' | 'content' | 'directory'} = {
+	'--base': 'base',
+	'--binder': 'binder',
+	'--content': 'content',
+	'--directory': 'directory',
+	'-b': 'binder'
+};
+
+// Options that are switched on by their name
+const flagOpts: {[key: string]: 'help' | 'json'} = {
+	'--help': 'help',
+	'--json': 'json',
+	'-h': 'help'
+};
+
+const commands: {[key: string]: Command} = {
+	'add': {
+		usage: 'add <treeitem>',
+		description: 'creates an artifact.  The contents are read from --content or stdin',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			const search = treeitem(ctx.args[0], true);
+
+			if (ctx.adb.hasArtifact(search)) {
+				return Promise.reject(`Artifact '${ctx.args[0]}' already exists`);
+			}
+
+			return ctx.adb.add(search)
+				.then((artifact: Artifact) => {
+					if (ctx.opts.content != null) {
+						artifact.buf = ctx.opts.content;
+					}
+
+					return ctx.adb.saveArtifact(artifact);
+				})
+				.then((artifact: Artifact) => artifactInfo(artifact));
+		},
+		text: (data: any) => `Added ${data.path}`
+	},
+
+	'binders': {
+		usage: 'binders',
+		description: 'lists the binders in the manager',
+		binder: false,
+		run: (ctx: CommandContext) => Promise.resolve(ctx.manager.list().sort()),
+		text: (data: string[]) => data.join('\n')
+	},
+
+	'cat': {
+		usage: 'cat <treeitem>',
+		description: 'writes the contents of an artifact',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			return ctx.adb.get(treeitem(ctx.args[0], true))
+				.then((artifact: Artifact) => artifactInfo(artifact, true));
+		},
+		text: (data: any) => data.content.replace(/\n$/, '')
+	},
+
+	'create': {
+		usage: 'create <name> [directory]',
+		description: 'creates a new binder',
+		binder: false,
+		run: (ctx: CommandContext) => {
+			const name: string = required(ctx.args[0], 'A binder name is required');
+
+			if (ctx.manager.hasBinder(name)) {
+				return Promise.reject(`Binder '${name}' already exists`);
+			}
+
+			if (ctx.manager.add(name, ctx.args[1] || ctx.manager.defaultDirectory) === failure) {
+				return Promise.reject(`Invalid binder '${name}'`);
+			}
+
+			return Promise.resolve({name: name, config: ctx.manager.get(name).config});
+		},
+		text: (data: any) => `Created binder '${data.name}' in ${data.config.dbdir}`
+	},
+
+	'edit': {
+		usage: 'edit <treeitem>',
+		description: 'changes an artifact with $EDITOR, or replaces it with --content or stdin',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			return ctx.adb.get(treeitem(ctx.args[0], true))
+				.then((artifact: Artifact) => {
+					const content: string = (ctx.opts.content != null)
+						? ctx.opts.content
+						: editText(artifact, ctx.env.VISUAL || ctx.env.EDITOR || 'vi');
+
+					if (content !== artifact.buf) {
+						artifact.buf = content;
+					}
+
+					return ctx.adb.saveArtifact(artifact);
+				})
+				.then((artifact: Artifact) => artifactInfo(artifact));
+		},
+		text: (data: any) => `Saved ${data.path}`
+	},
+
+	'empty-trash': {
+		usage: 'empty-trash',
+		description: 'permanently removes the contents of the binder trash',
+		binder: true,
+		run: (ctx: CommandContext) => ctx.adb.emptyTrash().then(() => ({binder: ctx.adb.binderName})),
+		text: (data: any) => `Emptied the trash of binder '${data.binder}'`
+	},
+
+	'find': {
+		usage: 'find <text>',
+		description: 'lists the artifacts that contain the text',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			return ctx.adb.find(required(ctx.args.join(' '), 'A search string is required'))
+				.then((artifacts: Artifact[]) => artifacts.map((it: Artifact) => artifactInfo(it)));
+		},
+		text: (data: any[]) => data.map((it: any) => it.path).join('\n')
+	},
+
+	'notebooks': {
+		usage: 'notebooks <section>',
+		description: 'lists the notebooks of a section and their artifact counts',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			const section: string = required(ctx.args[0], 'A section is required');
+
+			if (!ctx.adb.hasSection({section})) {
+				return Promise.reject(`Section '${section}' not found in binder.`);
+			}
+
+			return Promise.resolve(ctx.adb.notebooks(section)
+				.sort((a: NotebookDetails, b: NotebookDetails) => a.name.localeCompare(b.name)));
+		},
+		text: (data: NotebookDetails[]) => data.map((it: NotebookDetails) => `${it.name} (${it.count})`).join('\n')
+	},
+
+	'remove': {
+		usage: 'remove <name>',
+		description: 'moves a binder to the manager trash',
+		binder: false,
+		run: (ctx: CommandContext) => {
+			const name: string = required(ctx.args[0], 'A binder name is required');
+			const adb: Binder = ctx.manager.get(name);
+
+			if (adb == null) {
+				return Promise.reject(`Binder '${name}' not found in manager`);
+			}
+
+			// The binder is saved and stopped before its directory is moved
+			return adb.shutdown()
+				.then(() => ({name: name, path: ctx.manager.remove(name)}));
+		},
+		text: (data: any) => `Removed binder '${data.name}' to ${data.path}`
+	},
+
+	'rename': {
+		usage: 'rename <treeitem> <treeitem>',
+		description: 'renames (moves) an artifact',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			return ctx.adb.rename(treeitem(ctx.args[0], true), treeitem(ctx.args[1], true))
+				.then((artifact: Artifact) => artifactInfo(artifact));
+		},
+		text: (data: any) => `Renamed to ${data.path}`
+	},
+
+	'restore': {
+		usage: 'restore <treeitem>',
+		description: 'restores a section, notebook or artifact from the trash',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			return ctx.adb.restore(treeitem(ctx.args[0]))
+				.then((artifact: Artifact) => artifactInfo(artifact));
+		},
+		text: (data: any) => `Restored ${data.path}`
+	},
+
+	'sections': {
+		usage: 'sections',
+		description: 'lists the sections of the binder',
+		binder: true,
+		run: (ctx: CommandContext) => Promise.resolve(ctx.adb.sections().sort()),
+		text: (data: string[]) => data.join('\n')
+	},
+
+	'trash': {
+		usage: 'trash <treeitem>',
+		description: 'moves a section, notebook or artifact to the trash',
+		binder: true,
+		run: (ctx: CommandContext) => {
+			return ctx.adb.trash(treeitem(ctx.args[0]))
+				.then((artifact: Artifact) => artifactInfo(artifact));
+		},
+		text: (data: any) => `Trashed ${data.path}`
+	}
+};
+
+/**
+ * Builds the help text for the command line.
+ * @returns {string} the usage of each command and option
+ */
+export function help(): string {
+	const width: number = Math.max(...Object.keys(commands).map((key: string) => commands[key].usage.length));
+	const l: string[] = [
+		'Usage: notesdb [options] <command> [args]',
+		'',
+		'Commands:'
+	];
+
+	for (const key of Object.keys(commands)) {
+		const usage: string = commands[key].usage;
+		l.push(`  ${usage}${' '.repeat(width - usage.length)}  ${commands[key].description}`);
+	}
+
+	l.push(
+		'',
+		'Options:',
+		'  --base <dir>        the manager configuration directory (default ~/.notesdb)',
+		'  -b, --binder <name> the binder to use (default "default")',
+		'  --content <text>    the contents for add and edit',
+		'  --directory <dir>   the default directory for new binders (default ~/Binders)',
+		'  --json              writes the results as JSON',
+		'  -h, --help          shows this message',
+		'',
+		'The NOTESDB_BASE and NOTESDB_BINDER environment variables are used when',
+		'--base and --binder are not given.'
+	);
+
+	return l.join('\n');
+}
+
+/**
+ * Runs the command line from the `notesdb` script.  The output is written
+ * to stdout and errors to stderr.  When the contents for `add` or `edit`
+ * are piped to the script they are read from stdin.
+ * @param argv {string[]} the command line arguments (without node and the
+ * script name).
+ */
+export function main(argv: string[]) {
+	let input: Promise<string> = Promise.resolve(null);
+
+	try {
+		const parsed = parseArgs(argv);
+		if (['add', 'edit'].includes(parsed.command) && parsed.opts.content == null && !process.stdin.isTTY) {
+			input = readStream(process.stdin);
+		}
+	} catch (err) {
+		// reported by run()
+	}
+
+	input
+		.then((content: string) => run(argv, process.env, content))
+		.then((output: string) => {
+			if (output !== '') {
+				console.log(output);
+			}
+		})
+		.catch((err: string) => {
+			console.error(`notesdb: ${err}`);
+			process.exitCode = 1;
+		});
+}
+
+/**
+ * Splits the command line into the command, its arguments and the options.
+ * Options can be given before or after the command.
+ * @param argv {string[]} the command line arguments
+ * @returns {CliArgs} the parsed command line
+ * @throws {Error} when an option is unknown or is missing its value.
+ */
+export function parseArgs(argv: string[]): CliArgs {
+	const parsed: CliArgs = {
+		command: '',
+		args: [],
+		opts: {}
+	};
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg: string = argv[i];
+
+		if (arg in valueOpts) {
+			if (i + 1 >= argv.length) {
+				throw new Error(`The option ${arg} requires a value`);
+			}
+			parsed.opts[valueOpts[arg]] = argv[++i];
+		} else if (arg in flagOpts) {
+			parsed.opts[flagOpts[arg]] = true;
+		} else if (arg.startsWith('-') && arg !== '-') {
+			throw new Error(`Unknown option ${arg}`);
+		} else if (parsed.command === '') {
+			parsed.command = arg;
+		} else {
+			parsed.args.push(arg);
+		}
+	}
+
+	return parsed;
+}
+
+/**
+ * Runs a single command.  A manager is created for the base directory,
+ * the command is run against it, and every binder is shut down (saved)
+ * before the thenable resolves.
+ *
+ * The thenable resolves to the output of the command.  With the `--json`
+ * option the output is the JSON of the command result.
+ *
+ * @param argv {string[]} the command line arguments
+ * @param [env] {object} the environment variables
+ * @param [input] {string} contents read from stdin for `add` and `edit`.
+ * It is used when the `--content` option is not given.
+ * @returns {Promise} a javascript promise object
+ */
+export function run(argv: string[], env: any = process.env, input: string = null) {
+	return new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+		let parsed: CliArgs = null;
+
+		try {
+			parsed = parseArgs(argv);
+		} catch (err) {
+			reject(`${err.message}\n\n${help()}`);
+			return;
+		}
+
+		if (parsed.opts.help || parsed.command === '' || parsed.command === 'help') {
+			resolve(help());
+			return;
+		}
+
+		const command: Command = commands[parsed.command];
+		if (command == null) {
+			reject(`Unknown command '${parsed.command}'\n\n${help()}`);
+			return;
+		}
+
+		if (parsed.opts.content == null && input != null) {
+			parsed.opts.content = input;
+		}
+
+		let manager: BinderManager = null;
+		let data: any = null;
+
+		try {
+			manager = new BinderManager(parsed.opts.base || env.NOTESDB_BASE || join(home, '.notesdb'), {
+				defaultDirectory: parsed.opts.directory || join(home, 'Binders')
+			});
+		} catch (err) {
+			reject(err.message);
+			return;
+		}
+
+		const binderName: string = parsed.opts.binder || env.NOTESDB_BINDER || 'default';
+		const ctx: CommandContext = {
+			manager: manager,
+			adb: manager.get(binderName),
+			args: parsed.args,
+			opts: parsed.opts,
+			env: env
+		};
+
+		Promise.resolve()
+			.then(() => {
+				if (command.binder && ctx.adb == null) {
+					return Promise.reject(`Binder '${binderName}' not found in manager`);
+				}
+
+				return command.run(ctx);
+			})
+			.then((ret: any) => {
+				data = ret;
+				return shutdown(manager);
+			})
+			.then(() => {
+				resolve((parsed.opts.json) ? JSON.stringify(data, null, 2) : command.text(data));
+			})
+			.catch((err: any) => {
+				const message: string = (err instanceof Error) ? err.message : err;
+				shutdown(manager)
+					.then(() => reject(message))
+					.catch(() => reject(message));
+			});
+	});
+}
+
+/**
+ * Lets the user change the contents of an artifact with an editor.  The
+ * contents are written to a temporary file (so an encrypted artifact is
+ * never written to the binder as plain text), the editor is run on it, and
+ * the changed file is read back.
+ * @param artifact {Artifact} the artifact to edit
+ * @param editor {string} the editor command
+ * @returns {string} the new contents of the artifact
+ * @throws {Error} when the editor can't be run or fails.
+ */
+function editText(artifact: Artifact, editor: string): string {
+	const filename: string = join(os.tmpdir(), `notesdb-${process.pid}-${artifact.filename}`);
+
+	fs.writeFileSync(filename, artifact.buf, {mode: 0o600});
+
+	try {
+		const ret = child_process.spawnSync(`${editor} ${JSON.stringify(filename)}`, [], {
+			shell: true,
+			stdio: 'inherit'
+		});
+
+		if (ret.error) {
+			throw ret.error;
+		}
+
+		if (ret.status !== 0) {
+			throw new Error(`The editor '${editor}' failed with status ${ret.status}`);
+		}
+
+		return fs.readFileSync(filename).toString();
+	} finally {
+		fs.removeSync(filename);
+	}
+}
+
+/**
+ * Reads all of a stream into a string.
+ * @param stream {NodeJS.ReadableStream} the stream to read
+ * @returns {Promise} a javascript promise object that resolves to the
+ * contents of the stream.
+ */
+function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+	return new Promise((resolve: PromiseFn<string>, reject: PromiseFn<string>) => {
+		const chunks: Buffer[] = [];
+
+		stream.on('data', (chunk: Buffer) => {
+			chunks.push(chunk);
+		});
+
+		stream.on('end', () => {
+			resolve(Buffer.concat(chunks).toString());
+		});
+
+		stream.on('error', (err: Error) => {
+			reject(err.message);
+		});
+	});
+}
+
+/**
+ * Checks that a command argument was given.
+ * @param value {string} the argument
+ * @param message {string} the error when it is missing
+ * @returns {string} the argument
+ * @throws {Error} when the argument is missing.
+ */
+function required(value: string, message: string): string {
+	if (value == null || value === '') {
+		throw new Error(message);
+	}
+
+	return value;
+}
+
+/**
+ * Saves and stops every binder in the manager so the process can exit.
+ * @param manager {BinderManager} the manager to stop
+ * @returns {Promise} a javascript promise object
+ */
+function shutdown(manager: BinderManager) {
+	return Promise.all(manager.list()
+		.map((binderName: string) => manager.get(binderName))
+		.filter((adb: Binder) => adb != null)
+		.map((adb: Binder) => adb.shutdown()));
+}
+
+/**
+ * Parses a treeitem path (`{section}/{notebook}/{filename}`) with
+ * `Artifact.factory('treeitem')`.  Only the parts that are given are kept,
+ * so `Work` is a section and `Work/Meetings` is a notebook.
+ * @param item {string} the treeitem path
+ * @param [artifact] {boolean} when true the path must name an artifact
+ * @returns {ArtifactSearch} the section, notebook and filename
+ * @throws {Error} when the path is missing or doesn't name an artifact.
+ */
+function treeitem(item: string, artifact: boolean = false): ArtifactSearch {
+	const parts: string[] = required(item, 'A treeitem path is required').split(/\/|\\/).filter((it: string) => it !== '');
+	const parsed: Artifact = Artifact.factory('treeitem', {treeitem: parts.join('/')});
+	const search: ArtifactSearch = {section: parsed.section};
+
+	if (parts.length > 3 || (artifact && parts.length !== 3)) {
+		throw new Error(`Invalid treeitem '${item}', expected {section}/{notebook}/{filename}`);
+	}
+
+	if (parts.length > 1) {
+		search.notebook = parsed.notebook;
+	}
+
+	if (parts.length > 2) {
+		search.filename = parsed.filename;
+	}
+
+	return search;
+}
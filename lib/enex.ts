@@ -0,0 +1,405 @@
+/**
+ * This module contains the code to read an Evernote export (.enex) file.
+ * An export is an XML file with a `<note>` element for each note.  The
+ * content of a note is ENML (a subset of XHTML) that is converted to
+ * markdown.
+ *
+ */
+
+'use strict';
+
+import {Artifact} from './artifact';
+
+export interface XmlNode {
+	name: string;
+	attrs: {[key: string]: string};
+	children: Array<XmlNode | string>;
+}
+
+export interface EnexNote {
+	title: string;
+	content: string;
+	created: Date;
+	updated: Date;
+	tags: string[];
+}
+
+export interface EnexSkip {
+	title: string;
+	reason: string;
+}
+
+export interface EnexData {
+	notes: EnexNote[];
+	skipped: EnexSkip[];
+}
+
+export interface EnexImportOpts {
+	section?: string;
+	notebook?: string;
+}
+
+export interface EnexImportResult {
+	artifacts: Artifact[];
+	skipped: EnexSkip[];
+}
+
+const entities: {[key: string]: string} = {
+	amp: '&',
+	apos: '\'',
+	gt: '>',
+	lt: '<',
+	nbsp: ' ',
+	quot: '"'
+};
+
+const reEntity: RegExp = /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g;
+const reTag: RegExp = /<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const reAttr: RegExp = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const reEnexDate: RegExp = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/;
+
+// Marks the start of a line that only needs a line break when it doesn't
+// follow one already.  Evernote writes each line of a note as a div.
+const lineStart: string = '\u0000';
+
+const blocks: string[] = ['blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'ol', 'p', 'pre', 'table', 'ul'];
+
+/**
+ * Replaces the XML/HTML character entities in a string with the characters
+ * they represent.  Unknown entities are left as they are.
+ * @param s {string} the string to decode
+ * @returns {string} the decoded string
+ */
+export function decodeEntities(s: string): string {
+	return (s || '').replace(reEntity, (entity: string, code: string) => {
+		if (code.startsWith('#x')) {
+			return String.fromCodePoint(parseInt(code.slice(2), 16));
+		} else if (code.startsWith('#')) {
+			return String.fromCodePoint(parseInt(code.slice(1), 10));
+		}
+
+		return entities.hasOwnProperty(code) ? entities[code] : entity;
+	});
+}
+
+/**
+ * Reads an XML string into a tree of nodes.  This is a small parser for
+ * well formed documents like ENEX and ENML.  The declaration, doctype and
+ * comments are skipped.  CDATA sections become text.
+ * @param text {string} the XML string to parse
+ * @returns {XmlNode} a `#document` node that holds the top level elements
+ * @throws {Error} when the tags in the document don't match.
+ */
+export function parseXml(text: string): XmlNode {
+	const root: XmlNode = {name: '#document', attrs: {}, children: []};
+	const stack: XmlNode[] = [root];
+	let pos: number = 0;
+
+	const skipTo = (marker: string) => {
+		const end = text.indexOf(marker, pos);
+		if (end === -1) {
+			throw new Error(`Missing '${marker}' in XML at offset ${pos}`);
+		}
+		return end;
+	};
+
+	text = text || '';
+	while (pos < text.length) {
+		const current = stack[stack.length - 1];
+
+		if (text.startsWith('<!--', pos)) {
+			pos = skipTo('-->') + 3;
+		} else if (text.startsWith('<![CDATA[', pos)) {
+			const end = skipTo(']]>');
+			current.children.push(text.slice(pos + 9, end));
+			pos = end + 3;
+		} else if (text.startsWith('<?', pos)) {
+			pos = skipTo('?>') + 2;
+		} else if (text.startsWith('<!', pos)) {
+			pos = skipTo('>') + 1;
+		} else if (text.startsWith('</', pos)) {
+			const end = skipTo('>');
+			const name = text.slice(pos + 2, end).trim();
+
+			if (name !== current.name) {
+				throw new Error(`Mismatched closing tag '${name}' for '${current.name}' in XML at offset ${pos}`);
+			}
+
+			stack.pop();
+			pos = end + 1;
+		} else if (text[pos] === '<') {
+			reTag.lastIndex = pos;
+			const match = reTag.exec(text);
+			if (match == null) {
+				throw new Error(`Invalid tag in XML at offset ${pos}`);
+			}
+
+			const node: XmlNode = {name: match[1], attrs: {}, children: []};
+
+			reAttr.lastIndex = 0;
+			let attr = reAttr.exec(match[2]);
+			while (attr != null) {
+				node.attrs[attr[1]] = decodeEntities((attr[2] != null) ? attr[2] : attr[3]);
+				attr = reAttr.exec(match[2]);
+			}
+
+			current.children.push(node);
+			if (match[3] !== '/') {
+				stack.push(node);
+			}
+
+			pos = reTag.lastIndex;
+		} else {
+			let end = text.indexOf('<', pos);
+			if (end === -1) {
+				end = text.length;
+			}
+
+			current.children.push(decodeEntities(text.slice(pos, end)));
+			pos = end;
+		}
+	}
+
+	if (stack.length > 1) {
+		throw new Error(`Missing closing tag for '${stack[stack.length - 1].name}' in XML`);
+	}
+
+	return root;
+}
+
+/**
+ * Retrieves the child elements of a node with the given name.
+ * @param node {XmlNode} the parent node
+ * @param name {string} the name of the elements to find
+ * @returns {XmlNode[]} the matching child elements
+ */
+export function childElements(node: XmlNode, name: string): XmlNode[] {
+	return node.children.filter((it: XmlNode | string) => {
+		return typeof it !== 'string' && it.name === name;
+	}) as XmlNode[];
+}
+
+/**
+ * Retrieves all of the text within a node and its children.
+ * @param node {XmlNode} the node to read
+ * @returns {string} the text of the node
+ */
+export function textContent(node: XmlNode): string {
+	if (node == null) {
+		return '';
+	}
+
+	return node.children
+		.map((it: XmlNode | string) => (typeof it === 'string') ? it : textContent(it))
+		.join('');
+}
+
+/**
+ * Converts an ENEX timestamp (e.g. `20180123T101500Z`) to a Date.
+ * @param s {string} the timestamp to convert
+ * @returns {Date} the date or null if the timestamp is invalid.
+ */
+export function parseEnexDate(s: string): Date {
+	const match = (s || '').trim().match(reEnexDate);
+
+	if (match == null) {
+		return null;
+	}
+
+	const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+	return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+/**
+ * Converts a node of an ENML document to markdown.  Block elements are
+ * separated by blank lines.  A div is a single line, which is how Evernote
+ * writes each line of a note.
+ * @param node {XmlNode|string} the node to convert
+ * @param depth {number} the list nesting level of the node
+ * @param skipped {string[]} a list that collects the names of content that
+ * can't be converted (e.g. attachments).
+ * @returns {string} the markdown for the node
+ * @private
+ */
+function renderEnml(node: XmlNode | string, depth: number, skipped: string[]): string {
+	if (typeof node === 'string') {
+		return node.replace(/\s+/g, ' ');
+	}
+
+	const inner = () => {
+		return (node as XmlNode).children.map((it: XmlNode | string) => renderEnml(it, depth, skipped)).join('');
+	};
+
+	switch (node.name) {
+		case 'br':
+			return '\n';
+
+		case 'hr':
+			return '\n\n---\n\n';
+
+		case 'div':
+			return `${lineStart}${inner().trim()}\n`;
+
+		case 'p':
+			return `\n\n${inner().trim()}\n\n`;
+
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6':
+			return `\n\n${'#'.repeat(Number(node.name[1]))} ${inner().trim()}\n\n`;
+
+		case 'b':
+		case 'strong':
+			return `**${inner()}**`;
+
+		case 'i':
+		case 'em':
+			return `*${inner()}*`;
+
+		case 's':
+		case 'strike':
+		case 'del':
+			return `~~${inner()}~~`;
+
+		case 'code':
+			return `\`${inner()}\``;
+
+		case 'a':
+			return (node.attrs.href) ? `[${inner()}](${node.attrs.href})` : inner();
+
+		case 'img':
+			return `![${node.attrs.alt || ''}](${node.attrs.src || ''})`;
+
+		case 'en-todo':
+			return (node.attrs.checked === 'true') ? '[x] ' : '[ ] ';
+
+		case 'en-media':
+			skipped.push(`attachment (${node.attrs.type || 'unknown type'})`);
+			return '';
+
+		case 'en-crypt':
+			skipped.push('encrypted text');
+			return '';
+
+		case 'pre':
+			return `\n\n\`\`\`\n${textContent(node).replace(/^\n+|\n+$/g, '')}\n\`\`\`\n\n`;
+
+		case 'blockquote':
+			return `\n\n${inner().trim().split('\n').map((it: string) => `> ${it}`.trim()).join('\n')}\n\n`;
+
+		case 'ul':
+		case 'ol': {
+			const items = childElements(node, 'li').map((li: XmlNode, idx: number) => {
+				const bullet = (node as XmlNode).name === 'ol' ? `${idx + 1}.` : '-';
+				const content = li.children
+					.map((it: XmlNode | string) => renderEnml(it, depth + 1, skipped))
+					.join('')
+					.trim()
+					.replace(/\n{2,}/g, '\n');
+
+				return `${'  '.repeat(depth)}${bullet} ${content}`;
+			});
+
+			return `\n\n${items.join('\n')}\n\n`;
+		}
+
+		case 'table': {
+			const rows = node.children
+				.filter((it: XmlNode | string) => typeof it !== 'string')
+				.reduce((acc: XmlNode[], it: XmlNode) => {
+					// rows can be inside of a tbody/thead
+					return acc.concat((it.name === 'tr') ? [it] : childElements(it, 'tr'));
+				}, [])
+				.map((tr: XmlNode) => {
+					const cells = tr.children
+						.filter((it: XmlNode | string) => typeof it !== 'string')
+						.map((it: XmlNode) => renderEnml(it, depth, skipped).trim().replace(/\n+/g, ' '));
+					return `| ${cells.join(' | ')} |`;
+				});
+
+			if (rows.length > 0) {
+				const columns = rows[0].split(' | ').length;
+				rows.splice(1, 0, `|${' --- |'.repeat(columns)}`);
+			}
+
+			return `\n\n${rows.join('\n')}\n\n`;
+		}
+
+		default:
+			return (blocks.indexOf(node.name) !== -1) ? `\n\n${inner().trim()}\n\n` : inner();
+	}
+}
+
+/**
+ * Converts an ENML document to markdown.
+ * @param enml {string} the ENML content of a note
+ * @param [skipped] {string[]} a list that collects the names of content
+ * that can't be converted (e.g. attachments).
+ * @returns {string} the markdown for the note
+ * @throws {Error} when the ENML can't be parsed.
+ */
+export function enmlToMarkdown(enml: string, skipped: string[] = []): string {
+	const doc = parseXml(enml);
+	const markdown = doc.children
+		.map((it: XmlNode | string) => (typeof it === 'string') ? '' : renderEnml(it, 0, skipped))
+		.join('');
+
+	return markdown
+		.replace(/(^|\n)\u0000+/g, '$1')
+		.replace(/\u0000+/g, '\n')
+		.split('\n')
+		.map((it: string) => it.replace(/\s+$/, ''))
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim() + '\n';
+}
+
+/**
+ * Reads the notes from the contents of an Evernote export file.  Notes
+ * that can't be read are not returned.  They are reported in the skipped
+ * list along with attachments and other content that was left out of a
+ * note.
+ * @param text {string} the contents of an .enex file
+ * @returns {EnexData} the notes and the list of skipped items.
+ * @throws {Error} when the file isn't an Evernote export.
+ */
+export function parseEnex(text: string): EnexData {
+	const doc = parseXml(text);
+	const root = childElements(doc, 'en-export')[0];
+	const data: EnexData = {
+		notes: [],
+		skipped: []
+	};
+
+	if (root == null) {
+		throw new Error('Not an Evernote export file, missing <en-export>');
+	}
+
+	for (const note of childElements(root, 'note')) {
+		const title = textContent(childElements(note, 'title')[0]).trim() || 'Untitled';
+		const skipped: string[] = [];
+
+		try {
+			const content = enmlToMarkdown(textContent(childElements(note, 'content')[0]), skipped);
+
+			data.notes.push({
+				title: title,
+				content: content,
+				created: parseEnexDate(textContent(childElements(note, 'created')[0])),
+				updated: parseEnexDate(textContent(childElements(note, 'updated')[0])),
+				tags: childElements(note, 'tag').map((it: XmlNode) => textContent(it).trim())
+			});
+
+			for (const reason of skipped) {
+				data.skipped.push({title, reason});
+			}
+		} catch (err) {
+			data.skipped.push({title, reason: `invalid content: ${err.message}`});
+		}
+	}
+
+	return data;
+}
@@ -0,0 +1,103 @@
+/**
+ * This module contains the names of the events emitted by the Binder and
+ * the BinderManager.
+ *
+ */
+
+'use strict';
+
+export interface BinderEvents {
+	artifactAdded: string;
+	artifactChanged: string;
+	artifactConflict: string;
+	artifactCopied: string;
+	artifactRemoved: string;
+	artifactRenamed: string;
+	artifactRestored: string;
+	artifactSaved: string;
+	artifactTrashed: string;
+	binderLoaded: string;
+	binderLocked: string;
+	binderReloaded: string;
+	binderSaved: string;
+	binderSynced: string;
+	binderTimedSave: string;
+	binderUnlocked: string;
+	notebookCreated: string;
+	notebookLocked: string;
+	notebookRemoved: string;
+	notebookUnlocked: string;
+	sectionCreated: string;
+	sectionRemoved: string;
+	trashEmptied: string;
+}
+
+/**
+ * The events emitted by a Binder.  The parameters given to the listener
+ * are shown with each event:
+ *
+ * - `artifact:added (artifact)` - a new artifact was created by `add()` or
+ * a new file was found by the watcher.
+ * - `artifact:changed (artifact)` - the watcher found a file whose
+ * contents changed.
+ * - `artifact:conflict (artifact, content)` - the watcher found a file that
+ * changed while its buffer had unsaved changes.  The buffer is kept and the
+ * new contents of the file are given with the event.
+ * - `artifact:copied (artifact, source)` - a section, notebook or artifact
+ * was copied by `copy()`.  The artifact is the new copy.
+ * - `artifact:removed (artifact)` - an artifact was removed by `remove()`
+ * or its file was deleted.
+ * - `artifact:renamed (artifact, previous)` - an artifact was moved by
+ * `rename()` or the watcher.  The artifact is the new location and
+ * previous is the old one.
+ * - `artifact:restored (artifact)` - a section, notebook or artifact was
+ * restored from the trash.
+ * - `artifact:saved (artifact)` - the buffer of an artifact was written.
+ * - `artifact:trashed (artifact, previous)` - a section, notebook or
+ * artifact was moved to the trash.  The artifact is the location within
+ * the trash.
+ * - `loaded (binder)` - the binder instance was created.
+ * - `binder:locked (binder)`, `binder:unlocked (binder)` - an encrypted
+ * binder was locked or unlocked.
+ * - `binder:reloaded (binder, area)` - the schema for an area was rebuilt.
+ * - `binder:saved (binder)` - the binder was saved by `save()`.
+ * - `binder:synced (binder, report)` - the binder was synced with another
+ * directory by `sync()`.
+ * - `binder:timedsave (binder)` - the binder was saved by the save interval.
+ * - `notebook:created (artifact)`, `notebook:removed (artifact)` - a
+ * notebook was created or removed.
+ * - `notebook:locked (artifact)`, `notebook:unlocked (artifact)` - an
+ * encrypted notebook was locked or unlocked.
+ * - `section:created (artifact)`, `section:removed (artifact)` - a section
+ * was created or removed.
+ * - `trash:emptied (binder)` - the trash (or part of it) was emptied.
+ *
+ * The BinderManager emits each of these events for the binders it
+ * manages.  The name of the binder is given to the listener before the
+ * parameters above.
+ */
+export const Events: BinderEvents = {
+	artifactAdded: 'artifact:added',
+	artifactChanged: 'artifact:changed',
+	artifactConflict: 'artifact:conflict',
+	artifactCopied: 'artifact:copied',
+	artifactRemoved: 'artifact:removed',
+	artifactRenamed: 'artifact:renamed',
+	artifactRestored: 'artifact:restored',
+	artifactSaved: 'artifact:saved',
+	artifactTrashed: 'artifact:trashed',
+	binderLoaded: 'loaded',
+	binderLocked: 'binder:locked',
+	binderReloaded: 'binder:reloaded',
+	binderSaved: 'binder:saved',
+	binderSynced: 'binder:synced',
+	binderTimedSave: 'binder:timedsave',
+	binderUnlocked: 'binder:unlocked',
+	notebookCreated: 'notebook:created',
+	notebookLocked: 'notebook:locked',
+	notebookRemoved: 'notebook:removed',
+	notebookUnlocked: 'notebook:unlocked',
+	sectionCreated: 'section:created',
+	sectionRemoved: 'section:removed',
+	trashEmptied: 'trash:emptied'
+};
@@ -0,0 +1,282 @@
+/**
+ * This module contains the code that writes the sections, notebooks and
+ * artifacts of a binder as a static HTML site.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import * as marked from 'marked';
+import * as path from 'path';
+import {join} from 'util.join';
+import {Artifact} from './artifact';
+import {NotebookDetails} from './binder';
+
+export interface ExportOpts {
+	section?: string;
+	notebook?: string;
+	outDir: string;
+	title?: string;
+}
+
+export const markdownExts: string[] = ['.md', '.markdown'];
+
+const style: string = `
+body { font-family: sans-serif; margin: 2em auto; max-width: 50em; padding: 0 1em; }
+nav { margin-bottom: 1em; color: #666; }
+ul.meta { list-style: none; padding: 0; color: #666; font-size: 0.9em; }
+ul.meta li { display: inline; margin-right: 1.5em; }
+.tag { background: #eee; border-radius: 3px; padding: 0 0.3em; margin-right: 0.3em; }
+pre { white-space: pre-wrap; }
+table { border-collapse: collapse; }
+td, th { padding: 0.2em 1em 0.2em 0; text-align: left; }
+`;
+
+/**
+ * Replaces the characters that have a special meaning in HTML with their
+ * entities.
+ * @param s {string} the string to escape
+ * @returns {string} the escaped string
+ */
+export function escapeHtml(s: string): string {
+	return (s || '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Checks if an artifact is a markdown document by its file extension.
+ * @param filename {string} the name of the artifact file
+ * @returns {boolean} true if the file is markdown, otherwise false.
+ */
+export function isMarkdown(filename: string): boolean {
+	return markdownExts.indexOf(path.extname(filename || '').toLowerCase()) !== -1;
+}
+
+/**
+ * Converts the contents of an artifact to HTML.  Markdown artifacts are
+ * rendered.  All other artifacts are shown as preformatted text.
+ * @param filename {string} the name of the artifact file
+ * @param content {string} the contents of the artifact
+ * @returns {string} the HTML for the body of the page
+ */
+export function renderContent(filename: string, content: string): string {
+	if (isMarkdown(filename)) {
+		return marked(content || '');
+	}
+
+	return `<pre>${escapeHtml(content)}</pre>`;
+}
+
+/**
+ * Formats a date for display on a page.
+ * @param date {Date} the date to format
+ * @returns {string} the date as `YYYY-MM-DD HH:MM` or an empty string if
+ * the date is invalid.
+ * @private
+ */
+function formatDate(date: Date): string {
+	const d = new Date(date);
+
+	if (date == null || isNaN(d.getTime())) {
+		return '';
+	}
+
+	return d.toISOString().replace('T', ' ').slice(0, 16);
+}
+
+/**
+ * Builds the link for a name within a page.  The name is URI encoded so
+ * that names with spaces work.
+ * @param href {string} the relative location of the page
+ * @param name {string} the text of the link
+ * @returns {string} an HTML anchor
+ * @private
+ */
+function link(href: string, name: string): string {
+	return `<a href="${href.split('/').map(encodeURIComponent).join('/')}">${escapeHtml(name)}</a>`;
+}
+
+/**
+ * Writes the pages of a static HTML site.  The layout of the site follows
+ * the binder:
+ *
+ *     {outDir}/index.html
+ *     {outDir}/{section}/index.html
+ *     {outDir}/{section}/{notebook}/index.html
+ *     {outDir}/{section}/{notebook}/{filename}.html
+ *
+ */
+export class HtmlExporter {
+
+	private _files: string[] = [];
+	private _outDir: string = '';
+	private _title: string = '';
+
+	/**
+	 * Creates a new exporter instance.
+	 * @param outDir {string} the directory where the site is written
+	 * @param title {string} the name of the site shown on the top index page
+	 * and in the navigation of every page.
+	 */
+	constructor(outDir: string, title: string) {
+		this._outDir = outDir;
+		this._title = title;
+	}
+
+	/**
+	 * Writes the page for a single artifact.  The page shows the contents
+	 * of the artifact along with its dates and tags.
+	 * @param artifact {Artifact} the artifact to write
+	 * @param content {string} the contents of the artifact
+	 * @returns {string} the name of the file that was written
+	 */
+	public writeArtifact(artifact: Artifact, content: string): string {
+		const tags = (artifact.tags || [])
+			.map((tag: string) => `<span class="tag">${escapeHtml(tag)}</span>`)
+			.join('');
+
+		const body = [
+			`<h1>${escapeHtml(artifact.filename)}</h1>`,
+			'<ul class="meta">',
+			`<li>Created: ${formatDate(artifact.created)}</li>`,
+			`<li>Updated: ${formatDate(artifact.updated)}</li>`,
+			(tags !== '') ? `<li>Tags: ${tags}</li>` : '',
+			'</ul>',
+			renderContent(artifact.filename, content)
+		];
+
+		return this.writePage(
+			[artifact.section, artifact.notebook, `${artifact.filename}.html`],
+			artifact.filename,
+			body.filter((it: string) => it !== '').join('\n'));
+	}
+
+	/**
+	 * Writes the top index page of the site.
+	 * @param sections {string[]} the names of the sections in the site
+	 * @returns {string} the name of the file that was written
+	 */
+	public writeIndex(sections: string[]): string {
+		const items = sections.map((section: string) => {
+			return `<li>${link(`${section}/index.html`, section)}</li>`;
+		});
+
+		return this.writePage(['index.html'], this._title, [
+			`<h1>${escapeHtml(this._title)}</h1>`,
+			`<ul>\n${items.join('\n')}\n</ul>`
+		].join('\n'));
+	}
+
+	/**
+	 * Writes the index page of a notebook.  It is a table of the artifacts in
+	 * the notebook with their dates and tags.
+	 * @param section {string} the name of the section
+	 * @param notebook {string} the name of the notebook
+	 * @param artifacts {Artifact[]} the artifacts in the notebook
+	 * @returns {string} the name of the file that was written
+	 */
+	public writeNotebook(section: string, notebook: string, artifacts: Artifact[]): string {
+		const rows = artifacts.map((artifact: Artifact) => {
+			return [
+				'<tr>',
+				`<td>${link(`${artifact.filename}.html`, artifact.filename)}</td>`,
+				`<td>${formatDate(artifact.updated)}</td>`,
+				`<td>${escapeHtml((artifact.tags || []).join(', '))}</td>`,
+				'</tr>'
+			].join('');
+		});
+
+		return this.writePage([section, notebook, 'index.html'], notebook, [
+			`<h1>${escapeHtml(notebook)}</h1>`,
+			'<table>',
+			'<tr><th>Name</th><th>Updated</th><th>Tags</th></tr>',
+			rows.join('\n'),
+			'</table>'
+		].join('\n'));
+	}
+
+	/**
+	 * Writes the index page of a section.  It lists the notebooks in the
+	 * section with the number of artifacts in each.
+	 * @param section {string} the name of the section
+	 * @param notebooks {NotebookDetails[]} the notebooks in the section
+	 * @returns {string} the name of the file that was written
+	 */
+	public writeSection(section: string, notebooks: NotebookDetails[]): string {
+		const items = notebooks.map((notebook: NotebookDetails) => {
+			return `<li>${link(`${notebook.name}/index.html`, notebook.name)} (${notebook.count})</li>`;
+		});
+
+		return this.writePage([section, 'index.html'], section, [
+			`<h1>${escapeHtml(section)}</h1>`,
+			`<ul>\n${items.join('\n')}\n</ul>`
+		].join('\n'));
+	}
+
+	//
+	// Properties
+	//
+
+	get files(): string[] {
+		return this._files;
+	}
+
+	get outDir(): string {
+		return this._outDir;
+	}
+
+	get title(): string {
+		return this._title;
+	}
+
+	/**
+	 * Wraps the body of a page in the site template and writes it.  The
+	 * navigation links back to each level above the page.
+	 * @param parts {string[]} the location of the page within the site
+	 * @param title {string} the title of the page
+	 * @param body {string} the HTML for the body of the page
+	 * @returns {string} the name of the file that was written
+	 * @private
+	 */
+	private writePage(parts: string[], title: string, body: string): string {
+		const filename = join(this._outDir, ...parts);
+		const depth = parts.length - 1;
+		const crumbs: string[] = [];
+
+		if (depth > 0) {
+			crumbs.push(link(`${'../'.repeat(depth)}index.html`, this._title));
+			parts.slice(0, -1).forEach((part: string, idx: number) => {
+				const up = depth - idx - 1;
+				crumbs.push((up > 0 || parts[depth] !== 'index.html')
+					? link(`${'../'.repeat(up)}index.html`, part)
+					: escapeHtml(part));
+			});
+		}
+
+		const html = [
+			'<!DOCTYPE html>',
+			'<html>',
+			'<head>',
+			'<meta charset="utf-8">',
+			`<title>${escapeHtml(title)}</title>`,
+			`<style>${style}</style>`,
+			'</head>',
+			'<body>',
+			(crumbs.length > 0) ? `<nav>${crumbs.join(' / ')}</nav>` : '',
+			body,
+			'</body>',
+			'</html>'
+		];
+
+		fs.mkdirsSync(path.dirname(filename));
+		fs.writeFileSync(filename, `${html.filter((it: string) => it !== '').join('\n')}\n`);
+		this._files.push(filename);
+
+		return filename;
+	}
+}
@@ -0,0 +1,285 @@
+/**
+ * This module contains the git repository used by a binder in git mode.
+ * The binder directory is kept as a git work tree and each timed save
+ * becomes a commit.  The `git` program must be available on the path.
+ *
+ */
+
+'use strict';
+
+import {execFileSync} from 'child_process';
+import * as fs from 'fs-extra';
+import {join} from 'util.join';
+import {tempExt} from './savejournal';
+
+export interface CommitInfo {
+	id: string;
+	date: Date;
+	message: string;
+	path?: string;
+}
+
+export interface StatusChange {
+	action: string;
+	path: string;
+	from?: string;
+}
+
+const trashDir: string = 'Trash/';
+
+/**
+ * Builds the commit message for a list of changes.  The first line counts
+ * the changes by action and the body lists each artifact that changed.
+ * Moves into the trash are reported as `trashed` and moves out of the
+ * trash as `restored`.
+ * @param changes {StatusChange[]} the changes that will be committed
+ * @returns {string} the commit message
+ */
+export function commitMessage(changes: StatusChange[]): string {
+	const counts: Map<string, number> = new Map();
+	const lines: string[] = [];
+
+	for (const change of changes) {
+		counts.set(change.action, (counts.get(change.action) || 0) + 1);
+
+		if (change.action === 'renamed') {
+			lines.push(`${change.action}: ${change.from} -> ${change.path}`);
+		} else {
+			lines.push(`${change.action}: ${change.path}`);
+		}
+	}
+
+	const summary: string[] = [];
+	counts.forEach((count: number, action: string) => {
+		summary.push(`${count} ${action}`);
+	});
+
+	return `Timed save: ${summary.join(', ')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Parses the output of `git status --porcelain -z` into a list of
+ * changes.  Only the staged (index) status of each entry is used.  A file
+ * that was deleted in one place and added in the trash (or the other way
+ * around) is reported as a single trash or restore even when git didn't
+ * detect it as a rename (e.g. an empty file).
+ * @param status {string} the porcelain output of git status
+ * @returns {StatusChange[]} the list of changes sorted by path
+ */
+export function parseStatus(status: string): StatusChange[] {
+	const entries: string[] = status.split('\0');
+	const added: Set<string> = new Set();
+	const removed: Set<string> = new Set();
+	const changes: StatusChange[] = [];
+
+	for (let i = 0; i < entries.length; i++) {
+		const entry: string = entries[i];
+		if (entry.length < 4) {
+			continue;
+		}
+
+		const code: string = entry[0];
+		const filename: string = entry.slice(3);
+
+		switch (code) {
+			case 'A':
+				added.add(filename);
+				break;
+
+			case 'D':
+				removed.add(filename);
+				break;
+
+			case 'M':
+			case 'T':
+				changes.push({action: 'modified', path: filename});
+				break;
+
+			case 'R':
+				changes.push(renamed(entries[++i], filename));
+				break;
+		}
+	}
+
+	for (const filename of added) {
+		const original: string = filename.startsWith(trashDir) ? filename.slice(trashDir.length) : `${trashDir}${filename}`;
+
+		if (removed.has(original)) {
+			changes.push(renamed(original, filename));
+			removed.delete(original);
+		} else {
+			changes.push({action: 'added', path: filename});
+		}
+	}
+
+	for (const filename of removed) {
+		changes.push({action: 'removed', path: filename});
+	}
+
+	return changes.sort((a: StatusChange, b: StatusChange) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Decides what a move from one path to another means to the binder.
+ * @param from {string} the original path of the file
+ * @param to {string} the new path of the file
+ * @returns {StatusChange} the change for the move
+ */
+function renamed(from: string, to: string): StatusChange {
+	if (to.startsWith(trashDir) && !from.startsWith(trashDir)) {
+		return {action: 'trashed', path: from};
+	} else if (from.startsWith(trashDir) && !to.startsWith(trashDir)) {
+		return {action: 'restored', path: to};
+	}
+
+	return {action: 'renamed', path: to, from: from};
+}
+
+/**
+ * Keeps the files of a binder in a git repository.  The repository is
+ * created in the binder directory when it doesn't exist.  All of the
+ * calls are synchronous and throw an Error when git fails.
+ */
+export class GitStore {
+
+	private _root: string = '';
+
+	/**
+	 * Creates a new git store instance and initializes the repository
+	 * if needed.  Temporary save files are excluded from the repository.
+	 * When no committer identity is configured a local one is added so
+	 * that commits can be made.
+	 * @param root {string} the directory of the work tree
+	 */
+	constructor(root: string) {
+		this._root = root;
+
+		if (!fs.existsSync(join(root, '.git'))) {
+			this.git(['init', '--quiet']);
+			fs.appendFileSync(join(root, '.git', 'info', 'exclude'), `.DS_Store\n*${tempExt}\n`);
+		}
+
+		try {
+			this.git(['config', 'user.email']);
+		} catch (err) {
+			this.git(['config', 'user.name', 'notesdb']);
+			this.git(['config', 'user.email', 'notesdb@localhost']);
+		}
+	}
+
+	/**
+	 * Stages every change in the work tree and commits it.  Nothing is
+	 * committed when the work tree is clean.
+	 * @returns {CommitInfo} the new commit or null if there was nothing
+	 * to commit.
+	 */
+	public commit(): CommitInfo {
+		this.git(['add', '--all']);
+
+		const changes: StatusChange[] = parseStatus(this.git(['status', '--porcelain', '-z']));
+		if (changes.length === 0) {
+			return null;
+		}
+
+		const message: string = commitMessage(changes);
+		this.git(['-c', 'commit.gpgsign=false', 'commit', '--quiet', '--no-verify', '--file', '-'], message);
+
+		return this.log('-1')[0];
+	}
+
+	/**
+	 * Retrieves the commits that changed a file.  Renames of the file are
+	 * followed, so the `path` of each commit is the name of the file in
+	 * that commit.
+	 * @param filename {string} the path of the file relative to the root
+	 * @returns {CommitInfo[]} the list of commits, newest first
+	 */
+	public history(filename: string): CommitInfo[] {
+		if (!this.hasCommits()) {
+			return [];
+		}
+
+		return this.log('--follow', '--name-only', '--', filename);
+	}
+
+	/**
+	 * Retrieves the contents of a file as it was in a commit.
+	 * @param filename {string} the path of the file relative to the root
+	 * @param id {string} the commit id (or any revision git understands)
+	 * @returns {Buffer} the contents of the file
+	 */
+	public show(filename: string, id: string): Buffer {
+		return execFileSync('git', ['show', `${id}:${filename}`], {
+			cwd: this._root,
+			maxBuffer: 64 * 1024 * 1024,
+			stdio: ['ignore', 'pipe', 'pipe']
+		});
+	}
+
+	//
+	// Properties
+	//
+
+	get root() {
+		return this._root;
+	}
+
+	/**
+	 * Runs a git command in the work tree.
+	 * @param args {string[]} the git command line arguments
+	 * @param [input] {string} the data given to the command on stdin
+	 * @returns {string} the output of the command
+	 * @private
+	 */
+	private git(args: string[], input: string = null): string {
+		return execFileSync('git', args, {
+			cwd: this._root,
+			input: input,
+			stdio: ['pipe', 'pipe', 'pipe']
+		}).toString();
+	}
+
+	/**
+	 * Checks if the repository has at least one commit.
+	 * @returns {boolean} true if HEAD points to a commit
+	 * @private
+	 */
+	private hasCommits(): boolean {
+		try {
+			this.git(['rev-parse', '--verify', '--quiet', 'HEAD']);
+			return true;
+		} catch (err) {
+			return false;
+		}
+	}
+
+	/**
+	 * Runs git log and parses each commit.  When the file names are part of
+	 * the output (`--name-only`) the last one is kept as the commit path.
+	 * @param args {string[]} extra arguments for git log
+	 * @returns {CommitInfo[]} the list of commits, newest first
+	 * @private
+	 */
+	private log(...args: string[]): CommitInfo[] {
+		const output: string = this.git(['log', '--format=%x1e%H%x1f%aI%x1f%s', ...args]);
+
+		return output.split('\x1e')
+			.map((entry: string) => entry.trim())
+			.filter((entry: string) => entry !== '')
+			.map((entry: string) => {
+				const lines: string[] = entry.split('\n');
+				const fields: string[] = lines[0].split('\x1f');
+				const commit: CommitInfo = {
+					id: fields[0],
+					date: new Date(fields[1]),
+					message: fields[2]
+				};
+
+				if (lines.length > 1) {
+					commit.path = lines[lines.length - 1];
+				}
+
+				return commit;
+			});
+	}
+}
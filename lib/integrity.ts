@@ -0,0 +1,68 @@
+/**
+ * This module contains the report of the integrity check of a binder (see
+ * `Binder.check()` and `Binder.repair()`).  Each kind of problem that is
+ * found has its own list in the report.
+ *
+ */
+
+'use strict';
+
+export interface IntegrityIssue {
+	path: string;
+	reason: string;
+	repaired: boolean;
+}
+
+export interface IntegrityReport {
+	invalidNames: IntegrityIssue[];
+	missing: IntegrityIssue[];
+	orphanedMeta: IntegrityIssue[];
+	strayTrash: IntegrityIssue[];
+	unreadable: IntegrityIssue[];
+	untracked: IntegrityIssue[];
+}
+
+/**
+ * Creates an empty integrity report.
+ * @returns {IntegrityReport} a report with no issues
+ */
+export function integrityReport(): IntegrityReport {
+	return {
+		invalidNames: [],
+		missing: [],
+		orphanedMeta: [],
+		strayTrash: [],
+		unreadable: [],
+		untracked: []
+	};
+}
+
+/**
+ * Retrieves every issue in a report.
+ * @param report {IntegrityReport} the report of a check or repair
+ * @returns {IntegrityIssue[]} the issues of each list in the report
+ */
+export function integrityIssues(report: IntegrityReport): IntegrityIssue[] {
+	return [].concat(
+		report.invalidNames,
+		report.missing,
+		report.orphanedMeta,
+		report.strayTrash,
+		report.unreadable,
+		report.untracked
+	);
+}
+
+/**
+ * Adds an issue to a list of the report.  A path that is within a path
+ * already in the list isn't added, so a directory is reported once rather
+ * than once for each file in it.
+ * @param issues {IntegrityIssue[]} the list of the report
+ * @param path {string} the path (relative to the binder) with the problem
+ * @param reason {string} a description of the problem
+ */
+export function reportIssue(issues: IntegrityIssue[], path: string, reason: string) {
+	if (!issues.some((it: IntegrityIssue) => path === it.path || path.startsWith(`${it.path}/`))) {
+		issues.push({path: path, reason: reason, repaired: false});
+	}
+}
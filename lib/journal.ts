@@ -0,0 +1,91 @@
+/**
+ * This module contains the date handling for the daily journal.  Journal
+ * entries are artifacts named by their date (`YYYY-MM-DD.md`) in a journal
+ * section with a notebook for each year or month.
+ *
+ */
+
+'use strict';
+
+import {Artifact, ArtifactSearch} from './artifact';
+
+export interface JournalOpts {
+	date?: Date;
+	groupBy?: string;
+	month?: number;
+	section?: string;
+	template?: string;
+	year?: number;
+}
+
+export interface JournalEntry {
+	date: string;
+	created: Date;
+	path: string;
+}
+
+export const journalDefaults: JournalOpts = {
+	groupBy: 'month',
+	section: 'Journal'
+};
+
+const reEntryDate: RegExp = /^(\d{4})-(\d{2})-(\d{2})/;
+
+/**
+ * Pads a number with a leading zero to two digits.
+ * @param n {number} the number to pad
+ * @returns {string} the padded number
+ * @private
+ */
+function pad(n: number): string {
+	return (n < 10) ? `0${n}` : String(n);
+}
+
+/**
+ * Formats the local date of a Date as `YYYY-MM-DD`.
+ * @param date {Date} the date to format
+ * @returns {string} the formatted date
+ */
+export function dateKey(date: Date): string {
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Finds the date of a journal entry.  It is taken from the filename when
+ * the name starts with a `YYYY-MM-DD` date.  Otherwise the date the
+ * artifact was created is used.
+ * @param artifact {Artifact} the journal artifact
+ * @returns {string} the date as `YYYY-MM-DD` or null if it has no date
+ */
+export function entryDate(artifact: Artifact): string {
+	const match = artifact.filename.match(reEntryDate);
+	if (match) {
+		return `${match[1]}-${match[2]}-${match[3]}`;
+	}
+
+	const created: Date = new Date(artifact.created);
+	return isNaN(created.getTime()) ? null : dateKey(created);
+}
+
+/**
+ * Builds the location of the journal entry for a date.  The notebook is the
+ * year (`YYYY`) or the month (`YYYY-MM`) of the date depending on the
+ * `groupBy` option.
+ * @param date {Date} the date of the entry
+ * @param opts {JournalOpts} the journal section and grouping
+ * @returns {ArtifactSearch} the section/notebook/filename of the entry
+ * @throws {Error} when the grouping is not `year` or `month`.
+ */
+export function journalLocation(date: Date, opts: JournalOpts): ArtifactSearch {
+	const key: string = dateKey(date);
+
+	if (opts.groupBy !== 'year' && opts.groupBy !== 'month') {
+		throw new Error(`Invalid journal grouping '${opts.groupBy}', expected year or month`);
+	}
+
+	return {
+		section: opts.section,
+		notebook: (opts.groupBy === 'year') ? key.slice(0, 4) : key.slice(0, 7),
+		filename: `${key}.md`
+	};
+}
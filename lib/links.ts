@@ -0,0 +1,375 @@
+/**
+ * This module contains the parser for wiki style links between artifacts
+ * and the link graph used by the Binder to track them.  A link is written
+ * within an artifact as the path of another artifact in double brackets:
+ *
+ *     See [[Section/Notebook/File.txt]] for details.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import {Cipher, encode, readSecureFile} from './cipher';
+import {writeAtomicSync} from './savejournal';
+
+export interface LinkRef {
+	target: string;
+	start: number;
+	end: number;
+}
+
+export interface LinkDocument {
+	mtime: number;
+	links: string[];
+}
+
+export interface LinkData {
+	version: number;
+	docs: {[key: string]: LinkDocument};
+}
+
+export interface BrokenLink {
+	source: string;
+	target: string;
+}
+
+export const linkVersion: number = 1;
+
+const reLink: RegExp = /\[\[([^\[\]\n]+)\]\]/g;
+
+/**
+ * Cleans up the path within a link.  Whitespace around each part of the
+ * path is removed along with empty parts (e.g. ` A / B//c.txt ` =>
+ * `A/B/c.txt`).
+ * @param target {string} the path from the link
+ * @returns {string} the normalized path
+ */
+export function normalizeLink(target: string): string {
+	return (target || '')
+		.split('/')
+		.map((it: string) => it.trim())
+		.filter((it: string) => it !== '')
+		.join('/');
+}
+
+/**
+ * Finds all of the `[[Section/Notebook/File]]` links within a string.
+ * @param text {string} the contents of an artifact
+ * @returns {LinkRef[]} a list of the links in document order.  Each holds
+ * the normalized path of the target and the character range of the whole
+ * link (including the brackets).
+ */
+export function parseLinks(text: string): LinkRef[] {
+	const links: LinkRef[] = [];
+
+	reLink.lastIndex = 0;
+	let match: RegExpExecArray = reLink.exec(text || '');
+
+	while (match != null) {
+		const target = normalizeLink(match[1]);
+
+		if (target !== '') {
+			links.push({
+				target: target,
+				start: match.index,
+				end: match.index + match[0].length
+			});
+		}
+
+		match = reLink.exec(text || '');
+	}
+
+	return links;
+}
+
+/**
+ * Changes the links within a string that point to one path so they point
+ * to another.  Links to the children of the path are also changed, so
+ * moving the notebook `A/B` to `A/C` changes `[[A/B/file.txt]]` to
+ * `[[A/C/file.txt]]`.
+ * @param text {string} the contents of an artifact
+ * @param from {string} the old path of the target
+ * @param to {string} the new path of the target
+ * @returns {string} the contents with the links replaced
+ */
+export function rewriteLinks(text: string, from: string, to: string): string {
+	from = normalizeLink(from);
+	to = normalizeLink(to);
+
+	return (text || '').replace(reLink, (link: string, target: string) => {
+		target = normalizeLink(target);
+
+		if (target === from) {
+			return `[[${to}]]`;
+		} else if (target.startsWith(`${from}/`)) {
+			return `[[${to}${target.slice(from.length)}]]`;
+		}
+
+		return link;
+	});
+}
+
+/**
+ * A persistent graph of the links between artifacts.  Each document is
+ * keyed by the artifact path (relative to the binder) and holds the list of
+ * paths that it links to.  The reverse (backlink) map is built in memory
+ * when the graph is loaded.
+ */
+export class LinkGraph {
+
+	private _backlinks: Map<string, Set<string>> = new Map();
+	private _data: LinkData = {
+		version: linkVersion,
+		docs: {}
+	};
+	private _cipher: Cipher = null;
+	private _dirty: boolean = false;
+	private _filename: string = '';
+
+	/**
+	 * Creates a new link graph instance.  If the given file exists, then it
+	 * is loaded.  If the file can't be parsed, or it is from a different
+	 * version, then an empty graph is used and rebuilt by the caller.
+	 * @param filename {string} the location of the link file on disk.
+	 * @param [cipher] {Cipher} when given, the file is encrypted with it.
+	 */
+	constructor(filename: string, cipher: Cipher = null) {
+		this._filename = filename;
+		this._cipher = cipher;
+
+		if (fs.existsSync(filename)) {
+			try {
+				const data: LinkData = JSON.parse(readSecureFile(filename, cipher));
+				if (data.version === linkVersion) {
+					this._data = data;
+				}
+			} catch (err) {
+				this._dirty = true;
+			}
+		}
+
+		for (const key of this.keys()) {
+			this.addBacklinks(key);
+		}
+	}
+
+	/**
+	 * Retrieves the documents that link to a path.
+	 * @param target {string} the artifact path that is linked
+	 * @param [children] {boolean} when true, the documents that link to
+	 * anything under the target (e.g. the artifacts of a notebook) are also
+	 * included.
+	 * @returns {string[]} a sorted list of the artifact paths that link to
+	 * the target.
+	 */
+	public backlinks(target: string, children: boolean = false): string[] {
+		target = normalizeLink(target);
+		const sources: Set<string> = new Set();
+
+		this._backlinks.forEach((keys: Set<string>, key: string) => {
+			if (key === target || (children && key.startsWith(`${target}/`))) {
+				keys.forEach((it: string) => sources.add(it));
+			}
+		});
+
+		return Array.from(sources).sort();
+	}
+
+	/**
+	 * Finds every link whose target doesn't exist.
+	 * @param exists {Function} a function that is given a target path and
+	 * returns true if it exists.
+	 * @returns {BrokenLink[]} a list of the broken links sorted by source
+	 * and then target.
+	 */
+	public broken(exists: (target: string) => boolean): BrokenLink[] {
+		const broken: BrokenLink[] = [];
+
+		for (const source of this.keys().sort()) {
+			for (const target of this.links(source)) {
+				if (!exists(target)) {
+					broken.push({source: source, target: target});
+				}
+			}
+		}
+
+		return broken;
+	}
+
+	/**
+	 * Removes all documents from the graph.
+	 */
+	public clear() {
+		this._data = {
+			version: linkVersion,
+			docs: {}
+		};
+		this._backlinks.clear();
+		this._dirty = true;
+	}
+
+	/**
+	 * Checks if a document is in the graph and is up to date with the given
+	 * modification time.
+	 * @param key {string} the artifact path for the document
+	 * @param [mtime] {number} the last modified time of the file in millis.
+	 * @returns {boolean} true if the document exists and is current,
+	 * otherwise false.
+	 */
+	public isCurrent(key: string, mtime: number = null): boolean {
+		if (key in this._data.docs) {
+			return mtime == null || this._data.docs[key].mtime === mtime;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Retrieves the list of document keys that are in the graph.
+	 * @returns {string[]} an array of artifact paths.
+	 */
+	public keys(): string[] {
+		return Object.keys(this._data.docs);
+	}
+
+	/**
+	 * Retrieves the outgoing links of a document.
+	 * @param key {string} the artifact path for the document
+	 * @returns {string[]} the unique target paths in the order they first
+	 * appear in the document.
+	 */
+	public links(key: string): string[] {
+		return (key in this._data.docs) ? this._data.docs[key].links.slice() : [];
+	}
+
+	/**
+	 * Deletes a document (and its outgoing links) from the graph.  Links
+	 * from other documents to it are kept so they are reported as broken.
+	 * @param key {string} the artifact path for the document to remove
+	 */
+	public remove(key: string) {
+		if (key in this._data.docs) {
+			for (const target of this._data.docs[key].links) {
+				const sources = this._backlinks.get(target);
+				sources.delete(key);
+				if (sources.size === 0) {
+					this._backlinks.delete(target);
+				}
+			}
+
+			delete this._data.docs[key];
+			this._dirty = true;
+		}
+	}
+
+	/**
+	 * Deletes all documents whose key starts with the given prefix.  This is
+	 * used when a whole section or notebook is removed.
+	 * @param prefix {string} the path prefix of the documents to remove
+	 */
+	public removePrefix(prefix: string) {
+		for (const key of this.keys()) {
+			if (key.startsWith(prefix)) {
+				this.remove(key);
+			}
+		}
+	}
+
+	/**
+	 * Writes the graph to disk if it has been changed since the last save.
+	 * @param [exclude] {Function} a function that is given the key of each
+	 * document.  When it returns true the document is kept in memory, but
+	 * it is not written to disk.
+	 */
+	public save(exclude: (key: string) => boolean = null) {
+		if (this._dirty) {
+			let data: LinkData = this._data;
+
+			if (exclude != null) {
+				data = {
+					version: linkVersion,
+					docs: {}
+				};
+
+				for (const key of this.keys()) {
+					if (!exclude(key)) {
+						data.docs[key] = this._data.docs[key];
+					}
+				}
+			}
+
+			writeAtomicSync(this._filename, encode(JSON.stringify(data), this._cipher));
+			this._dirty = false;
+		}
+	}
+
+	/**
+	 * Adds or replaces a document within the graph.  The links are parsed
+	 * from the given text.
+	 * @param key {string} the artifact path for the document
+	 * @param text {string} the full contents of the document
+	 * @param [mtime] {number} the last modified time of the file in millis.
+	 */
+	public update(key: string, text: string, mtime: number = Date.now()) {
+		this.remove(key);
+
+		const links: string[] = [];
+		for (const link of parseLinks(text)) {
+			if (links.indexOf(link.target) === -1) {
+				links.push(link.target);
+			}
+		}
+
+		this._data.docs[key] = {
+			mtime: mtime,
+			links: links
+		};
+		this.addBacklinks(key);
+
+		this._dirty = true;
+	}
+
+	//
+	// Properties
+	//
+
+	get cipher(): Cipher {
+		return this._cipher;
+	}
+
+	/**
+	 * Changes the cipher used for the file.  The file is written with the
+	 * new cipher on the next save.
+	 */
+	set cipher(val: Cipher) {
+		this._cipher = val;
+		this._dirty = true;
+	}
+
+	get dirty(): boolean {
+		return this._dirty;
+	}
+
+	get filename(): string {
+		return this._filename;
+	}
+
+	get size(): number {
+		return Object.keys(this._data.docs).length;
+	}
+
+	/**
+	 * Adds the outgoing links of a document to the backlink map.
+	 * @param key {string} the artifact path for the document
+	 * @private
+	 */
+	private addBacklinks(key: string) {
+		for (const target of this._data.docs[key].links) {
+			if (!this._backlinks.has(target)) {
+				this._backlinks.set(target, new Set());
+			}
+			this._backlinks.get(target).add(key);
+		}
+	}
+}
@@ -0,0 +1,404 @@
+/**
+ * This module contains the parser and evaluator for the structured query
+ * language used by `Binder.query()`.  A query combines text searches with
+ * artifact fields, tags and dates:
+ *
+ *     section:Work tag:urgent updated:>2026-01-01 "meeting notes"
+ *
+ */
+
+'use strict';
+
+import {Artifact} from './artifact';
+import {IndexMatch, IndexPosition} from './searchindex';
+
+export interface QueryNode {
+	type: string;
+	children?: QueryNode[];
+	field?: string;
+	op?: string;
+	value?: string;
+	search?: string;
+}
+
+export interface QueryResult {
+	artifact: Artifact;
+	score: number;
+	positions: IndexPosition[];
+}
+
+export type QueryTextLookup = (search: string) => Map<string, IndexMatch>;
+
+export const queryFields: string[] = [
+	'section',
+	'notebook',
+	'filename',
+	'tag',
+	'accessed',
+	'created',
+	'updated'
+];
+
+const dateFields: string[] = ['accessed', 'created', 'updated'];
+const reField: RegExp = /^(\w+):(>=|<=|>|<|=)?(.*)$/;
+
+interface QueryToken {
+	type: string;
+	value: string;
+}
+
+/**
+ * Splits a query string into a list of tokens.  The tokens are parens,
+ * the boolean operators (AND, OR, NOT, -), field expressions, quoted
+ * phrases and words.
+ * @param query {string} the query string to split
+ * @returns {QueryToken[]} the list of tokens
+ * @private
+ */
+function lex(query: string): QueryToken[] {
+	const tokens: QueryToken[] = [];
+	let i: number = 0;
+
+	while (i < query.length) {
+		const ch = query[i];
+
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (ch === '(' || ch === ')') {
+			tokens.push({type: ch, value: ch});
+			i++;
+		} else if (ch === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+			tokens.push({type: 'NOT', value: ch});
+			i++;
+		} else {
+			// Reads a word.  Quoted strings are kept together, including
+			// those that are the value of a field (e.g. section:"My Notes")
+			let word: string = '';
+			let quoted: boolean = false;
+
+			while (i < query.length && (quoted || !/[\s()]/.test(query[i]))) {
+				if (query[i] === '"') {
+					quoted = !quoted;
+				}
+				word += query[i++];
+			}
+
+			if (quoted) {
+				throw new Error(`Unterminated quote in query: ${query}`);
+			}
+
+			if (word === 'AND' || word === 'OR' || word === 'NOT') {
+				tokens.push({type: word, value: word});
+			} else {
+				tokens.push({type: 'word', value: word});
+			}
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Removes the surrounding quotes from a string (if it has them).
+ * @param s {string} the string to unquote
+ * @returns {string} the string without surrounding quotes.
+ * @private
+ */
+function unquote(s: string): string {
+	if (s.length >= 2 && s.startsWith('"') && s.endsWith('"')) {
+		return s.slice(1, -1);
+	}
+
+	return s;
+}
+
+/**
+ * Parses a query string into an expression tree.  The grammar is:
+ *
+ *     or      := and ('OR' and)*
+ *     and     := unary ('AND'? unary)*
+ *     unary   := ('NOT' | '-') unary | primary
+ *     primary := '(' or ')' | field ':' [op] value | text
+ *
+ * Terms that are next to each other are implicitly joined with AND.
+ * Adjacent text terms are combined into a single text search so that
+ * they are ranked together by the index.
+ *
+ * @param query {string} the query string to parse
+ * @returns {QueryNode} the root of the expression tree.  An empty query
+ * returns an `all` node that matches every artifact.
+ * @throws {Error} when the query has a syntax error.
+ */
+export function parseQuery(query: string): QueryNode {
+	const tokens = lex(query || '');
+	let pos: number = 0;
+
+	const peek = (): QueryToken => tokens[pos];
+
+	function parseOr(): QueryNode {
+		const children: QueryNode[] = [parseAnd()];
+
+		while (peek() != null && peek().type === 'OR') {
+			pos++;
+			children.push(parseAnd());
+		}
+
+		return (children.length === 1) ? children[0] : {type: 'or', children: children};
+	}
+
+	function parseAnd(): QueryNode {
+		const children: QueryNode[] = [];
+
+		while (peek() != null && peek().type !== 'OR' && peek().type !== ')') {
+			if (peek().type === 'AND') {
+				pos++;
+				continue;
+			}
+
+			const node = parseUnary();
+			const last = children[children.length - 1];
+
+			if (node.type === 'text' && last != null && last.type === 'text') {
+				last.search += ` ${node.search}`;
+			} else {
+				children.push(node);
+			}
+		}
+
+		if (children.length === 0) {
+			throw new Error(`Missing query term in: ${query}`);
+		}
+
+		return (children.length === 1) ? children[0] : {type: 'and', children: children};
+	}
+
+	function parseUnary(): QueryNode {
+		if (peek().type === 'NOT') {
+			pos++;
+			if (peek() == null) {
+				throw new Error(`Missing term after NOT in: ${query}`);
+			}
+
+			return {type: 'not', children: [parseUnary()]};
+		}
+
+		return parsePrimary();
+	}
+
+	function parsePrimary(): QueryNode {
+		const token = tokens[pos++];
+
+		if (token.type === '(') {
+			const node = parseOr();
+			if (peek() == null || peek().type !== ')') {
+				throw new Error(`Missing closing paren in: ${query}`);
+			}
+			pos++;
+			return node;
+		}
+
+		if (token.type !== 'word') {
+			throw new Error(`Unexpected '${token.value}' in: ${query}`);
+		}
+
+		const match = token.value.match(reField);
+		if (match != null && queryFields.indexOf(match[1].toLowerCase()) !== -1) {
+			const field = match[1].toLowerCase();
+			const value = unquote(match[3]);
+
+			if (value === '') {
+				throw new Error(`Missing value for field '${field}' in: ${query}`);
+			}
+
+			if (dateFields.indexOf(field) !== -1) {
+				if (isNaN(new Date(value).getTime())) {
+					throw new Error(`Invalid date '${value}' for field '${field}' in: ${query}`);
+				}
+			} else if (match[2] != null) {
+				throw new Error(`Comparison '${match[2]}' is only valid for date fields: ${token.value}`);
+			}
+
+			return {
+				type: 'field',
+				field: field,
+				op: match[2] || '=',
+				value: value
+			};
+		}
+
+		return {type: 'text', search: token.value};
+	}
+
+	if (tokens.length === 0) {
+		return {type: 'all'};
+	}
+
+	const root = parseOr();
+	if (pos < tokens.length) {
+		throw new Error(`Unexpected '${tokens[pos].value}' in: ${query}`);
+	}
+
+	return root;
+}
+
+/**
+ * Retrieves the value of a date field from an artifact.
+ * @param artifact {Artifact} the artifact to read
+ * @param field {string} the name of the date field
+ * @returns {Date} the date or null if the field isn't a date field
+ * @private
+ */
+function artifactDate(artifact: Artifact, field: string): Date {
+	switch (field) {
+		case 'accessed': return artifact.accessed;
+		case 'created': return artifact.created;
+		case 'updated': return artifact.updated;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Retrieves the value of a name field (section, notebook or filename)
+ * from an artifact.
+ * @param artifact {Artifact} the artifact to read
+ * @param field {string} the name of the field
+ * @returns {string} the value or null if the field isn't a name field
+ * @private
+ */
+function artifactString(artifact: Artifact, field: string): string {
+	switch (field) {
+		case 'section': return artifact.section;
+		case 'notebook': return artifact.notebook;
+		case 'filename': return artifact.filename;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Compares a date value from an artifact against a query value.  An equals
+ * comparison matches any time within the same day.
+ * @param date {Date} the artifact date to check
+ * @param op {string} the comparison operator (=, >, >=, <, <=)
+ * @param value {string} the date string from the query
+ * @returns {boolean} true if the comparison holds, otherwise false.
+ * @private
+ */
+function compareDate(date: Date, op: string, value: string): boolean {
+	const lhs = new Date(date).getTime();
+	const rhs = new Date(value).getTime();
+
+	if (isNaN(lhs)) {
+		return false;
+	}
+
+	switch (op) {
+		case '>': return lhs > rhs;
+		case '>=': return lhs >= rhs;
+		case '<': return lhs < rhs;
+		case '<=': return lhs <= rhs;
+		default:
+			return lhs >= rhs && lhs < rhs + (24 * 60 * 60 * 1000);
+	}
+}
+
+/**
+ * Compares a string from an artifact against a query value.  The check is
+ * case insensitive.  A trailing `*` on the query value matches any string
+ * with that prefix.
+ * @param s {string} the artifact value to check
+ * @param value {string} the value from the query
+ * @returns {boolean} true if the value matches, otherwise false.
+ * @private
+ */
+function compareString(s: string, value: string): boolean {
+	s = (s || '').toLowerCase();
+	value = value.toLowerCase();
+
+	if (value.endsWith('*')) {
+		return s.startsWith(value.slice(0, -1));
+	}
+
+	return s === value;
+}
+
+/**
+ * Checks an artifact against a query expression tree.  The score and
+ * match positions of any text searches that satisfy the query are added to
+ * the given result.
+ * @param node {QueryNode} the expression to evaluate
+ * @param artifact {Artifact} the artifact to check
+ * @param lookup {QueryTextLookup} a function that resolves a text search
+ * to the matching documents in the search index.
+ * @param result {QueryResult} the result that collects scores and positions
+ * @returns {boolean} true if the artifact satisfies the expression,
+ * otherwise false.
+ */
+export function evaluateQuery(node: QueryNode, artifact: Artifact, lookup: QueryTextLookup, result: QueryResult): boolean {
+	switch (node.type) {
+		case 'all':
+			return true;
+
+		case 'and':
+			return node.children.every((child: QueryNode) => {
+				return evaluateQuery(child, artifact, lookup, result);
+			});
+
+		case 'or': {
+			// Every branch is evaluated into its own result so the positions
+			// of each matching branch are kept, and those of a branch that
+			// doesn't match are dropped.
+			let matched: boolean = false;
+
+			for (const child of node.children) {
+				const branch: QueryResult = {
+					artifact: artifact,
+					score: 0,
+					positions: []
+				};
+
+				if (evaluateQuery(child, artifact, lookup, branch)) {
+					result.score += branch.score;
+					result.positions = result.positions.concat(branch.positions);
+					matched = true;
+				}
+			}
+
+			return matched;
+		}
+
+		case 'not':
+			return !evaluateQuery(node.children[0], artifact, lookup, {
+				artifact: artifact,
+				score: 0,
+				positions: []
+			});
+
+		case 'text': {
+			const match = lookup(node.search).get(artifact.path());
+			if (match != null) {
+				result.score += match.score;
+				result.positions = result.positions.concat(match.positions);
+				return true;
+			}
+			return false;
+		}
+
+		case 'field':
+			if (node.field === 'tag') {
+				// a parent tag matches its children (e.g. tag:project finds
+				// an artifact tagged project/alpha)
+				return artifact.tags.some((tag: string) => {
+					return compareString(tag, node.value) || compareString(tag, `${node.value}/*`);
+				});
+			} else if (dateFields.indexOf(node.field) !== -1) {
+				return compareDate(artifactDate(artifact, node.field), node.op, node.value);
+			}
+
+			return compareString(artifactString(artifact, node.field), node.value);
+
+		default:
+			return false;
+	}
+}
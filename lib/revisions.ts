@@ -0,0 +1,259 @@
+/**
+ * This module contains the revision history store for artifacts.  Each time
+ * an artifact is saved the previous contents of its file are kept as a
+ * revision under the binder configuration directory.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import {join} from 'util.join';
+import {Cipher, cipherOverhead, encode, readSecureFile} from './cipher';
+import {writeAtomicSync} from './savejournal';
+
+export interface RevisionInfo {
+	id: string;
+	date: Date;
+	size: number;
+}
+
+export interface RevisionOpts {
+	cipher?: (key: string) => Cipher;
+	maxRevisions?: number;
+	revisionAge?: number;
+}
+
+export interface DiffLine {
+	op: string;
+	line: string;
+}
+
+const msPerDay: number = 24 * 60 * 60 * 1000;
+const revisionExt: string = '.rev';
+
+/**
+ * Computes a line by line difference between two strings.  It uses the
+ * longest common subsequence of the lines to decide which lines were kept,
+ * removed or added.  Each line in the result has an op of:
+ *
+ * - `' '` - the line is the same in both strings
+ * - `'-'` - the line was removed from the first string
+ * - `'+'` - the line was added in the second string
+ *
+ * @param a {string} the original string
+ * @param b {string} the changed string
+ * @returns {DiffLine[]} the list of lines with their change operation.
+ */
+export function diffLines(a: string, b: string): DiffLine[] {
+	const x: string[] = (a || '').split('\n');
+	const y: string[] = (b || '').split('\n');
+	const lcs: number[][] = [];
+
+	for (let row = x.length; row >= 0; row--) {
+		lcs[row] = [];
+		for (let col = y.length; col >= 0; col--) {
+			if (row === x.length || col === y.length) {
+				lcs[row][col] = 0;
+			} else if (x[row] === y[col]) {
+				lcs[row][col] = lcs[row + 1][col + 1] + 1;
+			} else {
+				lcs[row][col] = Math.max(lcs[row + 1][col], lcs[row][col + 1]);
+			}
+		}
+	}
+
+	const diff: DiffLine[] = [];
+	let i: number = 0;
+	let j: number = 0;
+
+	while (i < x.length && j < y.length) {
+		if (x[i] === y[j]) {
+			diff.push({op: ' ', line: x[i++]});
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			diff.push({op: '-', line: x[i++]});
+		} else {
+			diff.push({op: '+', line: y[j++]});
+		}
+	}
+
+	while (i < x.length) {
+		diff.push({op: '-', line: x[i++]});
+	}
+
+	while (j < y.length) {
+		diff.push({op: '+', line: y[j++]});
+	}
+
+	return diff;
+}
+
+/**
+ * Manages the revisions for all of the artifacts in a binder.  Revisions
+ * for an artifact are stored in a directory that mirrors the artifact
+ * path within the revision root.  Each revision is a file named with the
+ * time (in millis) when it was created.
+ */
+export class RevisionStore {
+
+	private _opts: RevisionOpts = {
+		cipher: () => null,
+		maxRevisions: 10,
+		revisionAge: 0
+	};
+	private _root: string = '';
+
+	/**
+	 * Creates a new revision store instance.
+	 * @param root {string} the directory where revisions are kept
+	 * @param [opts] {RevisionOpts} the retention limits for revisions
+	 *
+	 * - `cipher {Function}`: called with an artifact path to get the cipher
+	 * used for its revisions.  When it returns null the revisions are plain
+	 * text.
+	 * - `maxRevisions {number} default=10`: the number of revisions kept
+	 * for each artifact.  When set to 0 no revisions are kept.
+	 * - `revisionAge {number} default=0`: the number of days a revision is
+	 * kept.  When set to 0 revisions are kept regardless of age.
+	 */
+	constructor(root: string, opts?: RevisionOpts) {
+		this._root = root;
+		this._opts = Object.assign(this._opts, opts);
+	}
+
+	/**
+	 * Saves a new revision for an artifact.  If the contents are the same as
+	 * the most recent revision, then nothing is saved.  Old revisions are
+	 * pruned after the save.
+	 * @param key {string} the artifact path
+	 * @param content {string} the contents to keep
+	 * @returns {RevisionInfo} the revision that was created or null if
+	 * nothing was saved.
+	 */
+	public add(key: string, content: string): RevisionInfo {
+		if (this.maxRevisions <= 0) {
+			return null;
+		}
+
+		const revisions = this.list(key);
+		if (revisions.length > 0 && this.get(key, revisions[0].id) === content) {
+			return null;
+		}
+
+		const directory = join(this.root, key);
+		fs.mkdirsSync(directory);
+
+		let ms: number = Date.now();
+		while (revisions.length > 0 && ms <= Number(revisions[0].id)) {
+			ms = Number(revisions[0].id) + 1;
+		}
+
+		writeAtomicSync(join(directory, `${ms}${revisionExt}`), encode(content, this._opts.cipher(key)));
+		this.prune(key);
+
+		return {
+			id: String(ms),
+			date: new Date(ms),
+			size: Buffer.byteLength(content)
+		};
+	}
+
+	/**
+	 * Retrieves the contents of a revision.
+	 * @param key {string} the artifact path
+	 * @param id {string} the id of the revision to read
+	 * @returns {string} the contents of the revision
+	 * @throws {Error} if the revision doesn't exist.
+	 */
+	public get(key: string, id: string): string {
+		const filename = join(this.root, key, `${id}${revisionExt}`);
+
+		if (!fs.existsSync(filename)) {
+			throw new Error(`Revision ${id} doesn't exist for ${key}`);
+		}
+
+		return readSecureFile(filename, this._opts.cipher(key));
+	}
+
+	/**
+	 * Retrieves the revisions for an artifact, newest first.
+	 * @param key {string} the artifact path
+	 * @returns {RevisionInfo[]} the list of revisions for the artifact.
+	 */
+	public list(key: string): RevisionInfo[] {
+		const directory = join(this.root, key);
+
+		if (!fs.existsSync(directory)) {
+			return [];
+		}
+
+		// The size of an encrypted revision doesn't include the bytes added
+		// by the encryption.
+		const overhead = (this._opts.cipher(key) != null) ? cipherOverhead : 0;
+
+		return fs.readdirSync(directory)
+			.filter((filename: string) => filename.endsWith(revisionExt))
+			.map((filename: string) => {
+				const id = filename.slice(0, -revisionExt.length);
+				return {
+					id: id,
+					date: new Date(Number(id)),
+					size: Math.max(fs.statSync(join(directory, filename)).size - overhead, 0)
+				};
+			})
+			.sort((a, b) => Number(b.id) - Number(a.id));
+	}
+
+	/**
+	 * Moves the revisions of an artifact when it is renamed.
+	 * @param src {string} the old artifact path
+	 * @param dst {string} the new artifact path
+	 */
+	public move(src: string, dst: string) {
+		const srcDir = join(this.root, src);
+
+		if (fs.existsSync(srcDir)) {
+			fs.moveSync(srcDir, join(this.root, dst), {overwrite: true});
+		}
+	}
+
+	/**
+	 * Removes revisions that are beyond the retention limits.
+	 * @param key {string} the artifact path
+	 */
+	public prune(key: string) {
+		const expired = Date.now() - (this.revisionAge * msPerDay);
+
+		this.list(key).forEach((revision: RevisionInfo, idx: number) => {
+			if (idx >= this.maxRevisions ||
+				(this.revisionAge > 0 && revision.date.getTime() < expired)) {
+				fs.removeSync(join(this.root, key, `${revision.id}${revisionExt}`));
+			}
+		});
+	}
+
+	/**
+	 * Removes all revisions for an artifact.
+	 * @param key {string} the artifact path
+	 */
+	public remove(key: string) {
+		fs.removeSync(join(this.root, key));
+	}
+
+	//
+	// Properties
+	//
+
+	get maxRevisions(): number {
+		return this._opts.maxRevisions;
+	}
+
+	get revisionAge(): number {
+		return this._opts.revisionAge;
+	}
+
+	get root(): string {
+		return this._root;
+	}
+}
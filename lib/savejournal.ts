@@ -0,0 +1,230 @@
+/**
+ * This module contains the crash safe write functions and the write ahead
+ * journal used when the Binder saves files.
+ *
+ * Every write goes to a temporary file next to the target and is then
+ * renamed into place.  A rename within a directory is atomic, so a reader
+ * sees either the old or the new contents, never a partial file.  While a
+ * write is in progress it is recorded in a journal.  When a Binder is
+ * created after a crash the journal is used to finish (replay) writes whose
+ * temporary file is complete and to discard (roll back) writes that are
+ * not.
+ *
+ */
+
+'use strict';
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+
+export interface JournalEntry {
+	key: string;
+	target: string;
+	temp: string;
+	checksum: string;
+}
+
+export interface JournalRecovery {
+	key: string;
+	target: string;
+	action: string;
+}
+
+export const tempExt: string = '.notesdb-tmp';
+
+/**
+ * Computes the checksum used to verify that a temporary file is complete.
+ * @param data {string|Buffer} the data to checksum
+ * @returns {string} the hex checksum of the data
+ */
+export function checksum(data: string | Buffer): string {
+	return crypto.createHash('sha1').update(data).digest('hex');
+}
+
+/**
+ * Writes a file and flushes it to disk before returning.
+ * @param filename {string} the file to write
+ * @param data {string|Buffer} the contents of the file
+ */
+export function writeFlushSync(filename: string, data: string | Buffer) {
+	const fd = fs.openSync(filename, 'w');
+
+	try {
+		fs.writeSync(fd, (data instanceof Buffer) ? data : Buffer.from(data));
+		fs.fsyncSync(fd);
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+/**
+ * Writes a file by first writing the data to a temporary file and then
+ * renaming it into place.  If the write fails, then the temporary file is
+ * removed and the error is rethrown.
+ * @param filename {string} the file to write
+ * @param data {string|Buffer} the contents of the file
+ */
+export function writeAtomicSync(filename: string, data: string | Buffer) {
+	const temp = `${filename}${tempExt}`;
+
+	try {
+		writeFlushSync(temp, data);
+		fs.renameSync(temp, filename);
+	} catch (err) {
+		fs.removeSync(temp);
+		throw err;
+	}
+}
+
+/**
+ * Keeps the list of writes that are in progress.  The journal is saved to
+ * disk (atomically) each time a write begins or is committed.  When there
+ * are no writes in progress the journal file is removed.
+ */
+export class SaveJournal {
+
+	private _entries: JournalEntry[] = [];
+	private _filename: string = '';
+
+	/**
+	 * Creates a new journal instance.  If a journal file exists, then the
+	 * unfinished entries are loaded from it so they can be recovered.
+	 * @param filename {string} the location of the journal file
+	 */
+	constructor(filename: string) {
+		this._filename = filename;
+
+		if (fs.existsSync(filename)) {
+			try {
+				this._entries = JSON.parse(fs.readFileSync(filename).toString());
+			} catch (err) {
+				// A journal is always replaced atomically, so a file that
+				// can't be parsed has no usable entries.
+				this._entries = [];
+			}
+		}
+	}
+
+	/**
+	 * Starts a write.  The data is written to a temporary file next to the
+	 * target and the write is recorded in the journal.  The caller must
+	 * rename the temporary file to the target and then call `commit()`.
+	 * @param target {string} the file that will be written
+	 * @param data {string|Buffer} the contents of the file
+	 * @param [key] {string} a name used to report this write if it is
+	 * recovered (e.g. the artifact path).
+	 * @returns {JournalEntry} the journal entry for this write.
+	 */
+	public begin(target: string, data: string | Buffer, key: string = target): JournalEntry {
+		const entry: JournalEntry = {
+			key: key,
+			target: target,
+			temp: `${target}${tempExt}`,
+			checksum: checksum(data)
+		};
+
+		// The entry is recorded before the temporary file is written.  If
+		// the write is interrupted the checksum won't match and the
+		// temporary file is rolled back on recovery.
+		this._entries = this._entries.filter((it: JournalEntry) => it.target !== target);
+		this._entries.push(entry);
+		this.save();
+
+		try {
+			writeFlushSync(entry.temp, data);
+		} catch (err) {
+			this.rollback(entry);
+			throw err;
+		}
+
+		return entry;
+	}
+
+	/**
+	 * Removes a finished write from the journal.
+	 * @param entry {JournalEntry} the entry returned by `begin()`
+	 */
+	public commit(entry: JournalEntry) {
+		const n = this._entries.length;
+		this._entries = this._entries.filter((it: JournalEntry) => it.target !== entry.target);
+
+		if (n !== this._entries.length) {
+			this.save();
+		}
+	}
+
+	/**
+	 * Finishes or discards all of the writes in the journal.  For each entry:
+	 *
+	 * - `replayed` - the temporary file is complete, so it is renamed to the
+	 * target.
+	 * - `rolledback` - the temporary file is incomplete, so it is removed and
+	 * the target keeps its previous contents.
+	 * - `completed` - the temporary file was already renamed, so there is
+	 * nothing to do.
+	 *
+	 * @returns {JournalRecovery[]} a list of the entries and the action taken
+	 * for each.
+	 */
+	public recover(): JournalRecovery[] {
+		const recovered: JournalRecovery[] = this._entries.map((entry: JournalEntry) => {
+			let action: string = 'completed';
+
+			if (fs.existsSync(entry.temp)) {
+				if (checksum(fs.readFileSync(entry.temp)) === entry.checksum) {
+					fs.renameSync(entry.temp, entry.target);
+					action = 'replayed';
+				} else {
+					fs.removeSync(entry.temp);
+					action = 'rolledback';
+				}
+			}
+
+			return {
+				key: entry.key,
+				target: entry.target,
+				action: action
+			};
+		});
+
+		this._entries = [];
+		this.save();
+
+		return recovered;
+	}
+
+	/**
+	 * Discards a write that failed.  The temporary file is removed and the
+	 * entry is removed from the journal, so the target keeps its previous
+	 * contents.
+	 * @param entry {JournalEntry} the entry returned by `begin()`
+	 */
+	public rollback(entry: JournalEntry) {
+		fs.removeSync(entry.temp);
+		this.commit(entry);
+	}
+
+	/**
+	 * Writes the current entries to the journal file.  If there are no
+	 * entries, then the journal file is removed.
+	 */
+	public save() {
+		if (this._entries.length > 0) {
+			writeAtomicSync(this._filename, JSON.stringify(this._entries, null, '\t'));
+		} else if (fs.existsSync(this._filename)) {
+			fs.removeSync(this._filename);
+		}
+	}
+
+	//
+	// Properties
+	//
+
+	get entries(): JournalEntry[] {
+		return this._entries;
+	}
+
+	get filename(): string {
+		return this._filename;
+	}
+}
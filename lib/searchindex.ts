@@ -0,0 +1,527 @@
+/**
+ * This module contains the full text inverted index used by the Binder to
+ * search the contents of artifacts without reading each file on every
+ * request.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import {Cipher, encode, readSecureFile} from './cipher';
+import {writeAtomicSync} from './savejournal';
+
+export interface IndexDocument {
+	mtime: number;
+	offsets: number[];
+	terms: string[];
+}
+
+export interface IndexPostings {
+	[key: string]: number[];
+}
+
+export interface IndexData {
+	version: number;
+	docs: {[key: string]: IndexDocument};
+	terms: {[key: string]: IndexPostings};
+}
+
+export interface IndexClause {
+	type: string;
+	terms: string[];
+}
+
+export interface IndexMatch {
+	path: string;
+	score: number;
+	positions: IndexPosition[];
+}
+
+export interface IndexPosition {
+	start: number;
+	end: number;
+}
+
+export const indexVersion: number = 2;
+
+const reToken: RegExp = /\w+/g;
+const reClause: RegExp = /"([^"]*)"|(\S+)/g;
+
+/**
+ * Creates an empty object used as a map.  It has no prototype, so a key
+ * such as `constructor` or `__proto__` is an ordinary entry.
+ * @param [entries] {object} the entries copied into the new map
+ * @returns {object} the new map
+ */
+function dict<T>(entries: {[key: string]: T} = {}): {[key: string]: T} {
+	return Object.assign(Object.create(null), entries);
+}
+
+/**
+ * Checks if a key is an entry of a map (and not inherited).
+ * @param map {object} the map to check
+ * @param key {string} the key to find
+ * @returns {boolean} true if the map holds the key, otherwise false.
+ */
+function has(map: object, key: string): boolean {
+	return map != null && Object.prototype.hasOwnProperty.call(map, key);
+}
+
+/**
+ * Copies the entries of a saved index into maps without a prototype (see
+ * `dict()`).
+ * @param data {IndexData} the parsed contents of an index file
+ * @returns {IndexData} the index used in memory
+ */
+function load(data: IndexData): IndexData {
+	const terms: {[key: string]: IndexPostings} = dict<IndexPostings>();
+
+	for (const term of Object.keys(data.terms || {})) {
+		terms[term] = dict(data.terms[term]);
+	}
+
+	return {
+		version: data.version,
+		docs: dict(data.docs),
+		terms: terms
+	};
+}
+
+/**
+ * Breaks a string into a list of lowercase word tokens.  Each token is
+ * returned with the character offset where it starts within the string.
+ * @param text {string} the input string to split into tokens
+ * @returns {Array} a list of `{term, offset}` objects in document order.
+ */
+export function tokenize(text: string): Array<{term: string, offset: number}> {
+	const tokens: Array<{term: string, offset: number}> = [];
+
+	reToken.lastIndex = 0;
+	let match: RegExpExecArray = reToken.exec(text || '');
+
+	while (match != null) {
+		tokens.push({
+			term: match[0].toLowerCase(),
+			offset: match.index
+		});
+		match = reToken.exec(text || '');
+	}
+
+	return tokens;
+}
+
+/**
+ * Parses a simple search string into a list of clauses.  A clause is one of:
+ *
+ * - `term` - a single word that must exist in the document
+ * - `"some phrase"` - a list of words that must appear in this order
+ * - `pre*` - any word that starts with the given prefix
+ *
+ * All clauses must be satisfied for a document to match.
+ * @param search {string} the search string to parse
+ * @returns {IndexClause[]} the list of clauses found in the search string.
+ */
+export function parseSearch(search: string): IndexClause[] {
+	const clauses: IndexClause[] = [];
+
+	reClause.lastIndex = 0;
+	let match: RegExpExecArray = reClause.exec(search || '');
+
+	while (match != null) {
+		if (match[1] != null) {
+			const terms = tokenize(match[1]).map(it => it.term);
+			if (terms.length > 0) {
+				clauses.push({type: 'phrase', terms: terms});
+			}
+		} else if (/^\w+\*$/.test(match[2])) {
+			clauses.push({type: 'prefix', terms: [match[2].slice(0, -1).toLowerCase()]});
+		} else {
+			for (const token of tokenize(match[2])) {
+				clauses.push({type: 'term', terms: [token.term]});
+			}
+		}
+
+		match = reClause.exec(search || '');
+	}
+
+	return clauses;
+}
+
+/**
+ * A persistent inverted index of artifact contents.  Each document is
+ * keyed by the artifact path (relative to the binder).  The index stores
+ * the ordinal position of every term within each document and the
+ * character offset of each ordinal so that phrase queries and match
+ * positions can be computed without reading the artifact.
+ */
+export class SearchIndex {
+
+	private _data: IndexData = {
+		version: indexVersion,
+		docs: dict<IndexDocument>(),
+		terms: dict<IndexPostings>()
+	};
+	private _cipher: Cipher = null;
+	private _dirty: boolean = false;
+	private _filename: string = '';
+
+	/**
+	 * Creates a new index instance.  If the given index file exists, then it
+	 * is loaded.  If the file can't be parsed, or it is from a different
+	 * version, then an empty index is used and rebuilt by the caller.
+	 * @param filename {string} the location of the index file on disk.
+	 * @param [cipher] {Cipher} when given, the file is encrypted with it.
+	 */
+	constructor(filename: string, cipher: Cipher = null) {
+		this._filename = filename;
+		this._cipher = cipher;
+
+		if (fs.existsSync(filename)) {
+			try {
+				const data: IndexData = JSON.parse(readSecureFile(filename, cipher));
+				if (data.version === indexVersion) {
+					this._data = load(data);
+				}
+			} catch (err) {
+				this._dirty = true;
+			}
+		}
+	}
+
+	/**
+	 * Removes all documents and terms from the index.
+	 */
+	public clear() {
+		this._data = {
+			version: indexVersion,
+			docs: dict<IndexDocument>(),
+			terms: dict<IndexPostings>()
+		};
+		this._dirty = true;
+	}
+
+	/**
+	 * Checks if a document is in the index and is up to date with the given
+	 * modification time.
+	 * @param key {string} the artifact path for the document
+	 * @param [mtime] {number} the last modified time of the file in millis.
+	 * @returns {boolean} true if the document exists and is current,
+	 * otherwise false.
+	 */
+	public isCurrent(key: string, mtime: number = null): boolean {
+		if (has(this._data.docs, key)) {
+			return mtime == null || this._data.docs[key].mtime === mtime;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Retrieves the list of document keys that are in the index.
+	 * @returns {string[]} an array of artifact paths.
+	 */
+	public keys(): string[] {
+		return Object.keys(this._data.docs);
+	}
+
+	/**
+	 * Deletes a document from the index.  Only the postings of the terms
+	 * within the document are visited.
+	 * @param key {string} the artifact path for the document to remove
+	 */
+	public remove(key: string) {
+		if (has(this._data.docs, key)) {
+			for (const term of this._data.docs[key].terms) {
+				const postings = this._data.terms[term];
+				if (has(this._data.terms, term) && has(postings, key)) {
+					delete postings[key];
+					if (Object.keys(postings).length === 0) {
+						delete this._data.terms[term];
+					}
+				}
+			}
+
+			delete this._data.docs[key];
+			this._dirty = true;
+		}
+	}
+
+	/**
+	 * Deletes all documents whose key starts with the given prefix.  This is
+	 * used when a whole section or notebook is removed.
+	 * @param prefix {string} the path prefix of the documents to remove
+	 */
+	public removePrefix(prefix: string) {
+		for (const key of this.keys()) {
+			if (key.startsWith(prefix)) {
+				this.remove(key);
+			}
+		}
+	}
+
+	/**
+	 * Writes the index to disk if it has been changed since the last save.
+	 * @param [exclude] {Function} a function that is given the key of each
+	 * document.  When it returns true the document is kept in memory, but
+	 * it is not written to disk.
+	 */
+	public save(exclude: (key: string) => boolean = null) {
+		if (this._dirty) {
+			let data: IndexData = this._data;
+
+			if (exclude != null) {
+				data = {
+					version: indexVersion,
+					docs: dict<IndexDocument>(),
+					terms: dict<IndexPostings>()
+				};
+
+				for (const key of this.keys()) {
+					if (!exclude(key)) {
+						data.docs[key] = this._data.docs[key];
+					}
+				}
+
+				for (const term of Object.keys(this._data.terms)) {
+					for (const key of Object.keys(this._data.terms[term])) {
+						if (has(data.docs, key)) {
+							data.terms[term] = data.terms[term] || dict<number[]>();
+							data.terms[term][key] = this._data.terms[term][key];
+						}
+					}
+				}
+			}
+
+			writeAtomicSync(this._filename, encode(JSON.stringify(data), this._cipher));
+			this._dirty = false;
+		}
+	}
+
+	/**
+	 * Performs a search against the index.  The search string is parsed
+	 * with `parseSearch()`.  Each document that satisfies all clauses is
+	 * scored using tf-idf and returned in descending score order.
+	 * @param search {string} the search string to apply to the index
+	 * @returns {IndexMatch[]} a ranked list of documents with the positions
+	 * of each matching term.
+	 */
+	public search(search: string): IndexMatch[] {
+		const clauses = parseSearch(search);
+		if (clauses.length === 0) {
+			return [];
+		}
+
+		let candidates: Map<string, IndexMatch> = null;
+
+		for (const clause of clauses) {
+			const found = this.searchClause(clause);
+
+			if (candidates == null) {
+				candidates = found;
+			} else {
+				for (const key of Array.from(candidates.keys())) {
+					if (found.has(key)) {
+						const match = candidates.get(key);
+						match.score += found.get(key).score;
+						match.positions = match.positions.concat(found.get(key).positions);
+					} else {
+						candidates.delete(key);
+					}
+				}
+			}
+		}
+
+		return Array.from(candidates.values())
+			.map((match: IndexMatch) => {
+				match.positions.sort((a, b) => a.start - b.start);
+				return match;
+			})
+			.sort((a, b) => {
+				if (b.score !== a.score) {
+					return b.score - a.score;
+				}
+
+				return (a.path < b.path) ? -1 : (a.path > b.path) ? 1 : 0;
+			});
+	}
+
+	/**
+	 * Adds or replaces a document within the index.
+	 * @param key {string} the artifact path for the document
+	 * @param text {string} the full contents of the document
+	 * @param [mtime] {number} the last modified time of the file in millis.
+	 */
+	public update(key: string, text: string, mtime: number = Date.now()) {
+		this.remove(key);
+
+		const tokens = tokenize(text);
+		this._data.docs[key] = {
+			mtime: mtime,
+			offsets: tokens.map(it => it.offset),
+			terms: Array.from(new Set(tokens.map(it => it.term)))
+		};
+
+		tokens.forEach((token, ordinal: number) => {
+			if (!has(this._data.terms, token.term)) {
+				this._data.terms[token.term] = dict<number[]>();
+			}
+
+			const postings = this._data.terms[token.term];
+			if (!has(postings, key)) {
+				postings[key] = [];
+			}
+
+			postings[key].push(ordinal);
+		});
+
+		this._dirty = true;
+	}
+
+	//
+	// Properties
+	//
+
+	get cipher(): Cipher {
+		return this._cipher;
+	}
+
+	/**
+	 * Changes the cipher used for the file.  The file is written with the
+	 * new cipher on the next save.
+	 */
+	set cipher(val: Cipher) {
+		this._cipher = val;
+		this._dirty = true;
+	}
+
+	get dirty(): boolean {
+		return this._dirty;
+	}
+
+	get filename(): string {
+		return this._filename;
+	}
+
+	get size(): number {
+		return Object.keys(this._data.docs).length;
+	}
+
+	/**
+	 * Computes the inverse document frequency weight for a term that is
+	 * found in the given number of documents.
+	 * @param df {number} the number of documents that contain the term
+	 * @returns {number} the idf weight
+	 * @private
+	 */
+	private idf(df: number): number {
+		return Math.log(1 + (this.size / Math.max(df, 1)));
+	}
+
+	/**
+	 * Converts a list of term ordinals within a document to character
+	 * positions.
+	 * @param key {string} the artifact path for the document
+	 * @param ordinals {number[]} the ordinal of the first token of each match
+	 * @param terms {string[]} the terms covered by each match (used to
+	 * compute the end of the last token).
+	 * @returns {IndexPosition[]} a list of start/end character offsets
+	 * @private
+	 */
+	private positions(key: string, ordinals: number[], terms: string[]): IndexPosition[] {
+		const offsets = this._data.docs[key].offsets;
+		return ordinals.map((ordinal: number) => {
+			const last = ordinal + terms.length - 1;
+			return {
+				start: offsets[ordinal],
+				end: offsets[last] + terms[terms.length - 1].length
+			};
+		});
+	}
+
+	/**
+	 * Retrieves the postings of a term.
+	 * @param term {string} the term to find
+	 * @returns {IndexPostings} the ordinals of the term within each
+	 * document.  It is empty when the term isn't in the index.
+	 * @private
+	 */
+	private postings(term: string): IndexPostings {
+		return has(this._data.terms, term) ? this._data.terms[term] : dict<number[]>();
+	}
+
+	/**
+	 * Finds all of the documents that satisfy a single clause.
+	 * @param clause {IndexClause} the clause to search for
+	 * @returns {Map} a map of artifact path to match details
+	 * @private
+	 */
+	private searchClause(clause: IndexClause): Map<string, IndexMatch> {
+		const found: Map<string, IndexMatch> = new Map();
+
+		if (clause.type === 'prefix') {
+			const prefix = clause.terms[0];
+			for (const term of Object.keys(this._data.terms)) {
+				if (term.startsWith(prefix)) {
+					this.searchTerm(term, found);
+				}
+			}
+		} else if (clause.type === 'phrase' && clause.terms.length > 1) {
+			const first = this.postings(clause.terms[0]);
+			const idf = clause.terms.reduce((sum: number, term: string) => {
+				return sum + this.idf(Object.keys(this.postings(term)).length);
+			}, 0);
+
+			for (const key of Object.keys(first)) {
+				const ordinals = first[key].filter((ordinal: number) => {
+					return clause.terms.every((term: string, idx: number) => {
+						const postings = this.postings(term);
+						return has(postings, key) && postings[key].indexOf(ordinal + idx) !== -1;
+					});
+				});
+
+				if (ordinals.length > 0) {
+					found.set(key, {
+						path: key,
+						score: ordinals.length * idf,
+						positions: this.positions(key, ordinals, clause.terms)
+					});
+				}
+			}
+		} else {
+			this.searchTerm(clause.terms[0], found);
+		}
+
+		return found;
+	}
+
+	/**
+	 * Adds every document that contains the given term to the found map.
+	 * If the document is already in the map, then its score and positions
+	 * are combined.
+	 * @param term {string} the term to find
+	 * @param found {Map} the current map of matching documents
+	 * @private
+	 */
+	private searchTerm(term: string, found: Map<string, IndexMatch>) {
+		const postings = this.postings(term);
+		const idf = this.idf(Object.keys(postings).length);
+
+		for (const key of Object.keys(postings)) {
+			const positions = this.positions(key, postings[key], [term]);
+			const score = postings[key].length * idf;
+
+			if (found.has(key)) {
+				const match = found.get(key);
+				match.score += score;
+				match.positions = match.positions.concat(positions);
+			} else {
+				found.set(key, {
+					path: key,
+					score: score,
+					positions: positions
+				});
+			}
+		}
+	}
+}
@@ -0,0 +1,486 @@
+/**
+ * This module contains an optional HTTP server that exposes a BinderManager
+ * and its binders as REST routes.  Request and response bodies are JSON,
+ * and a request with a body must send it as `application/json`.  The
+ * routes are:
+ *
+ * - `GET /binders` - the names of the binders in the manager
+ * - `POST /binders` `{name}` - creates a binder in the default directory of
+ * the manager
+ * - `DELETE /binders/:binder` - moves a binder to the manager trash
+ * - `GET /binders/:binder/sections` - the sections of a binder
+ * - `GET /binders/:binder/sections/:section/notebooks` - the notebooks of
+ * a section
+ * - `GET /binders/:binder/artifacts/:section/:notebook/:filename` - an
+ * artifact with its contents
+ * - `POST /binders/:binder/artifacts` `{section, notebook, filename,
+ * content}` - creates an artifact
+ * - `POST /binders/:binder/rename` `{src, dst}` - renames an artifact
+ * - `POST /binders/:binder/trash` `{section, notebook, filename}` - moves an
+ * item to the trash
+ * - `POST /binders/:binder/restore` `{section, notebook, filename}` -
+ * restores an item from the trash
+ * - `GET /binders/:binder/find?search=...` - searches the artifacts
+ *
+ * Errors are returned as `{error: message}` with a status code that
+ * matches the error (e.g. 404 when a binder or artifact doesn't exist).
+ *
+ */
+
+'use strict';
+
+import * as http from 'http';
+import * as url from 'url';
+import {PromiseFn} from 'util.promise';
+import {failure} from 'util.toolbox';
+import {Artifact, ArtifactSearch} from './artifact';
+import {Binder} from './binder';
+import {BinderManager} from './bindermanager';
+
+export interface ServerOpts {
+	host?: string;
+	maxBodySize?: number;
+	port?: number;
+}
+
+export interface ArtifactInfo {
+	section: string;
+	notebook: string;
+	filename: string;
+	path: string;
+	tags: string[];
+	created: Date;
+	updated: Date;
+	content?: string;
+}
+
+export interface RouteRequest {
+	manager: BinderManager;
+	params: {[key: string]: string};
+	query: {[key: string]: any};
+	body: any;
+}
+
+export interface RouteResponse {
+	status: number;
+	body: any;
+}
+
+interface HttpError extends Error {
+	status: number;
+}
+
+interface Route {
+	method: string;
+	pattern: RegExp;
+	keys: string[];
+	handler: (req: RouteRequest) => Promise<RouteResponse>;
+}
+
+// Binder errors are rejected as strings, so the status code of an error is
+// chosen from its message.  The first match wins.
+const errorStatus: Array<[RegExp, number]> = [
+	[/not found|doesn't exist/i, 404],
+	[/already exists/i, 409],
+	[/is locked/i, 423],
+	[/invalid|required|no difference|does not match|can't be moved/i, 400]
+];
+
+// The fields of a request body that name an item in a binder
+const searchKeys: Array<'section' | 'notebook' | 'filename'> = ['section', 'notebook', 'filename'];
+
+const routes: Route[] = [
+	route('GET', '/binders', (req: RouteRequest) => {
+		return ok(req.manager.list());
+	}),
+
+	route('POST', '/binders', (req: RouteRequest) => {
+		const name: string = req.body.name;
+
+		if (name == null || name === '') {
+			return Promise.reject('A binder name is required');
+		}
+
+		if (req.manager.hasBinder(name)) {
+			return Promise.reject(`Binder '${name}' already exists`);
+		}
+
+		// Binders are only created in the default directory, so a client
+		// can't choose where the server writes.
+		if (req.manager.add(name, req.manager.defaultDirectory) === failure) {
+			return Promise.reject(`Invalid binder '${name}'`);
+		}
+
+		return ok({name: name}, 201);
+	}),
+
+	route('DELETE', '/binders/:binder', (req: RouteRequest) => {
+		return binder(req).then(() => ok({path: req.manager.remove(req.params.binder)}));
+	}),
+
+	route('GET', '/binders/:binder/sections', (req: RouteRequest) => {
+		return binder(req).then((adb: Binder) => ok(adb.sections()));
+	}),
+
+	route('GET', '/binders/:binder/sections/:section/notebooks', (req: RouteRequest) => {
+		return binder(req).then((adb: Binder) => {
+			if (!adb.hasSection({section: req.params.section})) {
+				return Promise.reject(`Section '${req.params.section}' not found in binder.`);
+			}
+
+			return ok(adb.notebooks(req.params.section));
+		});
+	}),
+
+	route('GET', '/binders/:binder/artifacts/:section/:notebook/:filename', (req: RouteRequest) => {
+		return binder(req)
+			.then((adb: Binder) => adb.get({
+				section: req.params.section,
+				notebook: req.params.notebook,
+				filename: req.params.filename
+			}))
+			.then((artifact: Artifact) => ok(artifactInfo(artifact, true)));
+	}),
+
+	route('POST', '/binders/:binder/artifacts', (req: RouteRequest) => {
+		const opts: ArtifactSearch = search(req.body);
+		let adb: Binder = null;
+
+		if (opts.section == null || opts.notebook == null || opts.filename == null) {
+			return Promise.reject('A section, notebook and filename are required');
+		}
+
+		return binder(req)
+			.then((it: Binder) => {
+				adb = it;
+				if (adb.hasArtifact(opts)) {
+					return Promise.reject(`Artifact '${opts.section}/${opts.notebook}/${opts.filename}' already exists`);
+				}
+
+				return adb.add(opts);
+			})
+			.then((artifact: Artifact) => {
+				if (req.body.content != null) {
+					artifact.buf = String(req.body.content);
+				}
+
+				return adb.saveArtifact(artifact);
+			})
+			.then((artifact: Artifact) => ok(artifactInfo(artifact, true), 201));
+	}),
+
+	route('POST', '/binders/:binder/rename', (req: RouteRequest) => {
+		if (req.body.src == null || req.body.dst == null) {
+			return Promise.reject('A src and dst are required');
+		}
+
+		return binder(req)
+			.then((adb: Binder) => adb.rename(search(req.body.src), search(req.body.dst)))
+			.then((artifact: Artifact) => ok(artifactInfo(artifact)));
+	}),
+
+	route('POST', '/binders/:binder/trash', (req: RouteRequest) => {
+		return binder(req)
+			.then((adb: Binder) => adb.trash(search(req.body)))
+			.then((artifact: Artifact) => ok(artifactInfo(artifact)));
+	}),
+
+	route('POST', '/binders/:binder/restore', (req: RouteRequest) => {
+		return binder(req)
+			.then((adb: Binder) => adb.restore(search(req.body)))
+			.then((artifact: Artifact) => ok(artifactInfo(artifact)));
+	}),
+
+	route('GET', '/binders/:binder/find', (req: RouteRequest) => {
+		const text: string = req.query.search;
+
+		if (text == null || text === '') {
+			return Promise.reject('A search string is required');
+		}
+
+		return binder(req)
+			.then((adb: Binder) => adb.find(text))
+			.then((artifacts: Artifact[]) => ok(artifacts.map((it: Artifact) => artifactInfo(it))));
+	})
+];
+
+/**
+ * Converts an artifact to the object that is returned by the server.
+ * @param artifact {Artifact} the artifact to convert
+ * @param [content] {boolean} when true the buffer of the artifact is
+ * included.
+ * @returns {ArtifactInfo} the details of the artifact
+ */
+export function artifactInfo(artifact: Artifact, content: boolean = false): ArtifactInfo {
+	const info: ArtifactInfo = {
+		section: artifact.section,
+		notebook: artifact.notebook,
+		filename: artifact.filename,
+		path: artifact.path(),
+		tags: artifact.tags,
+		created: artifact.created,
+		updated: artifact.updated
+	};
+
+	if (content) {
+		info.content = artifact.buf;
+	}
+
+	return info;
+}
+
+/**
+ * Chooses the HTTP status code for an error message.
+ * @param message {string} the error message
+ * @returns {number} the status code
+ */
+export function errorCode(message: string): number {
+	for (const [re, status] of errorStatus) {
+		if (re.test(message)) {
+			return status;
+		}
+	}
+
+	return 500;
+}
+
+/**
+ * Creates the HTTP server for a manager and starts listening.  Use a port
+ * of 0 to listen on any free port (see `server.address().port`).
+ *
+ * The thenable resolves to the `http.Server` once it is listening.  Call
+ * its `close()` to stop it.
+ *
+ * @param manager {BinderManager} the manager whose binders are exposed
+ * @param [opts] {ServerOpts} optional parameters
+ *
+ * - `host {string} default='localhost'`: the address to listen on
+ * - `maxBodySize {number} default=10MB`: the largest request body that is
+ * accepted.
+ * - `port {number} default=8080`: the port to listen on
+ * @returns {Promise} a javascript promise object
+ */
+export function startServer(manager: BinderManager, opts: ServerOpts = {}): Promise<http.Server> {
+	return new Promise((resolve: PromiseFn<http.Server>, reject: PromiseFn<string>) => {
+		opts = Object.assign({
+			host: 'localhost',
+			maxBodySize: 10 * 1024 * 1024,
+			port: 8080
+		}, opts);
+
+		const server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+			handleRequest(manager, opts, req)
+				.then((response: RouteResponse) => {
+					send(res, response.status, response.body);
+				})
+				.catch((err: HttpError | string) => {
+					const message: string = (err instanceof Error) ? err.message : String(err);
+					const status: number = (err instanceof Error && err.status) || errorCode(message);
+
+					// The rest of a body that is too large isn't read, so the
+					// connection is closed once the reply has been sent.
+					if (status === 413) {
+						res.once('finish', () => {
+							req.destroy();
+						});
+					}
+
+					send(res, status, {error: message});
+				});
+		});
+
+		server.once('error', (err: Error) => {
+			reject(err.message);
+		});
+
+		server.listen(opts.port, opts.host, () => {
+			resolve(server);
+		});
+	});
+}
+
+/**
+ * Retrieves the binder named in the route parameters.
+ * @param req {RouteRequest} the request for the route
+ * @returns {Promise} a javascript promise object that resolves to the binder
+ */
+function binder(req: RouteRequest): Promise<Binder> {
+	const adb: Binder = req.manager.get(req.params.binder);
+
+	if (adb == null) {
+		return Promise.reject(`Binder '${req.params.binder}' not found in manager`);
+	}
+
+	return Promise.resolve(adb);
+}
+
+/**
+ * Finds the route for a request, reads its body and calls the handler.
+ * @param manager {BinderManager} the manager given to `startServer()`
+ * @param opts {ServerOpts} the server options
+ * @param req {http.IncomingMessage} the request
+ * @returns {Promise} a javascript promise object that resolves to the
+ * response.
+ */
+function handleRequest(manager: BinderManager, opts: ServerOpts, req: http.IncomingMessage): Promise<RouteResponse> {
+	const location = url.parse(req.url, true);
+	const pathname: string = location.pathname.replace(/\/+$/, '') || '/';
+	let allowed: boolean = false;
+
+	for (const it of routes) {
+		const match = it.pattern.exec(pathname);
+
+		if (match != null && it.method !== req.method) {
+			allowed = true;
+		} else if (match != null) {
+			const params: {[key: string]: string} = {};
+
+			try {
+				it.keys.forEach((key: string, idx: number) => {
+					params[key] = decodeURIComponent(match[idx + 1]);
+				});
+			} catch (err) {
+				return Promise.reject(httpError(400, `Invalid path ${pathname}`));
+			}
+
+			return readBody(req, opts.maxBodySize)
+				.then((body: any) => it.handler({
+					manager: manager,
+					params: params,
+					query: location.query,
+					body: body
+				}));
+		}
+	}
+
+	return Promise.reject(httpError((allowed) ? 405 : 404,
+		(allowed) ? `Method ${req.method} not allowed for ${pathname}` : `Route ${pathname} not found`));
+}
+
+/**
+ * Creates an error with a status code that is used instead of the status
+ * chosen from its message.
+ * @param status {number} the HTTP status code
+ * @param message {string} the error message
+ * @returns {Error} the new error
+ */
+function httpError(status: number, message: string): HttpError {
+	return Object.assign(new Error(message), {status});
+}
+
+/**
+ * Creates a successful response.
+ * @param body {any} the object returned as JSON
+ * @param [status] {number} the HTTP status code
+ * @returns {Promise} a javascript promise object that resolves to the
+ * response.
+ */
+function ok(body: any, status: number = 200): Promise<RouteResponse> {
+	return Promise.resolve({status, body});
+}
+
+/**
+ * Reads the JSON body of a request.  An empty body is an empty object.  A
+ * body that isn't sent as `application/json` is refused, so a request from
+ * a web form can't call the routes.
+ * @param req {http.IncomingMessage} the request to read
+ * @param maxBodySize {number} the largest body that is accepted
+ * @returns {Promise} a javascript promise object that resolves to the
+ * parsed body.
+ */
+function readBody(req: http.IncomingMessage, maxBodySize: number) {
+	return new Promise((resolve: PromiseFn<any>, reject: PromiseFn<Error>) => {
+		const chunks: Buffer[] = [];
+		let size: number = 0;
+
+		const onData = (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > maxBodySize) {
+				req.removeListener('data', onData);
+				req.pause();
+				reject(httpError(413, 'The request body is too large'));
+			} else {
+				chunks.push(chunk);
+			}
+		};
+
+		req.on('data', onData);
+
+		req.on('end', () => {
+			const text: string = Buffer.concat(chunks).toString().trim();
+			const type: string = String(req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+			if (text !== '' && type !== 'application/json') {
+				reject(httpError(415, 'The request body must be application/json'));
+				return;
+			}
+
+			try {
+				resolve((text === '') ? {} : JSON.parse(text));
+			} catch (err) {
+				reject(httpError(400, `Invalid JSON body: ${err.message}`));
+			}
+		});
+
+		req.on('error', (err: Error) => {
+			reject(err);
+		});
+	});
+}
+
+/**
+ * Creates a route from a path template.  Each `:name` part of the template
+ * matches one part of the request path, which is given to the handler in
+ * `params`.
+ * @param method {string} the HTTP method of the route
+ * @param template {string} the path template of the route
+ * @param handler {Function} called with the request for the route
+ * @returns {Route} the new route
+ */
+function route(method: string, template: string, handler: (req: RouteRequest) => Promise<RouteResponse>): Route {
+	const keys: string[] = [];
+	const pattern = template.replace(/:\w+/g, (param: string) => {
+		keys.push(param.slice(1));
+		return '([^/]+)';
+	});
+
+	return {
+		method: method,
+		pattern: new RegExp(`^${pattern}$`),
+		keys: keys,
+		handler: handler
+	};
+}
+
+/**
+ * Copies the section, notebook and filename from a request body.
+ * @param body {any} the request body
+ * @returns {ArtifactSearch} the item the body refers to
+ */
+function search(body: any): ArtifactSearch {
+	const opts: ArtifactSearch = {};
+
+	for (const key of searchKeys) {
+		if (body != null && body[key] != null && body[key] !== '') {
+			opts[key] = String(body[key]);
+		}
+	}
+
+	return opts;
+}
+
+/**
+ * Writes a JSON response.
+ * @param res {http.ServerResponse} the response to write
+ * @param status {number} the HTTP status code
+ * @param body {any} the object written as JSON
+ */
+function send(res: http.ServerResponse, status: number, body: any) {
+	const data: string = JSON.stringify(body);
+
+	res.writeHead(status, {
+		'Content-Length': Buffer.byteLength(data),
+		'Content-Type': 'application/json; charset=utf-8'
+	});
+	res.end(data);
+}
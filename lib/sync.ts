@@ -0,0 +1,241 @@
+/**
+ * This module contains the planning and the saved state for a two way sync
+ * between a binder and another directory.  A sync compares the content
+ * hash of each artifact in the binder and in the directory with the hash
+ * that both sides had after the last sync.  This tells which side changed
+ * an artifact since then.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {checksum, tempExt, writeAtomicSync} from './savejournal';
+
+const walk = require('klaw-sync');
+
+export interface SyncHashes {
+	[key: string]: string;
+}
+
+export interface SyncAction {
+	action: string;
+	path: string;
+}
+
+export interface SyncChanges {
+	added: string[];
+	updated: string[];
+	trashed: string[];
+	removed: string[];
+}
+
+export interface SyncConflict {
+	path: string;
+	copy: string;
+}
+
+export interface SyncSkip {
+	path: string;
+	reason: string;
+}
+
+export interface SyncReport {
+	directory: string;
+	local: SyncChanges;
+	remote: SyncChanges;
+	conflicts: SyncConflict[];
+	skipped: SyncSkip[];
+}
+
+/**
+ * Decides what must happen to each artifact to bring the binder (local)
+ * and the directory (remote) back in line.  The actions are:
+ *
+ * - `push` - the local artifact is new or changed and is copied to the
+ * directory.
+ * - `pull` - the remote artifact is new or changed and is copied to the
+ * binder.
+ * - `trashLocal`/`trashRemote` - the artifact was moved to the trash on
+ * the other side, so it is moved to the trash on this side.
+ * - `removeLocal`/`removeRemote` - the artifact was removed on the other
+ * side, so it is removed on this side.
+ * - `conflict` - both sides changed the artifact.
+ *
+ * A change always wins over a trash or remove on the other side.
+ *
+ * @param local {SyncHashes} the hash of each artifact in the binder
+ * @param remote {SyncHashes} the hash of each artifact in the directory
+ * @param base {SyncHashes} the hash of each artifact after the last sync
+ * @param localTrash {Set<string>} the paths in the trash of the binder
+ * @param remoteTrash {Set<string>} the paths in the trash of the directory
+ * @returns {SyncAction[]} the list of actions sorted by path
+ */
+export function planSync(local: SyncHashes, remote: SyncHashes, base: SyncHashes, localTrash: Set<string>, remoteTrash: Set<string>): SyncAction[] {
+	const paths: Set<string> = new Set(Object.keys(local).concat(Object.keys(remote), Object.keys(base)));
+	const actions: SyncAction[] = [];
+
+	for (const key of paths) {
+		const l: string = local[key];
+		const r: string = remote[key];
+		const b: string = base[key];
+		let action: string = null;
+
+		if (l === r) {
+			continue;
+		} else if (r == null) {
+			if (b === l) {
+				action = remoteTrash.has(key) ? 'trashLocal' : 'removeLocal';
+			} else {
+				action = 'push';
+			}
+		} else if (l == null) {
+			if (b === r) {
+				action = localTrash.has(key) ? 'trashRemote' : 'removeRemote';
+			} else {
+				action = 'pull';
+			}
+		} else if (b === l) {
+			action = 'pull';
+		} else if (b === r) {
+			action = 'push';
+		} else {
+			action = 'conflict';
+		}
+
+		actions.push({action: action, path: key});
+	}
+
+	return actions.sort((a: SyncAction, b: SyncAction) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Computes the content hash of each artifact file below a directory.  Only
+ * files that are three levels deep ({section}/{notebook}/{filename}) are
+ * artifacts, unless the binder has nested notebooks.  Hidden directories
+ * (like `.git`) and temporary save files are skipped.
+ * @param directory {string} the directory to scan
+ * @param [exclude] {string[]} names of sections that are skipped (like
+ * the `Trash`).
+ * @param [nested] {boolean} when true, files deeper than three levels are
+ * also artifacts.
+ * @returns {SyncHashes} the hash of each artifact keyed by its path
+ */
+export function hashDirectory(directory: string, exclude: string[] = [], nested: boolean = false): SyncHashes {
+	const hashes: SyncHashes = {};
+
+	if (!fs.existsSync(directory)) {
+		return hashes;
+	}
+
+	const files = walk(directory, {
+		filter: (item: any) => {
+			const relpath: string = path.relative(directory, item.path);
+			return !relpath.split('/').some((it: string) => it.startsWith('.')) &&
+				!exclude.includes(relpath.split('/')[0]);
+		},
+		noRecurseOnFailedFilter: true
+	});
+
+	for (const file of files) {
+		const relpath: string = path.relative(directory, file.path);
+
+		const depth: number = relpath.split('/').length;
+
+		if (file.stats.isFile() && (depth === 3 || (nested && depth > 3)) && !relpath.endsWith(tempExt)) {
+			hashes[relpath] = checksum(fs.readFileSync(file.path));
+		}
+	}
+
+	return hashes;
+}
+
+/**
+ * Computes the hashes that both sides share after a sync.
+ * @param local {SyncHashes} the hashes of the binder
+ * @param remote {SyncHashes} the hashes of the directory
+ * @returns {SyncHashes} the hashes that are the same on both sides
+ */
+export function sharedHashes(local: SyncHashes, remote: SyncHashes): SyncHashes {
+	const hashes: SyncHashes = {};
+
+	for (const key of Object.keys(local)) {
+		if (local[key] === remote[key]) {
+			hashes[key] = local[key];
+		}
+	}
+
+	return hashes;
+}
+
+/**
+ * Creates an empty sync report.
+ * @param directory {string} the directory that was synced
+ * @returns {SyncReport} the new report
+ */
+export function syncReport(directory: string): SyncReport {
+	const changes = (): SyncChanges => ({added: [], updated: [], trashed: [], removed: []});
+
+	return {
+		directory: directory,
+		local: changes(),
+		remote: changes(),
+		conflicts: [],
+		skipped: []
+	};
+}
+
+/**
+ * Keeps the hashes of the artifacts after the last sync with each
+ * directory.  The state is saved as a JSON file in the binder
+ * configuration directory.
+ */
+export class SyncState {
+
+	private _filename: string = '';
+	private _state: {[key: string]: SyncHashes} = {};
+
+	/**
+	 * Creates a new sync state instance and reads the saved state.
+	 * @param filename {string} the file where the state is kept
+	 */
+	constructor(filename: string) {
+		this._filename = filename;
+
+		if (fs.existsSync(filename)) {
+			this._state = JSON.parse(fs.readFileSync(filename).toString());
+		}
+	}
+
+	/**
+	 * Retrieves the hashes from the last sync with a directory.
+	 * @param directory {string} the synced directory
+	 * @returns {SyncHashes} the hashes, empty if it was never synced
+	 */
+	public get(directory: string): SyncHashes {
+		return this._state[directory] || {};
+	}
+
+	/**
+	 * Replaces the hashes for a directory and saves the state.
+	 * @param directory {string} the synced directory
+	 * @param hashes {SyncHashes} the hashes that both sides have now
+	 */
+	public set(directory: string, hashes: SyncHashes) {
+		this._state[directory] = hashes;
+		writeAtomicSync(this._filename, JSON.stringify(this._state, null, '\t'));
+	}
+
+	//
+	// Properties
+	//
+
+	get directories(): string[] {
+		return Object.keys(this._state);
+	}
+
+	get filename(): string {
+		return this._filename;
+	}
+}
@@ -0,0 +1,192 @@
+/**
+ * This module contains the helper functions for hierarchical tags and the
+ * tag index used by the Binder.  Tags are nested with a `/` separator, so
+ * the tag `project/alpha` is a child of the tag `project`.
+ *
+ */
+
+'use strict';
+
+export interface TagInfo {
+	name: string;
+	count: number;
+}
+
+/**
+ * Cleans up the given tag name.  Whitespace around each level is removed
+ * along with empty levels (e.g. ` project//alpha/ ` => `project/alpha`).
+ * @param tag {string} the tag name to clean
+ * @returns {string} the normalized tag name
+ */
+export function normalizeTag(tag: string): string {
+	return (tag || '')
+		.split('/')
+		.map((it: string) => it.trim())
+		.filter((it: string) => it !== '')
+		.join('/');
+}
+
+/**
+ * Computes each level of a hierarchical tag, from the top down.
+ * e.g. `a/b/c` => `['a', 'a/b', 'a/b/c']`
+ * @param tag {string} the tag name
+ * @returns {string[]} the tag and all of its parents.
+ */
+export function tagAncestors(tag: string): string[] {
+	const ancestors: string[] = [];
+	let current: string = '';
+
+	for (const level of normalizeTag(tag).split('/')) {
+		current = (current === '') ? level : `${current}/${level}`;
+		ancestors.push(current);
+	}
+
+	return ancestors;
+}
+
+/**
+ * Checks if a tag is the same as, or a child of, another tag.
+ * @param tag {string} the tag to check
+ * @param parent {string} the parent tag
+ * @returns {boolean} true if the tag is the parent or one of its children,
+ * otherwise false.
+ */
+export function isTagOf(tag: string, parent: string): boolean {
+	tag = normalizeTag(tag);
+	parent = normalizeTag(parent);
+
+	return tag === parent || tag.startsWith(`${parent}/`);
+}
+
+/**
+ * Renames a tag within a list of tags.  The children of the tag are moved
+ * with it, so renaming `project` to `work` changes `project/alpha` to
+ * `work/alpha`.  If the list already has the new tag, then the two are
+ * merged.
+ * @param tags {string[]} the list of tags to change
+ * @param from {string} the name of the tag to change
+ * @param to {string} the new name of the tag
+ * @returns {string[]} a new list of tags or null if the tag wasn't found.
+ */
+export function renameTags(tags: string[], from: string, to: string): string[] {
+	from = normalizeTag(from);
+	to = normalizeTag(to);
+
+	if (from === '' || to === '' || !(tags || []).some((it: string) => isTagOf(it, from))) {
+		return null;
+	}
+
+	const renamed = tags.map((it: string) => {
+		return isTagOf(it, from) ? `${to}${normalizeTag(it).slice(from.length)}` : it;
+	});
+
+	return renamed.filter((it: string, idx: number) => renamed.indexOf(it) === idx);
+}
+
+/**
+ * Keeps a mapping of tags to the artifacts that use them.  Artifacts are
+ * referenced by their path within the binder.  A parent tag refers to all
+ * artifacts that use it or any of its children.
+ */
+export class TagIndex {
+
+	private _keys: Map<string, string[]> = new Map();
+	private _tags: Map<string, Set<string>> = new Map();
+
+	/**
+	 * Removes all artifacts and tags from the index.
+	 */
+	public clear() {
+		this._keys.clear();
+		this._tags.clear();
+	}
+
+	/**
+	 * Finds the artifacts that use a tag (or one of its children).
+	 * @param tag {string} the tag to find
+	 * @returns {string[]} a sorted list of artifact paths.
+	 */
+	public find(tag: string): string[] {
+		const keys = this._tags.get(normalizeTag(tag));
+		return (keys == null) ? [] : Array.from(keys).sort();
+	}
+
+	/**
+	 * Retrieves every tag in the index with the number of artifacts that use
+	 * it.  Parent tags are included even if they are only used through one
+	 * of their children.
+	 * @returns {TagInfo[]} a list of tags sorted by name.
+	 */
+	public list(): TagInfo[] {
+		return Array.from(this._tags.keys())
+			.sort()
+			.map((tag: string) => ({
+				name: tag,
+				count: this._tags.get(tag).size
+			}));
+	}
+
+	/**
+	 * Removes an artifact from the index.
+	 * @param key {string} the artifact path
+	 */
+	public remove(key: string) {
+		if (this._keys.has(key)) {
+			for (const tag of this._keys.get(key)) {
+				const keys = this._tags.get(tag);
+				keys.delete(key);
+				if (keys.size === 0) {
+					this._tags.delete(tag);
+				}
+			}
+
+			this._keys.delete(key);
+		}
+	}
+
+	/**
+	 * Removes all artifacts whose path starts with the given prefix.
+	 * @param prefix {string} the path prefix of the artifacts to remove
+	 */
+	public removePrefix(prefix: string) {
+		for (const key of Array.from(this._keys.keys())) {
+			if (key.startsWith(prefix)) {
+				this.remove(key);
+			}
+		}
+	}
+
+	/**
+	 * Sets the tags for an artifact, replacing any it had before.
+	 * @param key {string} the artifact path
+	 * @param tags {string[]} the tags used by the artifact
+	 */
+	public set(key: string, tags: string[]) {
+		this.remove(key);
+
+		const all: Set<string> = new Set();
+		for (const tag of tags || []) {
+			if (normalizeTag(tag) !== '') {
+				tagAncestors(tag).forEach((it: string) => all.add(it));
+			}
+		}
+
+		if (all.size > 0) {
+			this._keys.set(key, Array.from(all));
+			for (const tag of all) {
+				if (!this._tags.has(tag)) {
+					this._tags.set(tag, new Set());
+				}
+				this._tags.get(tag).add(key);
+			}
+		}
+	}
+
+	//
+	// Properties
+	//
+
+	get size(): number {
+		return this._tags.size;
+	}
+}
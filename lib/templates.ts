@@ -0,0 +1,68 @@
+/**
+ * This module contains the placeholder substitution for note templates.
+ * Templates are artifacts kept in a reserved section of a binder.  A new
+ * artifact made from a template gets the text of the template with each
+ * `{{name}}` placeholder replaced by its value.
+ *
+ */
+
+'use strict';
+
+import {ArtifactSearch} from './artifact';
+
+export interface TemplateVars {
+	[key: string]: string;
+}
+
+export const templateSection: string = 'Templates';
+
+const rePlaceholder: RegExp = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Pads a number with a leading zero to two digits.
+ * @param n {number} the number to pad
+ * @returns {string} the padded number
+ * @private
+ */
+function pad(n: number): string {
+	return (n < 10) ? `0${n}` : String(n);
+}
+
+/**
+ * Replaces the `{{name}}` placeholders in a template with their values.
+ * Placeholders without a value are left as they are.
+ * @param text {string} the text of the template
+ * @param vars {TemplateVars} the value of each placeholder
+ * @returns {string} the text with the placeholders replaced
+ */
+export function fillTemplate(text: string, vars: TemplateVars): string {
+	return (text || '').replace(rePlaceholder, (placeholder: string, name: string) => {
+		return Object.prototype.hasOwnProperty.call(vars, name) ? String(vars[name]) : placeholder;
+	});
+}
+
+/**
+ * Builds the built in placeholder values for a new artifact:
+ *
+ * - `date` - the local date as `YYYY-MM-DD`
+ * - `time` - the local time as `HH:MM`
+ * - `section`, `notebook`, `filename` - the location of the new artifact
+ * - `title` - the filename without its extension
+ *
+ * @param search {ArtifactSearch} the location of the new artifact
+ * @param [date] {Date} the date used for `date` and `time`
+ * @returns {TemplateVars} the placeholder values
+ */
+export function templateVars(search: ArtifactSearch, date: Date = new Date()): TemplateVars {
+	const filename: string = search.filename || '';
+	const ext: number = filename.lastIndexOf('.');
+
+	return {
+		date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+		time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+		section: search.section || '',
+		notebook: search.notebook || '',
+		filename: filename,
+		title: (ext > 0) ? filename.slice(0, ext) : filename
+	};
+}
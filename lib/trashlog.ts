@@ -0,0 +1,229 @@
+/**
+ * This module contains the log of the items in the trash of a binder.  When
+ * a section, notebook or artifact is moved to the trash its original path,
+ * the time it was deleted and who deleted it are recorded, so the trash can
+ * be listed and emptied by section or age.
+ *
+ */
+
+'use strict';
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import {Cipher, encode, readSecureFile} from './cipher';
+import {writeAtomicSync} from './savejournal';
+
+export interface TrashEntry {
+	deleted: Date;
+	deletedBy: string;
+	location: string;
+	original: string;
+}
+
+export interface TrashOpts {
+	olderThan?: number;
+	section?: string;
+}
+
+export interface TrashRecord {
+	deleted: number;
+	deletedBy: string;
+	original: string;
+}
+
+export interface TrashData {
+	version: number;
+	entries: {[key: string]: TrashRecord};
+}
+
+export const trashVersion: number = 1;
+
+const msPerDay: number = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the name of the user that runs the program.  The environment is
+ * used when the operating system can't give the name.
+ * @param [env] {object} the environment variables
+ * @returns {string} the name of the user or an empty string if it isn't
+ * known.
+ */
+export function currentUser(env: any = process.env): string {
+	try {
+		return os.userInfo().username;
+	} catch (err) {
+		return env.USER || env.USERNAME || '';
+	}
+}
+
+/**
+ * Checks if a trash entry is selected by the given options.
+ * @param entry {TrashEntry} the entry to check
+ * @param opts {TrashOpts} the selection
+ *
+ * - `olderThan {number}`: only entries deleted more than this many days
+ * ago are selected.
+ * - `section {string}`: only entries in this section of the trash are
+ * selected.
+ *
+ * @param [now] {number} the current time in millis
+ * @returns {boolean} true if the entry is selected, otherwise false.
+ */
+export function trashSelected(entry: TrashEntry, opts: TrashOpts, now: number = Date.now()): boolean {
+	if (opts.section != null && entry.location.split('/')[0] !== opts.section) {
+		return false;
+	}
+
+	if (opts.olderThan != null && entry.deleted.getTime() > now - (opts.olderThan * msPerDay)) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * A persistent log of the items in the trash.  Each entry is keyed by the
+ * location of the item within the `Trash` directory.  The location can
+ * differ from the original path when the name was made unique.
+ */
+export class TrashLog {
+
+	private _cipher: Cipher = null;
+	private _data: TrashData = {
+		version: trashVersion,
+		entries: {}
+	};
+	private _dirty: boolean = false;
+	private _filename: string = '';
+
+	/**
+	 * Creates a new trash log instance.  If the given file exists, then it
+	 * is loaded.  If the file can't be parsed, or it is from a different
+	 * version, then an empty log is used.
+	 * @param filename {string} the location of the trash log on disk.
+	 * @param [cipher] {Cipher} when given, the file is encrypted with it.
+	 */
+	constructor(filename: string, cipher: Cipher = null) {
+		this._filename = filename;
+		this._cipher = cipher;
+
+		if (fs.existsSync(filename)) {
+			try {
+				const data: TrashData = JSON.parse(readSecureFile(filename, cipher));
+				if (data.version === trashVersion) {
+					this._data = data;
+				}
+			} catch (err) {
+				this._dirty = true;
+			}
+		}
+	}
+
+	/**
+	 * Records an item that was moved to the trash.  An entry for the same
+	 * location (or an item within it) is replaced.
+	 * @param location {string} the path of the item within the trash
+	 * @param original {string} the path of the item before it was trashed
+	 * @param deletedBy {string} the user that deleted the item
+	 * @param [deleted] {Date} the time the item was deleted
+	 * @returns {TrashEntry} the new entry
+	 */
+	public add(location: string, original: string, deletedBy: string, deleted: Date = new Date()): TrashEntry {
+		this.remove(location);
+
+		this._data.entries[location] = {
+			deleted: deleted.getTime(),
+			deletedBy: deletedBy,
+			original: original
+		};
+		this._dirty = true;
+
+		return this.get(location);
+	}
+
+	/**
+	 * Removes all entries from the log.
+	 */
+	public clear() {
+		this._data = {
+			version: trashVersion,
+			entries: {}
+		};
+		this._dirty = true;
+	}
+
+	/**
+	 * Retrieves the entry for an item in the trash.
+	 * @param location {string} the path of the item within the trash
+	 * @returns {TrashEntry} the entry or null if the item isn't recorded.
+	 */
+	public get(location: string): TrashEntry {
+		const record: TrashRecord = this._data.entries[location];
+
+		if (record == null) {
+			return null;
+		}
+
+		return {
+			deleted: new Date(record.deleted),
+			deletedBy: record.deletedBy,
+			location: location,
+			original: record.original
+		};
+	}
+
+	/**
+	 * Retrieves the locations of the recorded items.
+	 * @returns {string[]} the paths of the items within the trash
+	 */
+	public keys(): string[] {
+		return Object.keys(this._data.entries);
+	}
+
+	/**
+	 * Removes the entry for an item and the entries for the items within it.
+	 * @param location {string} the path of the item within the trash
+	 */
+	public remove(location: string) {
+		for (const key of this.keys()) {
+			if (key === location || key.startsWith(`${location}/`)) {
+				delete this._data.entries[key];
+				this._dirty = true;
+			}
+		}
+	}
+
+	/**
+	 * Writes the log to disk if it has been changed since the last save.
+	 */
+	public save() {
+		if (this._dirty) {
+			writeAtomicSync(this._filename, encode(JSON.stringify(this._data), this._cipher));
+			this._dirty = false;
+		}
+	}
+
+	//
+	// Properties
+	//
+
+	get cipher(): Cipher {
+		return this._cipher;
+	}
+
+	/**
+	 * Changes the cipher used for the file.  The file is written with the
+	 * new cipher on the next save.
+	 */
+	set cipher(val: Cipher) {
+		this._cipher = val;
+		this._dirty = true;
+	}
+
+	get dirty(): boolean {
+		return this._dirty;
+	}
+
+	get filename(): string {
+		return this._filename;
+	}
+}
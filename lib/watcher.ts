@@ -0,0 +1,200 @@
+/**
+ * This module contains the file system watcher used by the Binder to find
+ * changes made to its files by other programs.
+ *
+ */
+
+'use strict';
+
+import {EventEmitter} from 'events';
+import * as fs from 'fs-extra';
+import {join} from 'util.join';
+
+export interface WatcherOpts {
+	delay?: number;
+	depth?: number;
+	ignore?: string[];
+}
+
+/**
+ * Watches the directories of a binder for changes.  A watch is placed on
+ * the root directory and each directory below it (sections and notebooks).
+ * The changes are collected until no new change is seen for `delay`
+ * millis and are then emitted together as a `changes` event.  The event
+ * holds a sorted list of the paths (relative to the root) that changed.
+ * The watcher doesn't say what happened to each path.  The receiver checks
+ * the file system to see if the path was created, changed or removed.
+ *
+ * Errors from the underlying watches are emitted as an `error` event.
+ */
+export class Watcher extends EventEmitter {
+
+	private _changes: Set<string> = new Set();
+	private _opts: WatcherOpts = {
+		delay: 100,
+		depth: 2,
+		ignore: []
+	};
+	private _root: string = '';
+	private _timer: any = null;
+	private _watchers: Map<string, fs.FSWatcher> = new Map();
+
+	/**
+	 * Creates a new watcher instance.  The watch is not started until
+	 * `start()` is called.
+	 * @param root {string} the directory to watch
+	 * @param [opts] {WatcherOpts} optional parameters
+	 *
+	 * - `delay {number} default=100`: the number of millis to wait for more
+	 * changes before they are emitted.
+	 * - `depth {number} default=2`: the number of directory levels below the
+	 * root that are watched.
+	 * - `ignore {string[]}`: paths that contain any of these strings are
+	 * not watched or reported.
+	 */
+	constructor(root: string, opts?: WatcherOpts) {
+		super();
+
+		this._root = root;
+		this._opts = Object.assign(this._opts, opts);
+	}
+
+	/**
+	 * Stops all of the directory watches.  Changes that were not yet
+	 * emitted are discarded.
+	 */
+	public close() {
+		if (this._timer != null) {
+			clearTimeout(this._timer);
+			this._timer = null;
+		}
+
+		for (const watcher of this._watchers.values()) {
+			watcher.close();
+		}
+
+		this._watchers.clear();
+		this._changes.clear();
+	}
+
+	/**
+	 * Places a watch on the root directory and every directory below it.
+	 */
+	public start() {
+		this.watchDirectory('');
+	}
+
+	//
+	// Properties
+	//
+
+	get directories(): string[] {
+		return Array.from(this._watchers.keys()).sort();
+	}
+
+	get root(): string {
+		return this._root;
+	}
+
+	get watching(): boolean {
+		return this._watchers.size > 0;
+	}
+
+	/**
+	 * Called when the collection delay ends.  Watches on directories that no
+	 * longer exist are closed, and then the changes are emitted.
+	 * @private
+	 */
+	private flush() {
+		this._timer = null;
+
+		for (const [dir, watcher] of Array.from(this._watchers.entries())) {
+			if (!fs.existsSync(join(this._root, dir))) {
+				watcher.close();
+				this._watchers.delete(dir);
+			}
+		}
+
+		const changes = Array.from(this._changes).sort();
+		this._changes.clear();
+
+		if (changes.length > 0) {
+			this.emit('changes', changes);
+		}
+	}
+
+	/**
+	 * Checks if a path is in the ignore list.
+	 * @param relpath {string} the path relative to the root
+	 * @returns {boolean} true if the path should be ignored, otherwise false.
+	 * @private
+	 */
+	private isIgnored(relpath: string): boolean {
+		return this._opts.ignore.some((it: string) => relpath.indexOf(it) > -1);
+	}
+
+	/**
+	 * Records a change to a path and restarts the collection delay.  When a
+	 * new directory is created a watch is placed on it.
+	 * @param dir {string} the watched directory (relative to the root)
+	 * @param filename {string} the name of the file that changed.  This can
+	 * be null on some platforms, so the directory itself is reported.  The
+	 * directory is also reported when it was the thing that was removed.
+	 * @private
+	 */
+	private onChange(dir: string, filename: string) {
+		let relpath = (dir === '') ? filename : `${dir}/${filename}`;
+		if (filename == null || !fs.existsSync(join(this._root, dir))) {
+			relpath = dir;
+		}
+
+		if (relpath === '' || this.isIgnored(relpath)) {
+			return;
+		}
+
+		const absolute = join(this._root, relpath);
+		if (!this._watchers.has(relpath) && fs.existsSync(absolute) && fs.lstatSync(absolute).isDirectory()) {
+			this.watchDirectory(relpath);
+		}
+
+		this._changes.add(relpath);
+
+		if (this._timer != null) {
+			clearTimeout(this._timer);
+		}
+		this._timer = setTimeout(this.flush.bind(this), this._opts.delay);
+	}
+
+	/**
+	 * Places a watch on a directory and each directory below it, up to the
+	 * configured depth.
+	 * @param dir {string} the directory to watch (relative to the root)
+	 * @private
+	 */
+	private watchDirectory(dir: string) {
+		const absolute = (dir === '') ? this._root : join(this._root, dir);
+		const depth = (dir === '') ? 0 : dir.split('/').length;
+
+		if (depth > this._opts.depth || this._watchers.has(dir) || !fs.existsSync(absolute)) {
+			return;
+		}
+
+		const watcher = fs.watch(absolute, (event: string, filename: string) => {
+			event.toString();
+			this.onChange(dir, (filename == null) ? null : filename.toString());
+		});
+
+		watcher.on('error', (err: Error) => {
+			this.emit('error', err);
+		});
+
+		this._watchers.set(dir, watcher);
+
+		for (const name of fs.readdirSync(absolute)) {
+			const relpath = (dir === '') ? name : `${dir}/${name}`;
+			if (!this.isIgnored(relpath) && fs.lstatSync(join(absolute, name)).isDirectory()) {
+				this.watchDirectory(relpath);
+			}
+		}
+	}
+}
@@ -218,6 +218,36 @@ test('Testing artifact with factory treeitem too many items on creation', t => {
 	t.pass();
 });
 
+test('Testing artifact with factory treeitem nested notebook creation', t => {
+	const fixture = new Fixture();
+	const artifact = Artifact.factory('treeitem', {
+		nested: true,
+		treeitem: 'section/notebook/blah1/blah2/filename',
+		root: fixture.dir
+	});
+
+	validateArtifact(t, artifact, {
+		section: 'section',
+		notebook: 'notebook/blah1/blah2',
+		filename: 'filename',
+		type: ArtifactType.SNA
+	});
+
+	t.is(artifact.path(), 'section/notebook/blah1/blah2/filename');
+
+	validateArtifact(t, Artifact.factory('treeitem', {nested: true, treeitem: 'section/notebook/blah1/'}), {
+		section: 'section',
+		notebook: 'notebook/blah1',
+		type: ArtifactType.SN
+	});
+
+	validateArtifact(t, Artifact.factory('treeitem', {nested: true, treeitem: 'section/notebook'}), {
+		section: 'section',
+		notebook: 'notebook',
+		type: ArtifactType.SN
+	});
+});
+
 test('Test with an unknown mode sent to factory', t => {
 	const artifact = Artifact.factory('blahblahblah');
 	validateArtifact(t, artifact, {});
@@ -0,0 +1,77 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, AttachmentInfo, Binder} from '../index';
+import {attachmentHash} from '../lib/attachments';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test adding, moving and removing attachments of artifacts', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const test3 = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const test4 = {section: 'Test2', notebook: 'Default', filename: 'test4.txt'};
+	const renamed = {section: 'Test1', notebook: 'Default', filename: 'renamed.txt'};
+	const data = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0x0d, 0x0a]);
+	const hash = attachmentHash(data);
+	const stored = path.join(adb.config.attachmentDir, hash.slice(0, 2), hash);
+
+	await adb.addAttachment(test3, '/tmp/diagram.png', data)
+		.then((info: AttachmentInfo) => {
+			t.is(info.name, 'diagram.png');
+			t.is(info.hash, hash);
+			t.is(info.size, data.length);
+			t.true(fs.existsSync(stored));
+			return adb.addAttachment(test4, 'copy.png', data);
+		})
+		.then(() => {
+			t.deepEqual(fs.readdirSync(path.dirname(stored)), [hash]);
+			return adb.rename(test3, renamed);
+		})
+		.then(() => {
+			return adb.trash(renamed);
+		})
+		.then(() => {
+			return adb.restore(renamed);
+		})
+		.then(() => {
+			return adb.attachments(renamed);
+		})
+		.then((attachments: AttachmentInfo[]) => {
+			t.deepEqual(attachments.map((it: AttachmentInfo) => it.name), ['diagram.png']);
+			return adb.getAttachment(renamed, 'diagram.png');
+		})
+		.then((buf: Buffer) => {
+			t.true(buf.equals(data));
+			return adb.removeAttachment(renamed, 'diagram.png');
+		})
+		.then((artifact: Artifact) => {
+			t.deepEqual(artifact.attachments, []);
+			t.true(fs.existsSync(stored));
+			return adb.remove(test4);
+		})
+		.then(() => {
+			t.false(fs.existsSync(stored));
+			return adb.getAttachment(renamed, 'diagram.png');
+		})
+		.then(() => {
+			t.fail('Retrieving a removed attachment should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Attachment 'diagram.png' doesn't exist on Test1/Default/renamed.txt`);
+		});
+
+	await adb.shutdown();
+});
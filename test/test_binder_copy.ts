@@ -0,0 +1,99 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder, Events} from '../index';
+import {ArtifactSearch, ArtifactType} from '../lib/artifact';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Copy artifacts, notebooks and sections within a binder', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const copies: string[] = [];
+	adb.on(Events.artifactCopied, (artifact: Artifact, source: Artifact) => {
+		copies.push(`${source.path()} -> ${artifact.path()}`);
+	});
+
+	const src: ArtifactSearch = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const dst: ArtifactSearch = {section: 'Test1', notebook: 'Default', filename: 'test3-copy.txt'};
+	let buf: string = '';
+
+	await adb.addTag(src, 'draft')
+		.then((artifact: Artifact) => {
+			buf = artifact.buf;
+			return adb.copy(src, dst);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Test1/Default/test3-copy.txt');
+			t.is(artifact.buf, buf);
+			t.deepEqual(artifact.tags, ['draft']);
+			t.is(artifact.copiedFrom.binder, 'sampledb');
+			t.is(artifact.copiedFrom.path, 'Test1/Default/test3.txt');
+			t.is(adb.meta['Test1/Default/test3-copy.txt'].copiedFrom.path, 'Test1/Default/test3.txt');
+			t.true(fs.existsSync(artifact.absolute()));
+
+			// The copy is independent of the source
+			artifact.addTag('copy');
+			return adb.get(src);
+		})
+		.then((artifact: Artifact) => {
+			t.deepEqual(artifact.tags, ['draft']);
+			t.is(artifact.copiedFrom, null);
+			return adb.copy(src, dst);
+		})
+		.then((artifact: Artifact) => {
+			t.true(artifact.filename.startsWith('test3-copy.txt.'));
+			return adb.copy({section: 'Default', notebook: 'notebook1'}, {section: 'Test2', notebook: 'Cloned'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.type, ArtifactType.SN);
+			t.true(adb.hasArtifact({section: 'Test2', notebook: 'Cloned', filename: 'test2.txt'}));
+			t.true(adb.hasArtifact({section: 'Test2', notebook: 'Cloned', filename: 'test5.txt'}));
+			t.true(adb.hasArtifact({section: 'Default', notebook: 'notebook1', filename: 'test2.txt'}));
+			return adb.copy({section: 'Test1'}, {section: 'Test3'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.type, ArtifactType.S);
+			t.true(adb.hasArtifact({section: 'Test3', notebook: 'Default', filename: 'test3.txt'}));
+			t.is(copies.length, 4);
+			t.is(copies[0], 'Test1/Default/test3.txt -> Test1/Default/test3-copy.txt');
+			t.is(copies[3], 'Test1 -> Test3');
+			return adb.copy(src, src);
+		})
+		.then(() => {
+			t.fail('Copying an artifact onto itself should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, 'No difference between artifacts in copy request');
+		});
+
+	await adb.copy({section: 'Default', notebook: 'notebook1'}, {section: 'Default', notebook: 'notebook1/inner'})
+		.then(() => {
+			t.fail('Copying a notebook into itself should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Notebook 'Default/notebook1' can't be copied into itself`);
+		});
+
+	await adb.copy(src, {section: 'Test1', notebook: 'Default'})
+		.then(() => {
+			t.fail('Copying an artifact to a notebook should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, 'SRC artifact type does not match DST');
+		});
+
+	await adb.shutdown();
+});
@@ -249,7 +249,9 @@ test('Test trying to save a bad configuration file (negative test)', async t =>
 			t.fail(padb.toString());
 		})
 		.catch((err: string) => {
-			t.is(err, `Error saving configuration: ENOENT: no such file or directory, open ''`);
+			t.is(err, `Error saving configuration: ENOENT: no such file or directory, rename '.notesdb-tmp' -> ''`);
+			t.false(fs.existsSync('.notesdb-tmp'));
+			t.false(fs.existsSync(path.join(adb.config.configRoot, 'journal.json')));
 		});
 });
 
@@ -268,7 +270,9 @@ test('Test trying to save a bad metadata file (negative test)', async t => {
 			t.fail(padb.toString());
 		})
 		.catch((err: string) => {
-			t.is(err, `Error saving metadata: ENOENT: no such file or directory, open ''`);
+			t.is(err, `Error saving metadata: ENOENT: no such file or directory, rename '.notesdb-tmp' -> ''`);
+			t.false(fs.existsSync('.notesdb-tmp'));
+			t.false(fs.existsSync(path.join(adb.config.configRoot, 'journal.json')));
 		});
 });
 
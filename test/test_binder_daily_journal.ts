@@ -0,0 +1,96 @@
+'use strict';
+
+import test from 'ava';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder} from '../index';
+import {dateKey, journalLocation} from '../lib/journal';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test the location of a journal entry', t => {
+	const date = new Date(2018, 4, 7, 23, 30);
+
+	t.is(dateKey(date), '2018-05-07');
+	t.deepEqual(journalLocation(date, {section: 'Journal', groupBy: 'month'}), {
+		section: 'Journal',
+		notebook: '2018-05',
+		filename: '2018-05-07.md'
+	});
+	t.is(journalLocation(date, {section: 'Diary', groupBy: 'year'}).notebook, '2018');
+	t.throws(() => journalLocation(date, {section: 'Journal', groupBy: 'week'}), `Invalid journal grouping 'week', expected year or month`);
+});
+
+test('Test creating and navigating daily journal entries', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	let entry: Artifact = null;
+
+	await adb.today({date: new Date(2018, 4, 7)})
+		.then((artifact: Artifact) => {
+			entry = artifact;
+			t.is(artifact.path(), 'Journal/2018-05/2018-05-07.md');
+			t.true(adb.hasArtifact(artifact));
+			return adb.today({date: new Date(2018, 4, 7, 18)});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact, entry);
+			return adb.today({date: new Date(2018, 4, 9), groupBy: 'year'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Journal/2018/2018-05-09.md');
+			return adb.today({date: new Date(2018, 3, 30)});
+		})
+		.then(() => {
+			return adb.add({section: 'Journal', notebook: 'Notes', filename: 'ideas.md'});
+		})
+		.then(() => {
+			t.deepEqual(adb.calendar().map((it: any) => it.date), ['2018-04-30', '2018-05-07', '2018-05-09', dateKey(new Date())]);
+			t.deepEqual(adb.calendar({year: 2018, month: 5}).map((it: any) => it.path), [
+				'Journal/2018-05/2018-05-07.md',
+				'Journal/2018/2018-05-09.md'
+			]);
+			return adb.previousEntry({date: new Date(2018, 4, 7)});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Journal/2018-04/2018-04-30.md');
+			return adb.nextEntry({date: new Date(2018, 4, 7)});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Journal/2018/2018-05-09.md');
+			return adb.previousEntry({date: new Date(2018, 3, 30)});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact, null);
+			return adb.add({section: 'Templates', notebook: 'Default', filename: 'daily.md'});
+		})
+		.then((artifact: Artifact) => {
+			artifact.buf = '# {{date}}\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			return adb.today({date: new Date(2018, 4, 10), template: 'daily'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Journal/2018-05/2018-05-10.md');
+			t.is(artifact.buf, '# 2018-05-10\n');
+			return adb.today({groupBy: 'week'});
+		})
+		.then(() => {
+			t.fail('An invalid journal grouping should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Invalid journal grouping 'week', expected year or month`);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,271 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder} from '../index';
+import {Cipher, decode, isEncrypted} from '../lib/cipher';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test encrypting and decrypting data with a passphrase', t => {
+	const cipher = Cipher.create('secret', 1000);
+	const data = cipher.encrypt('some text');
+
+	t.true(isEncrypted(data));
+	t.false(isEncrypted(Buffer.from('some text')));
+	t.is(data.toString().indexOf('some text'), -1);
+	t.is(cipher.decrypt(data), 'some text');
+	t.is(Cipher.open(cipher.config, 'secret').decrypt(data), 'some text');
+
+	t.is(decode(Buffer.from('plain text')), 'plain text');
+	t.throws(() => decode(Buffer.from('plain text'), cipher), /not encrypted/);
+	t.throws(() => decode(data), /no key is available/);
+	t.throws(() => Cipher.open(cipher.config, 'wrong'), 'Invalid passphrase');
+	t.throws(() => Cipher.create(''), 'A passphrase is required');
+});
+
+test('Test encrypting, locking and unlocking a binder', async t => {
+	const fixture = new Fixture('simple-db');
+	const opts = {
+		root: fixture.dir,
+		saveInterval: 0
+	};
+	let adb = new Binder(Object.assign({encrypt: true, passphrase: 'secret'}, opts));
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	t.true(adb.encrypted);
+	t.false(adb.locked);
+
+	const notes = {section: 'Test1', notebook: 'Default', filename: 'notes.md'};
+	const existing = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const absolute = join(adb.config.dbdir, 'Test1', 'Default', 'notes.md');
+
+	t.true(isEncrypted(fs.readFileSync(join(adb.config.dbdir, 'Test1', 'Default', 'test3.txt'))));
+	t.true(isEncrypted(fs.readFileSync(adb.config.metaFile)));
+	t.true(isEncrypted(fs.readFileSync(adb.config.indexFile)));
+	t.false(isEncrypted(fs.readFileSync(adb.config.configFile)));
+
+	await adb.add(notes)
+		.then((artifact: Artifact) => {
+			t.true(isEncrypted(fs.readFileSync(absolute)));
+			artifact.buf = 'The vault code is 1234\n';
+			artifact.addTag('private');
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			t.true(isEncrypted(fs.readFileSync(absolute)));
+			t.is(fs.readFileSync(absolute).toString().indexOf('vault'), -1);
+			return adb.find('vault');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(artifacts.map((it: Artifact) => it.path()), ['Test1/Default/notes.md']);
+			return adb.get(existing);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'Test File #3\n');
+			return adb.lock();
+		})
+		.then(() => {
+			t.true(adb.locked);
+			t.is(adb.recents.length, 0);
+			t.is(adb.artifacts.get('Test1/Default/test3.txt').buf, '');
+			return adb.get(notes);
+		})
+		.then(() => {
+			t.fail('Retrieving an artifact from a locked binder should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'sampledb' is locked`);
+		});
+
+	await adb.find('vault')
+		.then(() => {
+			t.fail('Searching a locked binder should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'sampledb' is locked`);
+		});
+
+	await adb.unlock('wrong')
+		.then(() => {
+			t.fail('Unlocking with the wrong passphrase should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, 'Invalid passphrase');
+		});
+
+	await adb.unlock('secret')
+		.then(() => {
+			t.false(adb.locked);
+			return adb.get(notes);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'The vault code is 1234\n');
+			t.deepEqual(artifact.tags, ['private']);
+			return adb.changePassphrase('secret', 'new secret');
+		})
+		.then(() => {
+			return adb.shutdown();
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	t.throws(() => new Binder(Object.assign({passphrase: 'secret'}, opts)), 'Invalid passphrase');
+
+	adb = new Binder(opts);
+	t.true(adb.locked);
+
+	await adb.unlock('new secret')
+		.then(() => {
+			return adb.get(notes);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'The vault code is 1234\n');
+			return adb.findByTag('private');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 1);
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	await adb.shutdown();
+});
+
+test('Test encrypting, locking and unlocking a single notebook', async t => {
+	const fixture = new Fixture('simple-db');
+	const opts = {
+		root: fixture.dir,
+		saveInterval: 0
+	};
+	let adb = new Binder(opts);
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const notebook = {section: 'Test1', notebook: 'Default'};
+	const existing = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	let artifact: Artifact = null;
+
+	await adb.encryptNotebook(notebook, 'secret')
+		.then(() => {
+			t.false(adb.encrypted);
+			t.deepEqual(adb.encryptedNotebooks, ['Test1/Default']);
+			t.false(adb.isNotebookLocked(notebook));
+			t.true(isEncrypted(fs.readFileSync(join(adb.config.dbdir, 'Test1', 'Default', 'test3.txt'))));
+			t.false(isEncrypted(fs.readFileSync(join(adb.config.dbdir, 'Test2', 'Default', 'test4.txt'))));
+			t.is(fs.readFileSync(adb.config.indexFile).toString().indexOf('Test1/Default'), -1);
+			return adb.get(existing);
+		})
+		.then((it: Artifact) => {
+			artifact = it;
+			t.is(artifact.buf, 'Test File #3\n');
+			t.true(adb.recents.contains(artifact));
+			return adb.find('File');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.true(artifacts.map((it: Artifact) => it.path()).includes('Test1/Default/test3.txt'));
+			return adb.rename(existing, {section: 'Test2', notebook: 'Default', filename: 'test3.txt'});
+		})
+		.then(() => {
+			t.fail('Moving an artifact out of an encrypted notebook should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Artifacts can't be moved into or out of an encrypted notebook`);
+		});
+
+	await adb.lockNotebook(notebook)
+		.then(() => {
+			t.true(adb.isNotebookLocked(notebook));
+			t.false(adb.recents.contains(artifact));
+			t.is(artifact.buf, '');
+			t.false(artifact.loaded);
+			return adb.find('File');
+		})
+		.then((artifacts: Artifact[]) => {
+			const paths = artifacts.map((it: Artifact) => it.path());
+			t.false(paths.includes('Test1/Default/test3.txt'));
+			t.true(paths.includes('Test2/Default/test4.txt'));
+			return adb.find('File.#3');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 0);
+			return adb.get(existing);
+		})
+		.then(() => {
+			t.fail('Retrieving an artifact from a locked notebook should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Notebook 'Test1/Default' is locked`);
+		});
+
+	await adb.unlockNotebook(notebook, 'wrong')
+		.then(() => {
+			t.fail('Unlocking with the wrong passphrase should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, 'Invalid passphrase');
+		});
+
+	await adb.shutdown();
+
+	adb = new Binder(opts);
+	t.true(adb.isNotebookLocked(notebook));
+
+	await adb.unlockNotebook(notebook, 'secret')
+		.then(() => {
+			t.false(adb.isNotebookLocked(notebook));
+			return adb.find('File');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.true(artifacts.map((it: Artifact) => it.path()).includes('Test1/Default/test3.txt'));
+			return adb.get(existing);
+		})
+		.then((it: Artifact) => {
+			t.is(it.buf, 'Test File #3\n');
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	await adb.shutdown();
+});
+
+test('Test searching an encrypted binder that holds a plain file', async t => {
+	const fixture = new Fixture('simple-db');
+	const opts = {
+		root: fixture.dir,
+		saveInterval: 0
+	};
+	let adb = new Binder(Object.assign({encrypt: true, passphrase: 'secret'}, opts));
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	await adb.shutdown();
+
+	// A file put in the binder by another program isn't encrypted
+	fs.writeFileSync(join(fixture.dir, 'sampledb', 'Test1', 'Default', 'plain.txt'), 'Plain File #9\n');
+	adb = new Binder(Object.assign({passphrase: 'secret'}, opts));
+	t.true(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'plain.txt'}));
+
+	await adb.find('File')
+		.then((artifacts: Artifact[]) => {
+			t.false(artifacts.map((it: Artifact) => it.path()).includes('Test1/Default/plain.txt'));
+			t.true(artifacts.map((it: Artifact) => it.path()).includes('Test1/Default/test3.txt'));
+			return adb.find('File #[0-9]');
+		})
+		.then(() => {
+			t.fail('Searching a file that is not encrypted should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Can't search Test1/Default/plain.txt: The contents are not encrypted`);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,152 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder} from '../index';
+import {EnexImportResult, enmlToMarkdown, parseEnex, parseEnexDate, parseXml} from '../lib/enex';
+import {cleanup, validateBinder} from './helpers';
+
+const enex = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export3.dtd">
+<en-export export-date="20180301T120000Z" application="Evernote" version="Evernote Mac 7.0">
+<note>
+	<title>Meeting: Plans?</title>
+	<content><![CDATA[<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
+<en-note><div>Discussed the <b>plan</b> &amp; budget</div><div><en-todo checked="true"/>book room</div><en-media type="image/png" hash="abc123"/></en-note>]]></content>
+	<created>20170102T030405Z</created>
+	<updated>20170203T040506Z</updated>
+	<tag>work</tag>
+	<tag>project/alpha</tag>
+</note>
+<note>
+	<title>Meeting: Plans?</title>
+	<content><![CDATA[<en-note><div>Second meeting</div></en-note>]]></content>
+	<created>20170301T000000Z</created>
+	<updated>20170301T000000Z</updated>
+</note>
+<note>
+	<title>Broken</title>
+	<content><![CDATA[<en-note><div>missing close</en-note>]]></content>
+</note>
+</en-export>
+`;
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test parsing XML and converting ENML to markdown', t => {
+	const doc = parseXml('<?xml version="1.0"?><a x="1 &amp; 2"><!-- skip --><b/>text &lt;here&gt;<![CDATA[<raw>]]></a>');
+
+	t.is(doc.children.length, 1);
+	t.deepEqual(doc.children[0], {
+		name: 'a',
+		attrs: {x: '1 & 2'},
+		children: [{name: 'b', attrs: {}, children: []}, 'text <here>', '<raw>']
+	});
+	t.throws(() => parseXml('<a><b></a>'));
+
+	t.is(parseEnexDate('20170102T030405Z').toISOString(), '2017-01-02T03:04:05.000Z');
+	t.is(parseEnexDate('bad'), null);
+
+	const skipped: string[] = [];
+	const markdown = enmlToMarkdown([
+		'<en-note>',
+		'<div>Line <i>one</i></div><div>Line <a href="http://example.com">two</a></div>',
+		'<h2>Title</h2>',
+		'<ul><li>first<ul><li>nested</li></ul></li><li>second</li></ul>',
+		'<ol><li>a</li><li>b</li></ol>',
+		'<div><en-todo/>todo</div>',
+		'<table><tr><td>x</td><td>y</td></tr><tr><td>1</td><td>2</td></tr></table>',
+		'<en-crypt>secret</en-crypt>',
+		'</en-note>'
+	].join(''), skipped);
+
+	t.is(markdown, [
+		'Line *one*',
+		'Line [two](http://example.com)',
+		'',
+		'## Title',
+		'',
+		'- first',
+		'  - nested',
+		'- second',
+		'',
+		'1. a',
+		'2. b',
+		'',
+		'[ ] todo',
+		'',
+		'| x | y |',
+		'| --- | --- |',
+		'| 1 | 2 |',
+		''
+	].join('\n'));
+	t.deepEqual(skipped, ['encrypted text']);
+});
+
+test('Test reading the notes of an Evernote export', t => {
+	const data = parseEnex(enex);
+
+	t.is(data.notes.length, 2);
+	t.is(data.notes[0].title, 'Meeting: Plans?');
+	t.is(data.notes[0].content, 'Discussed the **plan** & budget\n[x] book room\n');
+	t.deepEqual(data.notes[0].tags, ['work', 'project/alpha']);
+	t.deepEqual(data.skipped.map((it: any) => it.title), ['Meeting: Plans?', 'Broken']);
+	t.is(data.skipped[0].reason, 'attachment (image/png)');
+	t.regex(data.skipped[1].reason, /^invalid content/);
+
+	t.throws(() => parseEnex('<notes></notes>'));
+});
+
+test('Test importing an Evernote export into a binder', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const filename = join(fixture.dir, 'My Notes.enex');
+	fs.writeFileSync(filename, enex);
+
+	await adb.importEnex(filename)
+		.then((result: EnexImportResult) => {
+			t.deepEqual(result.artifacts.map((it: Artifact) => it.path()), [
+				'Evernote/My Notes/Meeting Plans.md',
+				'Evernote/My Notes/Meeting Plans-2.md'
+			]);
+			t.is(result.skipped.length, 2);
+
+			const artifact = result.artifacts[0];
+			t.false(artifact.isDirty());
+			t.is(fs.readFileSync(artifact.absolute()).toString(), 'Discussed the **plan** & budget\n[x] book room\n');
+			t.deepEqual(artifact.tags, ['work', 'project/alpha']);
+			t.is(artifact.created.toISOString(), '2017-01-02T03:04:05.000Z');
+			t.is(artifact.updated.toISOString(), '2017-02-03T04:05:06.000Z');
+			t.is(fs.statSync(artifact.absolute()).mtime.toISOString(), '2017-02-03T04:05:06.000Z');
+
+			return adb.findByTag('project');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 1);
+			return adb.importEnex(filename, {section: 'Imported/Notes', notebook: 'Work'});
+		})
+		.then((result: EnexImportResult) => {
+			t.is(result.artifacts[0].path(), 'Imported Notes/Work/Meeting Plans.md');
+			return adb.importEnex(join(fixture.dir, 'missing.enex'));
+		})
+		.then(() => {
+			t.fail('Importing a missing file should fail');
+		})
+		.catch((err: string) => {
+			t.regex(err, /^Error reading Evernote export/);
+		});
+
+	await adb.shutdown();
+});
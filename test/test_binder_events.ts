@@ -0,0 +1,143 @@
+'use strict';
+
+import test from 'ava';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder, BinderManager, Events} from '../index';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+/**
+ * Records every binder event as a string with the name of the event and
+ * the path (or string) parameters given to it.
+ */
+function record(emitter: Binder | BinderManager): string[] {
+	const events: string[] = [];
+
+	for (const key of Object.keys(Events)) {
+		const event: string = (Events as any)[key];
+		emitter.on(event, (...args: any[]) => {
+			const params = args
+				.filter((it: any) => it instanceof Artifact || typeof it === 'string')
+				.map((it: any) => (it instanceof Artifact) ? it.path() : it);
+
+			events.push([event].concat(params).join(' '));
+		});
+	}
+
+	return events;
+}
+
+test('Test the lifecycle events emitted by binder changes', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const events = record(adb);
+	const one = {section: 'Events', notebook: 'Book', filename: 'one.txt'};
+	const two = {section: 'Events', notebook: 'Book', filename: 'two.txt'};
+	const take = () => events.splice(0, events.length);
+
+	await adb.add(one)
+		.then((artifact: Artifact) => {
+			t.deepEqual(take(), [
+				'section:created Events',
+				'notebook:created Events/Book',
+				'artifact:added Events/Book/one.txt'
+			]);
+
+			artifact.buf = 'Event test\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			t.deepEqual(take(), ['artifact:saved Events/Book/one.txt']);
+			return adb.rename(one, two);
+		})
+		.then(() => {
+			t.deepEqual(take(), [
+				'artifact:saved Events/Book/two.txt',
+				'artifact:renamed Events/Book/two.txt Events/Book/one.txt'
+			]);
+			return adb.trash(two);
+		})
+		.then(() => {
+			t.deepEqual(take(), [
+				'binder:reloaded trash',
+				'artifact:trashed Events/Book/two.txt Events/Book/two.txt'
+			]);
+			return adb.restore(two);
+		})
+		.then(() => {
+			t.deepEqual(take(), [
+				'binder:reloaded notes',
+				'artifact:restored Events/Book/two.txt'
+			]);
+			return adb.remove(two);
+		})
+		.then(() => {
+			t.deepEqual(take(), ['artifact:removed Events/Book/two.txt']);
+			return adb.remove({section: 'Events', notebook: 'Book'});
+		})
+		.then(() => {
+			t.deepEqual(take(), ['notebook:removed Events/Book']);
+			return adb.remove({section: 'Events'});
+		})
+		.then(() => {
+			t.deepEqual(take(), ['section:removed Events']);
+			return adb.create(['Extra']);
+		})
+		.then(() => {
+			t.deepEqual(take(), ['section:created Extra']);
+			return adb.save();
+		})
+		.then(() => {
+			t.deepEqual(take(), ['binder:saved']);
+			return adb.emptyTrash();
+		})
+		.then(() => {
+			t.deepEqual(take(), ['trash:emptied']);
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+});
+
+test('Test the manager forwarding binder events with the binder name', async t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+
+	const names: string[] = [];
+	manager.on(Events.artifactAdded, (binderName: string, artifact: Artifact) => {
+		names.push(`${binderName} ${artifact.path()}`);
+	});
+
+	const events = record(manager);
+	const adb: Binder = manager.get('sampledb');
+
+	await adb.add({section: 'Events', notebook: 'Book', filename: 'one.txt'})
+		.then(() => {
+			t.deepEqual(names, ['sampledb Events/Book/one.txt']);
+			t.deepEqual(events, [
+				'section:created sampledb Events',
+				'notebook:created sampledb Events/Book',
+				'artifact:added sampledb Events/Book/one.txt'
+			]);
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	manager.shutdown();
+});
@@ -0,0 +1,93 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder} from '../index';
+import {escapeHtml, isMarkdown, renderContent} from '../lib/exporter';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test the html export helper functions', t => {
+	t.is(escapeHtml('<a href="x">&\'</a>'), '&lt;a href=&quot;x&quot;&gt;&amp;&#39;&lt;/a&gt;');
+	t.true(isMarkdown('notes.md'));
+	t.true(isMarkdown('NOTES.Markdown'));
+	t.false(isMarkdown('notes.txt'));
+
+	t.is(renderContent('notes.txt', '# <b>Title</b>'), '<pre># &lt;b&gt;Title&lt;/b&gt;</pre>');
+	t.regex(renderContent('notes.md', '# Title\n\nSome *text*'), /<h1[^>]*>Title<\/h1>/);
+	t.regex(renderContent('notes.md', '# Title\n\nSome *text*'), /<em>text<\/em>/);
+});
+
+test('Test exporting a binder and a notebook to html', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const outDir = join(fixture.dir, 'site');
+	const notebookDir = join(fixture.dir, 'notebook-site');
+	const notes = {section: 'Test1', notebook: 'Default', filename: 'notes.md'};
+
+	await adb.add(notes)
+		.then((artifact: Artifact) => {
+			artifact.buf = '# Meeting\n\nDiscussed the *plan*.\n';
+			return adb.addTag(notes, 'project/alpha');
+		})
+		.then(() => {
+			return adb.exportHtml({outDir: outDir});
+		})
+		.then((files: string[]) => {
+			t.true(files.indexOf(join(outDir, 'index.html')) !== -1);
+			t.true(files.indexOf(join(outDir, 'Test1', 'index.html')) !== -1);
+			t.true(files.indexOf(join(outDir, 'Test1', 'Default', 'index.html')) !== -1);
+			t.true(files.indexOf(join(outDir, 'Section With Spaces', 'Notebook With Spaces', 'filename with spaces.txt.html')) !== -1);
+			t.false(fs.existsSync(join(outDir, 'Trash')));
+
+			const index = fs.readFileSync(join(outDir, 'index.html')).toString();
+			t.regex(index, /<h1>sampledb<\/h1>/);
+			t.regex(index, /href="Section%20With%20Spaces\/index.html"/);
+
+			const page = fs.readFileSync(join(outDir, 'Test1', 'Default', 'notes.md.html')).toString();
+			t.regex(page, /<em>plan<\/em>/);
+			t.regex(page, /<span class="tag">project\/alpha<\/span>/);
+			t.regex(page, /Updated: \d{4}-\d{2}-\d{2} \d{2}:\d{2}/);
+			t.regex(page, /<a href="..\/..\/index.html">sampledb<\/a>/);
+
+			const text = fs.readFileSync(join(outDir, 'Test1', 'Default', 'test3.txt.html')).toString();
+			t.regex(text, /<pre>Test File #3\n<\/pre>/);
+
+			const notebook = fs.readFileSync(join(outDir, 'Test1', 'Default', 'index.html')).toString();
+			t.regex(notebook, /href="notes.md.html"/);
+			t.regex(notebook, /href="test3.txt.html"/);
+
+			return adb.exportHtml({section: 'Default', notebook: 'notebook1', outDir: notebookDir, title: 'Shared'});
+		})
+		.then((files: string[]) => {
+			t.deepEqual(files.map((it: string) => it.replace(`${notebookDir}/`, '')), [
+				'Default/notebook1/test2.txt.html',
+				'Default/notebook1/test5.txt.html',
+				'Default/notebook1/index.html',
+				'Default/index.html',
+				'index.html'
+			]);
+			t.regex(fs.readFileSync(join(notebookDir, 'index.html')).toString(), /<h1>Shared<\/h1>/);
+			return adb.exportHtml({section: 'Missing', outDir: notebookDir});
+		})
+		.then(() => {
+			t.fail('Exporting a missing section should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Section 'Missing' not found in binder.`);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,148 @@
+'use strict';
+
+import test from 'ava';
+import {execFileSync} from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder, CommitInfo, Events} from '../index';
+import {commitMessage, parseStatus} from '../lib/gitstore';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+function waitEvent(adb: Binder, name: string): Promise<any[]> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			reject(`Timed out waiting for ${name}`);
+		}, 5000);
+
+		adb.once(name, (...args: any[]) => {
+			clearTimeout(timer);
+			resolve(args);
+		});
+	});
+}
+
+function lastMessage(adb: Binder): string {
+	return execFileSync('git', ['log', '-1', '--format=%B'], {cwd: adb.config.dbdir}).toString();
+}
+
+test('Test building a commit message from the git status', t => {
+	const changes = parseStatus([
+		'A  S/N/new.md',
+		'M  S/N/changed.md',
+		'R  S/N/after.md', 'S/N/before.md',
+		'R  Trash/S/N/old.md', 'S/N/old.md',
+		'D  S/N/empty.md',
+		'A  Trash/S/N/empty.md',
+		'R  S/N/back.md', 'Trash/S/N/back.md',
+		'D  S/N/gone.md',
+		''
+	].join('\0'));
+
+	t.deepEqual(changes, [
+		{action: 'renamed', path: 'S/N/after.md', from: 'S/N/before.md'},
+		{action: 'restored', path: 'S/N/back.md'},
+		{action: 'modified', path: 'S/N/changed.md'},
+		{action: 'trashed', path: 'S/N/empty.md'},
+		{action: 'removed', path: 'S/N/gone.md'},
+		{action: 'added', path: 'S/N/new.md'},
+		{action: 'trashed', path: 'S/N/old.md'}
+	]);
+
+	t.is(commitMessage(changes.slice(0, 4)), [
+		'Timed save: 1 renamed, 1 restored, 1 modified, 1 trashed',
+		'',
+		'renamed: S/N/before.md -> S/N/after.md',
+		'restored: S/N/back.md',
+		'modified: S/N/changed.md',
+		'trashed: S/N/empty.md',
+		''
+	].join('\n'));
+
+	t.deepEqual(parseStatus(''), []);
+});
+
+test('Test committing timed saves to git and checking out an old version', async t => {
+	const fixture = new Fixture('simple-db');
+	const opts = {
+		root: fixture.dir,
+		saveInterval: 250,
+		git: true
+	};
+	let adb = new Binder(opts);
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	t.true(adb.versioned);
+	t.true(fs.existsSync(join(adb.config.dbdir, '.git')));
+
+	const test3 = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const test4 = {section: 'Test2', notebook: 'Default', filename: 'test4.txt'};
+	let commits: CommitInfo[] = [];
+
+	await waitEvent(adb, Events.binderTimedSave)
+		.then(() => {
+			t.regex(lastMessage(adb), /^Timed save: \d+ added\n\n/);
+			t.true(lastMessage(adb).includes('added: Test1/Default/test3.txt'));
+			return adb.get(test3);
+		})
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Test File #3, second version\n';
+			return waitEvent(adb, Events.binderTimedSave);
+		})
+		.then(() => {
+			t.is(lastMessage(adb), 'Timed save: 1 modified\n\nmodified: Test1/Default/test3.txt\n\n');
+			return adb.trash(test4);
+		})
+		.then(() => {
+			return waitEvent(adb, Events.binderTimedSave);
+		})
+		.then(() => {
+			t.true(lastMessage(adb).startsWith('Timed save: 1 trashed\n\ntrashed: Test2/Default/test4.txt'));
+			return adb.history(test3);
+		})
+		.then((list: CommitInfo[]) => {
+			commits = list;
+			t.is(commits.length, 2);
+			t.is(commits[0].message, 'Timed save: 1 modified');
+			t.true(commits[0].date instanceof Date);
+			return adb.checkout(test3, commits[1].id);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'Test File #3\n');
+			t.false(artifact.isDirty());
+			t.is(fs.readFileSync(artifact.absolute()).toString(), 'Test File #3\n');
+			return adb.checkout(test3, 'no-such-commit');
+		})
+		.then(() => {
+			t.fail('Checking out an unknown commit should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Commit 'no-such-commit' not found for Test1/Default/test3.txt`);
+		});
+
+	await adb.shutdown();
+
+	// Reopening the binder must not treat the repository as a section
+	adb = new Binder(opts);
+	t.false(adb.sections().includes('.git'));
+	t.true(adb.versioned);
+	await adb.shutdown();
+
+	adb = new Binder({root: fixture.dir, saveInterval: 0});
+	t.false(adb.versioned);
+
+	await adb.history(test3)
+		.then(() => {
+			t.fail('History of a binder that is not kept in git should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'sampledb' is not kept in git`);
+		});
+
+	await adb.shutdown();
+});
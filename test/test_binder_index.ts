@@ -0,0 +1,164 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder} from '../index';
+import {ArtifactSearch} from '../lib/artifact';
+import {parseSearch, SearchIndex, tokenize} from '../lib/searchindex';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test tokenizing and parsing of index search strings', t => {
+	const tokens = tokenize('Meeting notes, for TODAY');
+	t.deepEqual(tokens.map(it => it.term), ['meeting', 'notes', 'for', 'today']);
+	t.deepEqual(tokens.map(it => it.offset), [0, 8, 15, 19]);
+
+	const clauses = parseSearch('alpha "meeting notes" pre*');
+	t.is(clauses.length, 3);
+	t.deepEqual(clauses[0], {type: 'term', terms: ['alpha']});
+	t.deepEqual(clauses[1], {type: 'phrase', terms: ['meeting', 'notes']});
+	t.deepEqual(clauses[2], {type: 'prefix', terms: ['pre']});
+});
+
+test('Test term, phrase and prefix queries against a search index', t => {
+	const fixture = new Fixture();
+	const index = new SearchIndex(path.join(fixture.dir, 'index.json'));
+
+	index.update('a/b/doc1.txt', 'the quick brown fox jumps over the lazy dog');
+	index.update('a/b/doc2.txt', 'a brown dog and a quick fox');
+	index.update('a/b/doc3.txt', 'nothing to see here');
+
+	t.is(index.size, 3);
+	t.deepEqual(index.search('fox').map(it => it.path).sort(), ['a/b/doc1.txt', 'a/b/doc2.txt']);
+	t.deepEqual(index.search('"quick brown"').map(it => it.path), ['a/b/doc1.txt']);
+	t.deepEqual(index.search('"brown quick"').map(it => it.path), []);
+	t.deepEqual(index.search('jum*').map(it => it.path), ['a/b/doc1.txt']);
+	t.deepEqual(index.search('quick see').map(it => it.path), []);
+
+	const match = index.search('lazy')[0];
+	t.deepEqual(match.positions, [{start: 35, end: 39}]);
+
+	index.remove('a/b/doc1.txt');
+	t.is(index.size, 2);
+	t.deepEqual(index.search('jum*'), []);
+
+	index.save();
+	t.true(fs.existsSync(index.filename));
+
+	const reloaded = new SearchIndex(index.filename);
+	t.is(reloaded.size, 2);
+	t.false(reloaded.dirty);
+	t.deepEqual(reloaded.search('"quick fox"').map(it => it.path), ['a/b/doc2.txt']);
+});
+
+test('Test indexing words that are names of object members', t => {
+	const fixture = new Fixture();
+	const index = new SearchIndex(path.join(fixture.dir, 'index.json'));
+
+	index.update('S/N/a.txt', 'the constructor of the class');
+	index.update('S/N/b.txt', 'setting __proto__ and hasOwnProperty');
+	index.update('constructor', 'a document named constructor');
+
+	t.deepEqual(Object.keys(Object), []);
+	t.is(({} as any)['S/N/b.txt'], undefined);
+	t.deepEqual(index.search('constructor').map(it => it.path).sort(), ['S/N/a.txt', 'constructor']);
+	t.deepEqual(index.search('__proto__').map(it => it.path), ['S/N/b.txt']);
+	t.deepEqual(index.search('hasownproperty').map(it => it.path), ['S/N/b.txt']);
+	t.deepEqual(index.search('tostring').map(it => it.path), []);
+	t.true(index.isCurrent('constructor'));
+	t.false(index.isCurrent('toString'));
+
+	index.save();
+	const reloaded = new SearchIndex(index.filename);
+	t.deepEqual(reloaded.search('constructor').map(it => it.path).sort(), ['S/N/a.txt', 'constructor']);
+	t.deepEqual(reloaded.search('__proto__').map(it => it.path), ['S/N/b.txt']);
+
+	reloaded.remove('S/N/b.txt');
+	t.deepEqual(reloaded.search('__proto__').map(it => it.path), []);
+	t.deepEqual(Object.keys(Object.prototype), []);
+});
+
+test('Test that the binder creates and uses a persistent search index', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	t.true(fs.existsSync(adb.config.indexFile));
+
+	await adb.find('file 2')
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 2);
+			t.deepEqual(artifacts.map(it => it.filename).sort(), ['test2.txt', 'test5.txt']);
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+});
+
+test('Test that the search index follows add, save, rename and trash', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const src: ArtifactSearch = {
+		section: 'Default',
+		notebook: 'Default',
+		filename: 'indexed.txt'
+	};
+
+	const dst: ArtifactSearch = {
+		section: 'Default',
+		notebook: 'Default',
+		filename: 'renamed.txt'
+	};
+
+	await adb.add(src)
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Some unique zebra content';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			return adb.find('zebra');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 1);
+			t.is(artifacts[0].filename, 'indexed.txt');
+			return adb.find('zeb*');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 1);
+			return adb.rename(src, dst);
+		})
+		.then(() => {
+			return adb.find('"unique zebra"');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 1);
+			t.is(artifacts[0].filename, 'renamed.txt');
+			return adb.trash(dst);
+		})
+		.then(() => {
+			return adb.find('zebra');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.is(artifacts.length, 0);
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+});
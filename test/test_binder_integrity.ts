@@ -0,0 +1,77 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Binder, IntegrityIssue, IntegrityReport} from '../index';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test checking and repairing the integrity of a binder', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const dbdir: string = adb.config.dbdir;
+	const paths = (issues: IntegrityIssue[]) => issues.map((it: IntegrityIssue) => it.path);
+
+	await adb.check()
+		.then((report: IntegrityReport) => {
+			t.deepEqual(report, {
+				invalidNames: [],
+				missing: [],
+				orphanedMeta: [],
+				strayTrash: [],
+				unreadable: [],
+				untracked: []
+			});
+
+			adb.meta['Gone/Default/gone.txt'] = Object.assign({}, adb.meta['Test1/Default/test3.txt']);
+			fs.removeSync(path.join(dbdir, 'Test2', 'Default', 'test4.txt'));
+			fs.writeFileSync(path.join(dbdir, 'Test1', 'Default', 'untracked.txt'), 'untracked');
+			fs.writeFileSync(path.join(dbdir, 'Test1', 'loose.txt'), 'loose');
+			fs.writeFileSync(path.join(dbdir, 'Test1', 'Default', 'bad%name.txt'), 'bad');
+			fs.writeFileSync(path.join(dbdir, 'Trash', 'stray.txt'), 'stray');
+
+			return adb.check();
+		})
+		.then((report: IntegrityReport) => {
+			t.deepEqual(paths(report.orphanedMeta), ['Gone/Default/gone.txt']);
+			t.deepEqual(paths(report.missing), ['Test2/Default/test4.txt']);
+			t.deepEqual(paths(report.invalidNames), ['Test1/Default/bad%name.txt']);
+			t.deepEqual(paths(report.strayTrash), ['Trash/stray.txt']);
+			t.deepEqual(paths(report.untracked).sort(), ['Test1/Default/untracked.txt', 'Test1/loose.txt']);
+			t.true(adb.hasArtifact({section: 'Test2', notebook: 'Default', filename: 'test4.txt'}));
+
+			return adb.repair();
+		})
+		.then((report: IntegrityReport) => {
+			t.true(report.orphanedMeta.every((it: IntegrityIssue) => it.repaired));
+			t.true(report.untracked.every((it: IntegrityIssue) => it.repaired));
+			t.false('Gone/Default/gone.txt' in adb.meta);
+			t.false(adb.hasArtifact({section: 'Test2', notebook: 'Default', filename: 'test4.txt'}));
+			t.true(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'bad name.txt'}));
+			t.true(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'loose.txt'}));
+			t.true(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'untracked.txt'}));
+			t.false(fs.existsSync(path.join(dbdir, 'Trash', 'stray.txt')));
+
+			return adb.check();
+		})
+		.then((report: IntegrityReport) => {
+			t.deepEqual(report.invalidNames.concat(report.missing, report.orphanedMeta,
+				report.strayTrash, report.unreadable, report.untracked), []);
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,127 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder} from '../index';
+import {
+	checksum,
+	JournalEntry,
+	JournalRecovery,
+	SaveJournal,
+	tempExt,
+	writeAtomicSync
+} from '../lib/savejournal';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test atomic writes and journal commit', t => {
+	const fixture = new Fixture();
+	const filename = join(fixture.dir, 'data.txt');
+
+	writeAtomicSync(filename, 'some data');
+	t.is(fs.readFileSync(filename).toString(), 'some data');
+	t.false(fs.existsSync(`${filename}${tempExt}`));
+
+	const journal = new SaveJournal(join(fixture.dir, 'journal.json'));
+	const entry: JournalEntry = journal.begin(filename, 'new data', 'data');
+
+	t.true(fs.existsSync(journal.filename));
+	t.true(fs.existsSync(entry.temp));
+	t.is(entry.checksum, checksum('new data'));
+	t.is(journal.entries.length, 1);
+	t.is(fs.readFileSync(filename).toString(), 'some data');
+
+	fs.renameSync(entry.temp, entry.target);
+	journal.commit(entry);
+
+	t.is(journal.entries.length, 0);
+	t.false(fs.existsSync(journal.filename));
+	t.is(fs.readFileSync(filename).toString(), 'new data');
+});
+
+test('Test journal recovery of interrupted writes', t => {
+	const fixture = new Fixture();
+	const journalFile = join(fixture.dir, 'journal.json');
+	const files = ['replay.txt', 'rollback.txt', 'complete.txt'].map((it: string) => join(fixture.dir, it));
+
+	files.forEach((filename: string) => {
+		fs.writeFileSync(filename, 'original');
+	});
+
+	const journal = new SaveJournal(journalFile);
+	journal.begin(files[0], 'replayed data', 'replay');
+	journal.begin(files[1], 'rolled back data', 'rollback');
+	const entry = journal.begin(files[2], 'completed data', 'complete');
+	fs.renameSync(entry.temp, entry.target);
+
+	// simulate a partial write of the second file
+	fs.writeFileSync(`${files[1]}${tempExt}`, 'rolled');
+
+	const recovered: JournalRecovery[] = new SaveJournal(journalFile).recover();
+	t.deepEqual(recovered.map((it: JournalRecovery) => [it.key, it.action]), [
+		['replay', 'replayed'],
+		['rollback', 'rolledback'],
+		['complete', 'completed']
+	]);
+
+	t.is(fs.readFileSync(files[0]).toString(), 'replayed data');
+	t.is(fs.readFileSync(files[1]).toString(), 'original');
+	t.is(fs.readFileSync(files[2]).toString(), 'completed data');
+	files.forEach((filename: string) => {
+		t.false(fs.existsSync(`${filename}${tempExt}`));
+	});
+	t.false(fs.existsSync(journalFile));
+});
+
+test('Test binder recovery of interrupted artifact saves', async t => {
+	const fixture = new Fixture('simple-db');
+	const dbdir = join(fixture.dir, 'sampledb');
+	const target = join(dbdir, 'Default', 'Default', 'test1.txt');
+	const partial = join(dbdir, 'Test1', 'Default', 'test3.txt');
+
+	const journal = new SaveJournal(join(fixture.dir, 'journal.json'));
+	journal.begin(target, 'Recovered File #1\n', 'Default/Default/test1.txt');
+	journal.begin(partial, 'Lost File #3\n', 'Test1/Default/test3.txt');
+	fs.writeFileSync(`${partial}${tempExt}`, 'Lost');
+
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	t.deepEqual(adb.recovered.map((it: JournalRecovery) => [it.key, it.action]), [
+		['Default/Default/test1.txt', 'replayed'],
+		['Test1/Default/test3.txt', 'rolledback']
+	]);
+	t.false(fs.existsSync(join(fixture.dir, 'journal.json')));
+	t.is(adb.notebooks('Default').find(it => it.name === 'Default').count, 1);
+
+	await adb.get({section: 'Default', notebook: 'Default', filename: 'test1.txt'})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'Recovered File #1\n');
+			return adb.get({section: 'Test1', notebook: 'Default', filename: 'test3.txt'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'Test File #3\n');
+			artifact.buf = 'Saved File #3\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then((artifact: Artifact) => {
+			t.is(fs.readFileSync(artifact.absolute()).toString(), 'Saved File #3\n');
+			t.false(fs.existsSync(`${artifact.absolute()}${tempExt}`));
+			t.false(fs.existsSync(join(fixture.dir, 'journal.json')));
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+});
@@ -0,0 +1,138 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder} from '../index';
+import {ArtifactSearch} from '../lib/artifact';
+import {
+	LinkGraph,
+	normalizeLink,
+	parseLinks,
+	rewriteLinks
+} from '../lib/links';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test parsing and rewriting of wiki style links', t => {
+	const text = 'See [[ Default / Default/test1.txt ]] and [[Test1/Default/test3.txt]] or [[]] or [[Test1]].';
+
+	t.is(normalizeLink(' A / B//c.txt '), 'A/B/c.txt');
+	t.deepEqual(parseLinks(text), [
+		{target: 'Default/Default/test1.txt', start: 4, end: 37},
+		{target: 'Test1/Default/test3.txt', start: 42, end: 69},
+		{target: 'Test1', start: 81, end: 90}
+	]);
+	t.deepEqual(parseLinks(''), []);
+
+	t.is(rewriteLinks(text, 'Default/Default/test1.txt', 'Default/Default/renamed.txt'),
+		'See [[Default/Default/renamed.txt]] and [[Test1/Default/test3.txt]] or [[]] or [[Test1]].');
+	t.is(rewriteLinks(text, 'Test1', 'Work'),
+		'See [[ Default / Default/test1.txt ]] and [[Work/Default/test3.txt]] or [[]] or [[Work]].');
+});
+
+test('Test the link graph with backlinks and broken links', t => {
+	const fixture = new Fixture();
+	const graph = new LinkGraph(path.join(fixture.dir, 'links.json'));
+
+	graph.update('S/N/one.txt', '[[S/N/two.txt]] [[S/N/two.txt]] [[S/M/missing.txt]]', 100);
+	graph.update('S/N/two.txt', '[[S/N/one.txt]]', 200);
+	graph.update('S/M/three.txt', 'no links here', 300);
+
+	t.deepEqual(graph.links('S/N/one.txt'), ['S/N/two.txt', 'S/M/missing.txt']);
+	t.deepEqual(graph.backlinks('S/N/two.txt'), ['S/N/one.txt']);
+	t.deepEqual(graph.backlinks('S/N', true), ['S/N/one.txt', 'S/N/two.txt']);
+	t.deepEqual(graph.backlinks('S/N'), []);
+	t.deepEqual(graph.broken((target: string) => graph.isCurrent(target)), [
+		{source: 'S/N/one.txt', target: 'S/M/missing.txt'}
+	]);
+	t.true(graph.isCurrent('S/N/one.txt', 100));
+	t.false(graph.isCurrent('S/N/one.txt', 101));
+
+	graph.save();
+	t.false(graph.dirty);
+
+	const loaded = new LinkGraph(graph.filename);
+	t.is(loaded.size, 3);
+	t.deepEqual(loaded.backlinks('S/N/one.txt'), ['S/N/two.txt']);
+
+	loaded.removePrefix('S/N/');
+	t.is(loaded.size, 1);
+	t.deepEqual(loaded.backlinks('S/N/two.txt'), []);
+});
+
+test('Test binder links, backlinks and rewriting links on rename', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const test1: ArtifactSearch = {section: 'Default', notebook: 'Default', filename: 'test1.txt'};
+	const test2: ArtifactSearch = {section: 'Default', notebook: 'notebook1', filename: 'test2.txt'};
+	const test3: ArtifactSearch = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const renamed: ArtifactSearch = {section: 'Test1', notebook: 'Default', filename: 'renamed.txt'};
+	const names = (artifacts: Artifact[]) => artifacts.map((it: Artifact) => it.filename);
+
+	t.deepEqual(adb.brokenLinks(), []);
+
+	await adb.get(test1)
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Links to [[Test1/Default/test3.txt]] and [[Test2/Default/missing.txt]]\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			return adb.get(test2);
+		})
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Also see [[Test1/Default/test3.txt]] in [[Test1]]\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			return adb.links(test1);
+		})
+		.then((links: string[]) => {
+			t.deepEqual(links, ['Test1/Default/test3.txt', 'Test2/Default/missing.txt']);
+			t.deepEqual(adb.brokenLinks(), [
+				{source: 'Default/Default/test1.txt', target: 'Test2/Default/missing.txt'}
+			]);
+			return adb.backlinks(test3);
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(names(artifacts), ['test1.txt', 'test2.txt']);
+			return adb.rename(test3, renamed, true);
+		})
+		.then(() => {
+			return adb.backlinks(renamed);
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(names(artifacts), ['test1.txt', 'test2.txt']);
+			t.is(fs.readFileSync(artifacts[1].absolute()).toString(),
+				'Also see [[Test1/Default/renamed.txt]] in [[Test1]]\n');
+			return adb.rename(renamed, test3);
+		})
+		.then(() => {
+			t.deepEqual(adb.brokenLinks(), [
+				{source: 'Default/Default/test1.txt', target: 'Test1/Default/renamed.txt'},
+				{source: 'Default/Default/test1.txt', target: 'Test2/Default/missing.txt'},
+				{source: 'Default/notebook1/test2.txt', target: 'Test1/Default/renamed.txt'}
+			]);
+			return adb.remove(test2);
+		})
+		.then(() => {
+			t.is(adb.brokenLinks().length, 2);
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	t.true(fs.existsSync(adb.config.linkFile));
+});
@@ -6,7 +6,8 @@ import * as path from 'path';
 import {Fixture} from 'util.fixture';
 import {join} from 'util.join';
 import {failure} from 'util.toolbox';
-import {Binder, BinderManager} from '../index';
+import {Artifact, Binder, BinderManager} from '../index';
+import {ArtifactType} from '../lib/artifact';
 import {cleanup, validateManager} from './helpers';
 
 test.after.always(async t => {
@@ -142,3 +143,186 @@ test('Remove a binder and then empty the trash', t => {
 
 	manager.shutdown();
 });
+
+test('Empty the manager trash by binder name and age', t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+
+	validateManager(t, manager, fixture);
+
+	const rem = manager.remove('sampledb');
+	t.true(fs.existsSync(rem));
+
+	t.deepEqual(manager.emptyTrash({binderName: 'otherdb'}), []);
+	t.deepEqual(manager.emptyTrash({binderName: 'sampledb', olderThan: 7}), []);
+	t.true(fs.existsSync(rem));
+
+	const removed = new Date(Date.now() - (10 * 24 * 60 * 60 * 1000));
+	fs.utimesSync(rem, removed, removed);
+	manager.shutdown();
+
+	// Binders older than the trash age are purged when the manager starts
+	const aged = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir),
+		trashAge: 7
+	});
+
+	t.false(fs.existsSync(rem));
+	t.true(fs.existsSync(join(fixture.dir, 'sampledb')));
+
+	aged.shutdown();
+});
+
+test('Empty the manager trash of a binder whose name is a prefix of another', t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+
+	validateManager(t, manager, fixture);
+
+	t.not(manager.add('work', join(fixture.dir, 'work')), failure);
+	t.not(manager.add('work-old', join(fixture.dir, 'work-old')), failure);
+
+	const remWork = manager.remove('work');
+	const remOld = manager.remove('work-old');
+	t.true(fs.existsSync(remWork));
+	t.true(fs.existsSync(remOld));
+
+	t.deepEqual(manager.emptyTrash({binderName: 'work'}), [remWork]);
+	t.false(fs.existsSync(remWork));
+	t.true(fs.existsSync(remOld));
+
+	t.deepEqual(manager.emptyTrash({binderName: 'work-old'}), [remOld]);
+	t.false(fs.existsSync(remOld));
+
+	manager.shutdown();
+});
+
+test('Export a binder to an archive and import it under a new name', async t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+
+	validateManager(t, manager, fixture);
+
+	const archive = join(fixture.dir, 'export', 'sampledb.notesdb');
+	const importDir = join(fixture.dir, 'imported');
+
+	await manager.exportBinder('sampledb', archive)
+		.then((filename: string) => {
+			t.is(filename, archive);
+			t.true(fs.existsSync(archive));
+
+			return manager.importBinder(archive, 'copydb', importDir);
+		})
+		.then((adb: Binder) => {
+			t.true(adb instanceof Binder);
+			t.true(manager.hasBinder('copydb'));
+			t.is(manager.get('copydb'), adb);
+
+			const config = JSON.parse(fs.readFileSync(join(manager.bindersDirectory, 'copydb', 'config.json')).toString());
+			t.is(config.binderName, 'copydb');
+			t.is(config.dbdir, join(importDir, 'copydb'));
+			t.is(config.trash, join(importDir, 'copydb', 'Trash'));
+			t.is(config.metaFile, join(manager.bindersDirectory, 'copydb', 'meta.json'));
+			t.is(config.logdir, join(manager.bindersDirectory, 'copydb'));
+
+			t.true(fs.existsSync(join(importDir, 'copydb', 'Test1', 'Default', 'test3.txt')));
+			t.true(fs.existsSync(join(importDir, 'copydb', 'Trash')));
+			t.deepEqual(adb.sections().sort(), manager.get('sampledb').sections().sort());
+
+			return manager.importBinder(archive, 'copydb', importDir);
+		})
+		.then(() => {
+			t.fail('Importing over an existing binder should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'copydb' already exists, will not import`);
+		});
+
+	await manager.importBinder(join(fixture.dir, 'binders', 'sampledb', 'config.json'))
+		.then(() => {
+			t.fail('Importing a file that is not an archive should fail');
+		})
+		.catch((err: string) => {
+			t.regex(err, /^Can't read binder archive/);
+		});
+
+	await manager.exportBinder('blahblahblah', archive)
+		.then(() => {
+			t.fail('Exporting a missing binder should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'blahblahblah' not found in manager`);
+		});
+
+	manager.shutdown();
+});
+
+test('Move and copy artifacts, notebooks and sections between binders', async t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+
+	validateManager(t, manager, fixture);
+
+	const src: Binder = manager.get('sampledb');
+	const dst: Binder = manager.get('default');
+	const test3 = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	let buf: string = '';
+
+	await src.addTag(test3, 'project/alpha')
+		.then((artifact: Artifact) => {
+			buf = artifact.buf;
+			return manager.copy('sampledb', test3, 'default');
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Test1/Default/test3.txt');
+			t.is(artifact.buf, buf);
+			t.deepEqual(artifact.tags, ['project/alpha']);
+			t.true(src.hasArtifact(test3));
+			t.true(dst.hasArtifact(test3));
+			return manager.copy('sampledb', test3, 'default');
+		})
+		.then((artifact: Artifact) => {
+			t.not(artifact.filename, 'test3.txt');
+			t.true(artifact.filename.startsWith('test3.txt.'));
+			t.is(artifact.buf, buf);
+			return manager.copy('sampledb', {section: 'Default', notebook: 'notebook1'}, 'default', {section: 'Archive', notebook: 'old'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.type, ArtifactType.SN);
+			t.true(dst.hasArtifact({section: 'Archive', notebook: 'old', filename: 'test2.txt'}));
+			t.true(fs.existsSync(join(dst.config.dbdir, 'Archive', 'old', 'test2.txt')));
+			t.true(src.hasArtifact({section: 'Default', notebook: 'notebook1', filename: 'test2.txt'}));
+			return manager.move('sampledb', {section: 'Test2'}, 'default');
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.type, ArtifactType.S);
+			t.false(src.hasSection({section: 'Test2'}));
+			t.false(fs.existsSync(join(src.config.dbdir, 'Test2')));
+			t.true(dst.hasArtifact({section: 'Test2', notebook: 'Default', filename: 'test4.txt'}));
+			return manager.copy('sampledb', test3, 'default', {section: 'Test1', notebook: 'Default'});
+		})
+		.then(() => {
+			t.fail('Copying an artifact to a notebook should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, 'SRC artifact type does not match DST');
+		});
+
+	await manager.move('sampledb', test3, 'blahblahblah')
+		.then(() => {
+			t.fail('Moving to a missing binder should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'blahblahblah' not found in manager`);
+		});
+
+	manager.shutdown();
+});
@@ -0,0 +1,102 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder} from '../index';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test a binder with nested notebooks', async t => {
+	const fixture = new Fixture('simple-db');
+	let adb = new Binder({
+		nested: true,
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	t.true(adb.nested);
+
+	const plan = {section: 'Test1', notebook: 'Projects/2018', filename: 'plan.txt'};
+
+	await adb.add(plan)
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Test1/Projects/2018/plan.txt');
+			t.true(fs.existsSync(path.join(adb.config.dbdir, 'Test1', 'Projects', '2018', 'plan.txt')));
+			t.true(adb.hasNotebook({section: 'Test1', notebook: 'Projects'}));
+			t.true(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2018'}));
+			t.deepEqual(adb.notebooks('Test1').map((it: any) => it.name).sort(), ['Default', 'Projects', 'Projects/2018']);
+
+			artifact.buf = 'The plan for 2018';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			return adb.add({section: 'Test1', notebook: 'Projects/bad|name', filename: 'x.txt'});
+		})
+		.then(() => {
+			t.fail('An invalid nested notebook name should fail');
+		})
+		.catch((err: string) => {
+			t.true(err.includes(`Invalid notebook name 'Projects/bad|name'`));
+		});
+
+	await adb.shutdown();
+
+	// The nested setting is kept with the binder
+	adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	t.true(adb.nested);
+	t.true(adb.hasArtifact(plan));
+
+	await adb.get(plan)
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'The plan for 2018');
+			return adb.trash({section: 'Test1', notebook: 'Projects'});
+		})
+		.then(() => {
+			t.false(adb.hasNotebook({section: 'Test1', notebook: 'Projects'}));
+			t.false(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2018'}));
+			t.true(adb.hasArtifact(plan, 'trash'));
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	await adb.shutdown();
+});
+
+test('Test a three level binder ignores nested directories', async t => {
+	const fixture = new Fixture('simple-db');
+	fs.mkdirsSync(path.join(fixture.dir, 'sampledb', 'Test1', 'Default', 'deeper'));
+	fs.writeFileSync(path.join(fixture.dir, 'sampledb', 'Test1', 'Default', 'deeper', 'hidden.txt'), 'hidden');
+
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	t.false(adb.nested);
+	t.true(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'test3.txt'}));
+	t.false(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'deeper'}));
+	t.false(adb.hasNotebook({section: 'Test1', notebook: 'Default/deeper'}));
+
+	await adb.add({section: 'Test1', notebook: 'Projects/2018', filename: 'plan.txt'})
+		.then(() => {
+			t.fail('A nested notebook should fail without the nested option');
+		})
+		.catch((err: string) => {
+			t.true(err.includes(`Invalid notebook name 'Projects/2018'`));
+		});
+
+	await adb.shutdown();
+});
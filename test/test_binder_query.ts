@@ -0,0 +1,113 @@
+'use strict';
+
+import test from 'ava';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Binder, QueryResult} from '../index';
+import {parseQuery} from '../lib/query';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test parsing of structured query strings', t => {
+	t.deepEqual(parseQuery(''), {type: 'all'});
+	t.deepEqual(parseQuery('section:Work'), {type: 'field', field: 'section', op: '=', value: 'Work'});
+
+	t.deepEqual(parseQuery('section:Work tag:urgent updated:>2026-01-01 "meeting notes"'), {
+		type: 'and',
+		children: [
+			{type: 'field', field: 'section', op: '=', value: 'Work'},
+			{type: 'field', field: 'tag', op: '=', value: 'urgent'},
+			{type: 'field', field: 'updated', op: '>', value: '2026-01-01'},
+			{type: 'text', search: '"meeting notes"'}
+		]
+	});
+
+	t.deepEqual(parseQuery('notebook:"My Notes" OR -tag:old'), {
+		type: 'or',
+		children: [
+			{type: 'field', field: 'notebook', op: '=', value: 'My Notes'},
+			{type: 'not', children: [{type: 'field', field: 'tag', op: '=', value: 'old'}]}
+		]
+	});
+
+	t.deepEqual(parseQuery('alpha beta AND NOT (gamma OR delta)'), {
+		type: 'and',
+		children: [
+			{type: 'text', search: 'alpha beta'},
+			{type: 'not', children: [{type: 'or', children: [
+				{type: 'text', search: 'gamma'},
+				{type: 'text', search: 'delta'}
+			]}]}
+		]
+	});
+});
+
+test('Test query syntax errors (negative test)', t => {
+	t.throws(() => parseQuery('(section:Work'));
+	t.throws(() => parseQuery('section:Work)'));
+	t.throws(() => parseQuery('"unterminated'));
+	t.throws(() => parseQuery('updated:>notadate'));
+	t.throws(() => parseQuery('section:>Work'));
+	t.throws(() => parseQuery('tag:'));
+	t.throws(() => parseQuery('NOT'));
+});
+
+test('Test structured queries against the simple dB', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const filenames = (results: QueryResult[]) => {
+		return results.map((it: QueryResult) => it.artifact.filename).sort();
+	};
+
+	await adb.query('section:Default')
+		.then((results: QueryResult[]) => {
+			t.deepEqual(filenames(results), ['test1.txt', 'test2.txt', 'test5.txt']);
+			return adb.query('section:default -notebook:notebook1');
+		})
+		.then((results: QueryResult[]) => {
+			t.deepEqual(filenames(results), ['test1.txt']);
+			return adb.query('tag:A');
+		})
+		.then((results: QueryResult[]) => {
+			t.deepEqual(filenames(results), ['test1.txt']);
+			return adb.query('"file 2" OR section:Test1');
+		})
+		.then((results: QueryResult[]) => {
+			t.deepEqual(filenames(results), ['test2.txt', 'test3.txt', 'test5.txt']);
+			return adb.query('filename:test* updated:>2000-01-01 updated:<3000-01-01');
+		})
+		.then((results: QueryResult[]) => {
+			t.is(results.length, 5);
+			return adb.query('section:Test1 file');
+		})
+		.then((results: QueryResult[]) => {
+			t.is(results.length, 1);
+			t.is(results[0].artifact.filename, 'test3.txt');
+			t.true(results[0].score > 0);
+			t.deepEqual(results[0].positions, [{start: 5, end: 9}]);
+			return adb.query('(file notebook:Missing) OR section:Test1');
+		})
+		.then((results: QueryResult[]) => {
+			// the text of the branch that doesn't match isn't kept
+			t.deepEqual(filenames(results), ['test3.txt']);
+			t.is(results[0].score, 0);
+			t.deepEqual(results[0].positions, []);
+			return adb.query('section:(');
+		})
+		.then(() => {
+			t.fail('Invalid query should be rejected');
+		})
+		.catch((err: string) => {
+			t.truthy(err);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,126 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder} from '../index';
+import {ArtifactSearch} from '../lib/artifact';
+import {DiffLine, diffLines, RevisionInfo, RevisionStore} from '../lib/revisions';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test line differences between two strings', t => {
+	t.deepEqual(diffLines('a\nb\nc', 'a\nc\nd'), [
+		{op: ' ', line: 'a'},
+		{op: '-', line: 'b'},
+		{op: ' ', line: 'c'},
+		{op: '+', line: 'd'}
+	]);
+
+	t.deepEqual(diffLines('', 'x'), [
+		{op: '-', line: ''},
+		{op: '+', line: 'x'}
+	]);
+
+	t.true(diffLines('same\ntext', 'same\ntext').every((it: DiffLine) => it.op === ' '));
+});
+
+test('Test revision store retention limits', t => {
+	const fixture = new Fixture();
+	const store = new RevisionStore(path.join(fixture.dir, 'revisions'), {
+		maxRevisions: 3
+	});
+
+	for (let i = 0; i < 5; i++) {
+		t.truthy(store.add('S/N/file.txt', `content ${i}`));
+	}
+
+	// duplicate of the latest revision is not kept
+	t.is(store.add('S/N/file.txt', 'content 4'), null);
+
+	const revisions: RevisionInfo[] = store.list('S/N/file.txt');
+	t.is(revisions.length, 3);
+	t.is(store.get('S/N/file.txt', revisions[0].id), 'content 4');
+	t.is(store.get('S/N/file.txt', revisions[2].id), 'content 2');
+	t.throws(() => store.get('S/N/file.txt', '1234'));
+
+	store.move('S/N/file.txt', 'S/N/moved.txt');
+	t.is(store.list('S/N/file.txt').length, 0);
+	t.is(store.list('S/N/moved.txt').length, 3);
+
+	const disabled = new RevisionStore(path.join(fixture.dir, 'none'), {
+		maxRevisions: 0
+	});
+	t.is(disabled.add('S/N/file.txt', 'content'), null);
+	t.false(fs.existsSync(path.join(fixture.dir, 'none')));
+});
+
+test('Test saving, listing, diffing and restoring artifact revisions', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const lookup: ArtifactSearch = {
+		section: 'Default',
+		notebook: 'Default',
+		filename: 'test1.txt'
+	};
+	let revisions: RevisionInfo[] = [];
+
+	await adb.get(lookup)
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Test File #1\nSecond line\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Replaced\n';
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			return adb.revisions(lookup);
+		})
+		.then((list: RevisionInfo[]) => {
+			revisions = list;
+			t.is(revisions.length, 2);
+			t.true(fs.existsSync(path.join(adb.config.revisionDir, 'Default', 'Default', 'test1.txt')));
+			return adb.getRevision(lookup, revisions[1].id);
+		})
+		.then((content: string) => {
+			t.is(content, 'Test File #1\n');
+			return adb.diffRevisions(lookup, revisions[1].id, revisions[0].id);
+		})
+		.then((diff: DiffLine[]) => {
+			t.deepEqual(diff.filter((it: DiffLine) => it.op === '+').map((it: DiffLine) => it.line), ['Second line']);
+			return adb.restoreRevision(lookup, revisions[1].id);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'Test File #1\n');
+			t.false(artifact.isDirty());
+			t.is(fs.readFileSync(artifact.absolute()).toString(), 'Test File #1\n');
+			return adb.revisions(lookup);
+		})
+		.then((list: RevisionInfo[]) => {
+			t.is(list.length, 3);
+			return adb.getRevision(lookup, list[0].id);
+		})
+		.then((content: string) => {
+			t.is(content, 'Replaced\n');
+			return adb.getRevision(lookup, 'badid');
+		})
+		.then(() => {
+			t.fail('Retrieving an invalid revision should be rejected');
+		})
+		.catch((err: string) => {
+			t.truthy(err);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,111 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder} from '../index';
+import {planSync, SyncReport} from '../lib/sync';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test planning the actions of a sync', t => {
+	const local = {a: '1', b: '2', c: '3', d: '4', e: '5', f: '6', g: '7'};
+	const remote = {a: '1', b: '9', c: '3', e: '8', f: '0', h: '1', i: '2'};
+	const base = {b: '2', c: '9', d: '4', e: 'x', f: '6', g: '7', i: '2', j: '1'};
+
+	t.deepEqual(planSync(local, remote, base, new Set(['i']), new Set(['d'])), [
+		{action: 'pull', path: 'b'},
+		{action: 'trashLocal', path: 'd'},
+		{action: 'conflict', path: 'e'},
+		{action: 'pull', path: 'f'},
+		{action: 'removeLocal', path: 'g'},
+		{action: 'pull', path: 'h'},
+		{action: 'trashRemote', path: 'i'}
+	]);
+
+	t.deepEqual(planSync({a: '1'}, {}, {}, new Set(), new Set()), [{action: 'push', path: 'a'}]);
+	t.deepEqual(planSync({a: '2'}, {}, {a: '1'}, new Set(), new Set(['a'])), [{action: 'push', path: 'a'}]);
+});
+
+test('Test syncing a binder with another directory', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const other = join(fixture.dir, 'synced');
+	const test3 = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const test4 = {section: 'Test2', notebook: 'Default', filename: 'test4.txt'};
+	const remote = {section: 'Test2', notebook: 'Default', filename: 'remote.md'};
+
+	await adb.sync(other)
+		.then((report: SyncReport) => {
+			t.is(report.directory, other);
+			t.true(report.remote.added.includes('Test1/Default/test3.txt'));
+			t.is(report.remote.added.length, 6);
+			t.is(fs.readFileSync(join(other, 'Test1', 'Default', 'test3.txt')).toString(), 'Test File #3\n');
+			t.false(fs.existsSync(join(other, 'Trash')));
+			return adb.sync(other);
+		})
+		.then((report: SyncReport) => {
+			t.deepEqual(report.local, {added: [], updated: [], trashed: [], removed: []});
+			t.deepEqual(report.remote, {added: [], updated: [], trashed: [], removed: []});
+
+			fs.writeFileSync(join(other, 'Test1', 'Default', 'test3.txt'), 'Changed on another machine\n');
+			fs.writeFileSync(join(other, 'Test2', 'Default', 'remote.md'), 'Written on another machine\n');
+			return adb.trash(test4);
+		})
+		.then(() => {
+			return adb.sync(other);
+		})
+		.then((report: SyncReport) => {
+			t.deepEqual(report.local.added, ['Test2/Default/remote.md']);
+			t.deepEqual(report.local.updated, ['Test1/Default/test3.txt']);
+			t.deepEqual(report.remote.trashed, ['Test2/Default/test4.txt']);
+			t.true(fs.existsSync(join(other, 'Trash', 'Test2', 'Default', 'test4.txt')));
+			t.true(adb.hasArtifact(remote));
+			return adb.get(test3);
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.buf, 'Changed on another machine\n');
+
+			artifact.buf = 'Changed in the binder\n';
+			fs.writeFileSync(join(other, 'Test1', 'Default', 'test3.txt'), 'Changed again on another machine\n');
+			fs.removeSync(join(other, 'Test2', 'Default', 'remote.md'));
+			return adb.sync(other);
+		})
+		.then((report: SyncReport) => {
+			t.deepEqual(report.local.removed, ['Test2/Default/remote.md']);
+			t.false(adb.hasArtifact(remote));
+			t.is(report.conflicts.length, 1);
+			t.is(report.conflicts[0].path, 'Test1/Default/test3.txt');
+
+			const copy = report.conflicts[0].copy;
+			t.true(copy.startsWith('Test1/Default/test3.txt.'));
+			t.is(fs.readFileSync(join(adb.config.dbdir, copy)).toString(), 'Changed again on another machine\n');
+			t.is(fs.readFileSync(join(other, copy)).toString(), 'Changed again on another machine\n');
+			t.is(fs.readFileSync(join(other, 'Test1', 'Default', 'test3.txt')).toString(), 'Changed in the binder\n');
+			return adb.sync(other);
+		})
+		.then((report: SyncReport) => {
+			t.is(report.conflicts.length, 0);
+			t.is(report.local.added.length + report.remote.added.length, 0);
+			return adb.sync(join(adb.config.dbdir, 'Test1'));
+		})
+		.then(() => {
+			t.fail('Syncing a binder with its own directory should fail');
+		})
+		.catch((err: string) => {
+			t.regex(err, /^Binder 'sampledb' can't be synced with/);
+		});
+
+	await adb.shutdown();
+});
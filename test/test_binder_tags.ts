@@ -0,0 +1,163 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder, TagInfo} from '../index';
+import {ArtifactSearch} from '../lib/artifact';
+import {
+	isTagOf,
+	normalizeTag,
+	renameTags,
+	tagAncestors,
+	TagIndex
+} from '../lib/tags';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test hierarchical tag helper functions', t => {
+	t.is(normalizeTag(' project//alpha/ '), 'project/alpha');
+	t.is(normalizeTag(''), '');
+	t.deepEqual(tagAncestors('a/b/c'), ['a', 'a/b', 'a/b/c']);
+	t.true(isTagOf('project/alpha', 'project'));
+	t.true(isTagOf('project', 'project'));
+	t.false(isTagOf('projects', 'project'));
+	t.false(isTagOf('project', 'project/alpha'));
+
+	t.deepEqual(renameTags(['project/alpha', 'x'], 'project', 'work'), ['work/alpha', 'x']);
+	t.deepEqual(renameTags(['a', 'b'], 'a', 'b'), ['b']);
+	t.is(renameTags(['a', 'b'], 'c', 'd'), null);
+});
+
+test('Test the tag index with nested tags', t => {
+	const index = new TagIndex();
+
+	index.set('S/N/one.txt', ['project/alpha', 'urgent']);
+	index.set('S/N/two.txt', ['project/beta']);
+	index.set('S/M/three.txt', []);
+
+	t.deepEqual(index.list(), [
+		{name: 'project', count: 2},
+		{name: 'project/alpha', count: 1},
+		{name: 'project/beta', count: 1},
+		{name: 'urgent', count: 1}
+	]);
+	t.deepEqual(index.find('project'), ['S/N/one.txt', 'S/N/two.txt']);
+	t.deepEqual(index.find('project/beta'), ['S/N/two.txt']);
+	t.deepEqual(index.find('missing'), []);
+
+	index.set('S/N/one.txt', ['urgent']);
+	t.deepEqual(index.find('project'), ['S/N/two.txt']);
+
+	index.removePrefix('S/N/');
+	t.is(index.size, 0);
+});
+
+test('Test adding, removing and renaming tags on an artifact', t => {
+	const artifact = Artifact.factory('fields', {
+		section: 'S',
+		notebook: 'N',
+		filename: 'test.txt'
+	});
+
+	artifact.addTag('project/alpha');
+	artifact.addTag(' project/alpha ');
+	artifact.addTag('project/beta');
+	artifact.addTag('');
+	t.deepEqual(artifact.tags, ['project/alpha', 'project/beta']);
+
+	t.true(artifact.hasTag('project'));
+	t.true(artifact.hasTag('project/alpha'));
+	t.false(artifact.hasTag('proj'));
+
+	t.true(artifact.renameTag('project/beta', 'project/alpha'));
+	t.deepEqual(artifact.tags, ['project/alpha']);
+	t.false(artifact.renameTag('missing', 'other'));
+
+	t.true(artifact.removeTag('project'));
+	t.deepEqual(artifact.tags, []);
+	t.false(artifact.removeTag('project'));
+});
+
+test('Test binder tag management across rename, trash and restore', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const test1: ArtifactSearch = {section: 'Default', notebook: 'Default', filename: 'test1.txt'};
+	const test3: ArtifactSearch = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const renamed: ArtifactSearch = {section: 'Default', notebook: 'Default', filename: 'renamed.txt'};
+	const names = (artifacts: Artifact[]) => artifacts.map((it: Artifact) => it.filename);
+
+	t.deepEqual(adb.tags(), [
+		{name: 'A', count: 1},
+		{name: 'B', count: 1}
+	]);
+
+	await adb.addTag(test1, 'project/alpha')
+		.then(() => {
+			return adb.addTag(test3, 'project/beta');
+		})
+		.then(() => {
+			const tags: TagInfo[] = adb.tags();
+			t.deepEqual(tags.find((it: TagInfo) => it.name === 'project'), {name: 'project', count: 2});
+			return adb.findByTag('project');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(names(artifacts), ['test1.txt', 'test3.txt']);
+			return adb.renameTag('project', 'work');
+		})
+		.then((count: number) => {
+			t.is(count, 2);
+			t.deepEqual(adb.tags().map((it: TagInfo) => it.name), ['A', 'B', 'work', 'work/alpha', 'work/beta']);
+			return adb.renameTag('A', 'B');
+		})
+		.then((count: number) => {
+			t.is(count, 1);
+			t.deepEqual(adb.tags().find((it: TagInfo) => it.name === 'B'), {name: 'B', count: 1});
+			t.falsy(adb.tags().find((it: TagInfo) => it.name === 'A'));
+			return adb.trash(test3);
+		})
+		.then(() => {
+			t.falsy(adb.tags().find((it: TagInfo) => it.name === 'work/beta'));
+			return adb.restore(test3);
+		})
+		.then(() => {
+			return adb.findByTag('work/beta');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(names(artifacts), ['test3.txt']);
+			return adb.rename(test1, renamed);
+		})
+		.then(() => {
+			return adb.findByTag('work');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(names(artifacts), ['renamed.txt', 'test3.txt']);
+			return adb.removeTag(renamed, 'work');
+		})
+		.then((artifact: Artifact) => {
+			t.deepEqual(artifact.tags, ['B']);
+			return adb.addTag(renamed, '  ');
+		})
+		.then(() => {
+			t.fail('An empty tag should be rejected');
+		})
+		.catch((err: string) => {
+			t.truthy(err);
+		});
+
+	await adb.shutdown();
+
+	const metadata = JSON.parse(fs.readFileSync(adb.config.metaFile).toString());
+	t.deepEqual(metadata['Default/Default/renamed.txt'].tags, ['B']);
+	t.deepEqual(metadata['Test1/Default/test3.txt'].tags, ['work/beta']);
+});
@@ -0,0 +1,78 @@
+'use strict';
+
+import test from 'ava';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder} from '../index';
+import {fillTemplate, templateVars} from '../lib/templates';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test filling the placeholders of a template', t => {
+	const vars = templateVars({section: 'Work', notebook: 'Meetings', filename: 'standup.md'}, new Date(2018, 4, 7, 9, 5));
+
+	t.deepEqual(vars, {
+		date: '2018-05-07',
+		time: '09:05',
+		section: 'Work',
+		notebook: 'Meetings',
+		filename: 'standup.md',
+		title: 'standup'
+	});
+
+	t.is(fillTemplate('# {{title}} ({{ date }})\n{{unknown}}', vars), '# standup (2018-05-07)\n{{unknown}}');
+	t.is(fillTemplate('', vars), '');
+});
+
+test('Test creating an artifact from a template', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const meeting = {section: 'Test1', notebook: 'Default', filename: 'standup.md'};
+
+	await adb.add({section: 'Templates', notebook: 'Default', filename: 'meeting.md'})
+		.then((artifact: Artifact) => {
+			artifact.buf = '# {{title}}\nDate: {{date}}\nWhere: {{section}}/{{notebook}}\nLead: {{lead}}\n';
+			artifact.addTag('meeting');
+			return adb.saveArtifact(artifact);
+		})
+		.then(() => {
+			t.deepEqual(adb.templates(), ['meeting.md']);
+			return adb.addFromTemplate(meeting, 'meeting', {lead: 'Alice', title: 'Daily Standup'});
+		})
+		.then((artifact: Artifact) => {
+			t.is(artifact.path(), 'Test1/Default/standup.md');
+			t.is(artifact.buf, `# Daily Standup\nDate: ${templateVars(meeting).date}\nWhere: Test1/Default\nLead: Alice\n`);
+			t.deepEqual(artifact.tags, ['meeting']);
+			t.false(artifact.isDirty());
+			return adb.findByTag('meeting');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.true(artifacts.map((it: Artifact) => it.path()).includes('Test1/Default/standup.md'));
+			return adb.addFromTemplate(meeting, 'meeting.md');
+		})
+		.then(() => {
+			t.fail('Creating an artifact that already exists should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, 'Artifact already exists: Test1|Default|standup.md');
+		});
+
+	await adb.addFromTemplate({section: 'Test1', notebook: 'Default', filename: 'other.md'}, 'blahblahblah')
+		.then(() => {
+			t.fail('Using a template that does not exist should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Template 'blahblahblah' not found`);
+		});
+
+	await adb.shutdown();
+});
@@ -0,0 +1,99 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {Artifact, Binder, TrashEntry} from '../index';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test listing, emptying and purging the trash by section and age', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0,
+		user: 'tester'
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+
+	const test3 = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+	const notebook1 = {section: 'Default', notebook: 'notebook1'};
+	const garbage = path.join(adb.config.trash, 'GarbageSection', 'GarbageNotebook', 'throwaway.txt');
+	const locations = (entries: TrashEntry[]) => entries.map((it: TrashEntry) => it.location).sort();
+	let unique: string = '';
+
+	await adb.trash(test3)
+		.then(() => {
+			return adb.add(test3);
+		})
+		.then(() => {
+			return adb.trash(test3);
+		})
+		.then((artifact: Artifact) => {
+			unique = artifact.path();
+			t.not(unique, 'Test1/Default/test3.txt');
+			return adb.trash(notebook1);
+		})
+		.then(() => {
+			const entries: TrashEntry[] = adb.trashed();
+
+			t.deepEqual(locations(entries), [
+				'Default/notebook1',
+				'GarbageSection/GarbageNotebook/throwaway.txt',
+				'Test1/Default/test3.txt',
+				unique
+			]);
+
+			const entry: TrashEntry = entries.find((it: TrashEntry) => it.location === unique);
+			t.is(entry.original, 'Test1/Default/test3.txt');
+			t.is(entry.deletedBy, 'tester');
+			t.true(entry.deleted instanceof Date);
+			t.is(entries.find((it: TrashEntry) => it.location === 'Default/notebook1').original, 'Default/notebook1');
+			t.is(entries.find((it: TrashEntry) => it.location.startsWith('GarbageSection')).deletedBy, '');
+
+			t.deepEqual(locations(adb.trashed({section: 'Test1'})), ['Test1/Default/test3.txt', unique]);
+			return adb.emptyTrash({section: 'Test1'});
+		})
+		.then(() => {
+			t.false(fs.existsSync(path.join(adb.config.trash, 'Test1')));
+			t.deepEqual(locations(adb.trashed()), ['Default/notebook1', 'GarbageSection/GarbageNotebook/throwaway.txt']);
+			return adb.emptyTrash({olderThan: 7});
+		})
+		.then(() => {
+			t.is(adb.trashed().length, 2);
+
+			const deleted = new Date(Date.now() - (10 * 24 * 60 * 60 * 1000));
+			fs.utimesSync(garbage, deleted, deleted);
+			return adb.shutdown();
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	// Items older than the trash age are purged when the binder is opened
+	const aged = new Binder({
+		root: fixture.dir,
+		saveInterval: 0,
+		trashAge: 7
+	});
+
+	t.is(aged.config.trashAge, 7);
+	t.false(fs.existsSync(path.join(aged.config.trash, 'GarbageSection')));
+	t.deepEqual(locations(aged.trashed()), ['Default/notebook1']);
+	t.is(aged.trashed()[0].deletedBy, 'tester');
+
+	await aged.restore(notebook1)
+		.then(() => {
+			t.deepEqual(aged.trashed(), []);
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	await aged.shutdown();
+});
@@ -0,0 +1,170 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {Artifact, Binder, Events} from '../index';
+import {cleanup, validateBinder} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+function waitEvent(adb: Binder, name: string): Promise<any[]> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			reject(`Timed out waiting for ${name}`);
+		}, 5000);
+
+		adb.once(name, (...args: any[]) => {
+			clearTimeout(timer);
+			resolve(args);
+		});
+	});
+}
+
+test('Test watching the binder for external changes', async t => {
+	const fixture = new Fixture('simple-db');
+	const adb = new Binder({
+		root: fixture.dir,
+		saveInterval: 0,
+		watch: true
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	t.true(adb.watching);
+
+	const dbdir = adb.config.dbdir;
+	const test1 = {section: 'Default', notebook: 'Default', filename: 'test1.txt'};
+	const test3 = {section: 'Test1', notebook: 'Default', filename: 'test3.txt'};
+
+	await adb.get(test3)
+		.then(() => {
+			const event = waitEvent(adb, Events.artifactAdded);
+			fs.writeFileSync(join(dbdir, 'Test1', 'Default', 'external.txt'), 'External file [[Test1/Default/test3.txt]]\n');
+			return event;
+		})
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Default/external.txt');
+			t.true(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'external.txt'}));
+			t.deepEqual(adb.brokenLinks(), []);
+
+			const event = waitEvent(adb, Events.artifactChanged);
+			fs.writeFileSync(join(dbdir, 'Test1', 'Default', 'test3.txt'), 'Changed externally\n');
+			return event;
+		})
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Default/test3.txt');
+			t.is(artifact.buf, 'Changed externally\n');
+			t.false(artifact.isDirty());
+			return adb.find('externally');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(artifacts.map((it: Artifact) => it.filename), ['test3.txt']);
+			return adb.get(test1);
+		})
+		.then((artifact: Artifact) => {
+			artifact.buf = 'Unsaved change\n';
+
+			const event = waitEvent(adb, Events.artifactConflict);
+			fs.writeFileSync(artifact.absolute(), 'Conflicting change\n');
+			return event;
+		})
+		.then(([artifact, content]: any[]) => {
+			t.is(artifact.path(), 'Default/Default/test1.txt');
+			t.is(artifact.buf, 'Unsaved change\n');
+			t.true(artifact.isDirty());
+			t.is(content, 'Conflicting change\n');
+
+			const event = waitEvent(adb, Events.artifactRenamed);
+			fs.mkdirsSync(join(dbdir, 'Test2', 'Moved'));
+			fs.renameSync(join(dbdir, 'Test2', 'Default', 'test4.txt'), join(dbdir, 'Test2', 'Moved', 'test4.txt'));
+			return event;
+		})
+		.then(([artifact, previous]: Artifact[]) => {
+			t.is(artifact.path(), 'Test2/Moved/test4.txt');
+			t.is(previous.path(), 'Test2/Default/test4.txt');
+			t.true(adb.artifacts.has('Test2/Moved/test4.txt'));
+			t.false(adb.artifacts.has('Test2/Default/test4.txt'));
+
+			const event = waitEvent(adb, Events.artifactRemoved);
+			fs.removeSync(join(dbdir, 'Test1', 'Default', 'external.txt'));
+			return event;
+		})
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Default/external.txt');
+			t.false(adb.hasArtifact({section: 'Test1', notebook: 'Default', filename: 'external.txt'}));
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	t.false(adb.watching);
+});
+
+test('Test watching a binder with nested notebooks', async t => {
+	const fixture = new Fixture('simple-db');
+	fs.outputFileSync(join(fixture.dir, 'sampledb', 'Test1', 'Projects', '2018', 'plan.txt'), 'The plan\n');
+
+	const adb = new Binder({
+		nested: true,
+		root: fixture.dir,
+		saveInterval: 0,
+		watch: true
+	});
+
+	validateBinder(t, adb, 'sampledb', fixture.dir, adb.initialized);
+	t.true(adb.hasArtifact({section: 'Test1', notebook: 'Projects/2018', filename: 'plan.txt'}));
+
+	const dbdir = adb.config.dbdir;
+	const event = waitEvent(adb, Events.artifactAdded);
+	fs.writeFileSync(join(dbdir, 'Test1', 'Projects', '2018', 'external.txt'), 'External nested file\n');
+
+	await event
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Projects/2018/external.txt');
+			t.is(artifact.notebook, 'Projects/2018');
+			t.true(adb.hasArtifact({section: 'Test1', notebook: 'Projects/2018', filename: 'external.txt'}));
+
+			const changed = waitEvent(adb, Events.artifactChanged);
+			fs.writeFileSync(join(dbdir, 'Test1', 'Projects', '2018', 'plan.txt'), 'The new plan\n');
+			return changed;
+		})
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Projects/2018/plan.txt');
+			return adb.find('new');
+		})
+		.then((artifacts: Artifact[]) => {
+			t.deepEqual(artifacts.map((it: Artifact) => it.path()), ['Test1/Projects/2018/plan.txt']);
+
+			const added = waitEvent(adb, Events.artifactAdded);
+			fs.outputFileSync(join(dbdir, 'Test1', 'Projects', '2019', 'Q1', 'q1.txt'), 'First quarter\n');
+			return added;
+		})
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Projects/2019/Q1/q1.txt');
+			t.true(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2019'}));
+			t.true(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2019/Q1'}));
+
+			const removed = waitEvent(adb, Events.artifactRemoved);
+			fs.removeSync(join(dbdir, 'Test1', 'Projects', '2019'));
+			return removed;
+		})
+		.then(([artifact]: Artifact[]) => {
+			t.is(artifact.path(), 'Test1/Projects/2019/Q1/q1.txt');
+			t.false(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2019'}));
+			t.false(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2019/Q1'}));
+			t.true(adb.hasNotebook({section: 'Test1', notebook: 'Projects/2018'}));
+			return adb;
+		})
+		.then(adb.shutdown)
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	t.false(adb.watching);
+});
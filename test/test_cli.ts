@@ -0,0 +1,124 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {parseArgs, run} from '../lib/cli';
+import {cleanup} from './helpers';
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test parsing the command line', t => {
+	t.deepEqual(parseArgs(['--json', 'cat', 'Work/Meetings/notes.md', '-b', 'sampledb']), {
+		command: 'cat',
+		args: ['Work/Meetings/notes.md'],
+		opts: {json: true, binder: 'sampledb'}
+	});
+	t.deepEqual(parseArgs([]), {command: '', args: [], opts: {}});
+	t.throws(() => parseArgs(['--binder']), 'The option --binder requires a value');
+	t.throws(() => parseArgs(['--bogus', 'binders']), 'Unknown option --bogus');
+});
+
+test('Test running commands from the command line', async t => {
+	const fixture = new Fixture('simple-manager');
+	const env = {
+		NOTESDB_BASE: fixture.dir,
+		NOTESDB_BINDER: 'sampledb'
+	};
+	const cli = (...argv: string[]) => run(['--directory', fixture.dir, ...argv], env);
+
+	await cli('--help')
+		.then((output: string) => {
+			t.regex(output, /^Usage: notesdb/);
+			return cli('binders');
+		})
+		.then((output: string) => {
+			t.is(output, 'default\nsampledb');
+			return cli('--json', 'sections');
+		})
+		.then((output: string) => {
+			t.true(JSON.parse(output).includes('Test1'));
+			return cli('notebooks', 'Default');
+		})
+		.then((output: string) => {
+			t.is(output, 'Default (1)\nnotebook1 (1)');
+			return cli('cat', 'Test1/Default/test3.txt');
+		})
+		.then((output: string) => {
+			t.is(output, 'Test File #3');
+			return cli('add', 'Work/Meetings/2018-05-01.md', '--content', 'Budget review\n');
+		})
+		.then((output: string) => {
+			t.is(output, 'Added Work/Meetings/2018-05-01.md');
+			t.is(fs.readFileSync(join(fixture.dir, 'sampledb', 'Work', 'Meetings', '2018-05-01.md')).toString(), 'Budget review\n');
+			return run(['edit', 'Work/Meetings/2018-05-01.md'], env, 'Budget approved\n');
+		})
+		.then((output: string) => {
+			t.is(output, 'Saved Work/Meetings/2018-05-01.md');
+			return cli('--json', 'find', 'approved');
+		})
+		.then((output: string) => {
+			t.deepEqual(JSON.parse(output).map((it: any) => it.path), ['Work/Meetings/2018-05-01.md']);
+			return cli('rename', 'Work/Meetings/2018-05-01.md', 'Work/Meetings/budget.md');
+		})
+		.then((output: string) => {
+			t.is(output, 'Renamed to Work/Meetings/budget.md');
+			return cli('trash', 'Work/Meetings/budget.md');
+		})
+		.then((output: string) => {
+			t.is(output, 'Trashed Work/Meetings/budget.md');
+			t.true(fs.existsSync(join(fixture.dir, 'sampledb', 'Trash', 'Work', 'Meetings', 'budget.md')));
+			return cli('restore', 'Work/Meetings/budget.md');
+		})
+		.then((output: string) => {
+			t.is(output, 'Restored Work/Meetings/budget.md');
+			return cli('empty-trash');
+		})
+		.then((output: string) => {
+			t.is(output, `Emptied the trash of binder 'sampledb'`);
+			t.false(fs.existsSync(join(fixture.dir, 'sampledb', 'Trash', 'GarbageSection')));
+			return cli('create', 'newdb');
+		})
+		.then((output: string) => {
+			t.is(output, `Created binder 'newdb' in ${join(fixture.dir, 'newdb')}`);
+			return cli('remove', 'newdb');
+		})
+		.then((output: string) => {
+			t.regex(output, /^Removed binder 'newdb'/);
+			return cli('binders');
+		})
+		.then((output: string) => {
+			t.is(output, 'default\nsampledb');
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	await cli('cat', 'Test1/Default')
+		.then(() => {
+			t.fail('A treeitem without a filename should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Invalid treeitem 'Test1/Default', expected {section}/{notebook}/{filename}`);
+		});
+
+	await cli('--binder', 'blahblahblah', 'sections')
+		.then(() => {
+			t.fail('Using a missing binder should fail');
+		})
+		.catch((err: string) => {
+			t.is(err, `Binder 'blahblahblah' not found in manager`);
+		});
+
+	await cli('bogus')
+		.then(() => {
+			t.fail('An unknown command should fail');
+		})
+		.catch((err: string) => {
+			t.regex(err, /^Unknown command 'bogus'/);
+		});
+});
@@ -0,0 +1,206 @@
+'use strict';
+
+import test from 'ava';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as path from 'path';
+import {Fixture} from 'util.fixture';
+import {join} from 'util.join';
+import {PromiseFn} from 'util.promise';
+import {BinderManager, startServer} from '../index';
+import {errorCode} from '../lib/server';
+import {cleanup} from './helpers';
+
+interface Reply {
+	status: number;
+	body: any;
+}
+
+function request(port: number, method: string, route: string, body: any = null, type: string = 'application/json') {
+	return new Promise((resolve: PromiseFn<Reply>, reject: PromiseFn<string>) => {
+		const req = http.request({
+			host: 'localhost',
+			port: port,
+			method: method,
+			path: route,
+			headers: {'Content-Type': type}
+		}, (res: http.IncomingMessage) => {
+			const chunks: Buffer[] = [];
+
+			res.on('data', (chunk: Buffer) => {
+				chunks.push(chunk);
+			});
+
+			res.on('end', () => {
+				resolve({
+					status: res.statusCode,
+					body: JSON.parse(Buffer.concat(chunks).toString())
+				});
+			});
+		});
+
+		req.on('error', (err: Error) => {
+			reject(err.message);
+		});
+
+		if (body != null) {
+			req.write((typeof body === 'string') ? body : JSON.stringify(body));
+		}
+		req.end();
+	});
+}
+
+test.after.always(async t => {
+	await cleanup(path.basename(__filename), t);
+});
+
+test('Test choosing the status code for an error', t => {
+	t.is(errorCode(`Binder 'x' not found in manager`), 404);
+	t.is(errorCode(`Artifact doesn't exist: a|b|c`), 404);
+	t.is(errorCode(`Binder 'x' already exists`), 409);
+	t.is(errorCode(`Notebook 'a/b' is locked`), 423);
+	t.is(errorCode('No difference between artifacts in rename request'), 400);
+	t.is(errorCode('Error writing artifact: disk full'), 500);
+});
+
+test('Test the REST routes of the server', async t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+	const server: http.Server = await startServer(manager, {port: 0});
+	const port: number = server.address().port;
+	const artifact = {section: 'Test1', notebook: 'Default', filename: 'new.md'};
+
+	await request(port, 'GET', '/binders')
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.deepEqual(reply.body.sort(), ['default', 'sampledb']);
+			return request(port, 'POST', '/binders', {name: 'newdb', directory: join(fixture.dir, 'elsewhere')});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 201);
+			t.true(manager.hasBinder('newdb'));
+			t.is(manager.get('newdb').config.root, join(fixture.dir));
+			t.false(fs.existsSync(join(fixture.dir, 'elsewhere')));
+			return request(port, 'POST', '/binders', {name: 'newdb'});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 409);
+			return request(port, 'DELETE', '/binders/newdb');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.false(manager.hasBinder('newdb'));
+			return request(port, 'GET', '/binders/sampledb/sections');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.true(reply.body.includes('Test1'));
+			return request(port, 'GET', '/binders/sampledb/sections/Section%20With%20Spaces/notebooks');
+		})
+		.then((reply: Reply) => {
+			t.deepEqual(reply.body, [{name: 'Default', count: 0}, {name: 'Notebook With Spaces', count: 1}]);
+			return request(port, 'GET', '/binders/sampledb/artifacts/Test1/Default/test3.txt');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.is(reply.body.path, 'Test1/Default/test3.txt');
+			t.is(reply.body.content, 'Test File #3\n');
+			return request(port, 'POST', '/binders/sampledb/artifacts', Object.assign({content: 'A new rocket\n'}, artifact));
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 201);
+			t.is(reply.body.content, 'A new rocket\n');
+			return request(port, 'GET', '/binders/sampledb/find?search=rocket');
+		})
+		.then((reply: Reply) => {
+			t.deepEqual(reply.body.map((it: any) => it.path), ['Test1/Default/new.md']);
+			return request(port, 'POST', '/binders/sampledb/rename', {
+				src: artifact,
+				dst: {section: 'Test1', notebook: 'Default', filename: 'renamed.md'}
+			});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.is(reply.body.path, 'Test1/Default/renamed.md');
+			return request(port, 'POST', '/binders/sampledb/trash', {section: 'Test1', notebook: 'Default', filename: 'renamed.md'});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.false(manager.get('sampledb').hasArtifact({section: 'Test1', notebook: 'Default', filename: 'renamed.md'}));
+			return request(port, 'POST', '/binders/sampledb/restore', {section: 'Test1', notebook: 'Default', filename: 'renamed.md'});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 200);
+			t.true(manager.get('sampledb').hasArtifact({section: 'Test1', notebook: 'Default', filename: 'renamed.md'}));
+
+			// The trash is sampledb/Trash, so this refers to a directory
+			// outside of the binder.
+			fs.mkdirsSync(join(fixture.dir, 'secret'));
+			return request(port, 'POST', '/binders/sampledb/restore', {section: '..', notebook: '..', filename: 'secret'});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 400);
+			t.regex(reply.body.error, /^Invalid item to restore/);
+			t.true(fs.existsSync(join(fixture.dir, 'secret')));
+			t.false(fs.existsSync(join(path.dirname(fixture.dir), 'secret')));
+			return request(port, 'GET', '/binders/sampledb/artifacts/Test1/Default/missing.txt');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 404);
+			t.regex(reply.body.error, /^Artifact doesn't exist/);
+			return request(port, 'GET', '/binders/blahblahblah/sections');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 404);
+			return request(port, 'POST', '/binders/sampledb/trash', '{bad json');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 400);
+			return request(port, 'POST', '/binders/sampledb/trash', 'section=Test1', 'application/x-www-form-urlencoded');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 415);
+			t.true(manager.get('sampledb').hasSection({section: 'Test1'}));
+			return request(port, 'POST', '/binders/sampledb/artifacts', {section: '..', notebook: '..', filename: 'escape.txt'});
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 400);
+			t.regex(reply.body.error, /^Invalid section name/);
+			t.false(fs.existsSync(join(fixture.dir, 'escape.txt')));
+			t.false(fs.existsSync(join(path.dirname(fixture.dir), 'escape.txt')));
+			return request(port, 'PUT', '/binders');
+		})
+		.then((reply: Reply) => {
+			t.is(reply.status, 405);
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	server.close();
+	manager.shutdown();
+});
+
+test('Test refusing a request body that is too large', async t => {
+	const fixture = new Fixture('simple-manager');
+	const manager = new BinderManager(fixture.dir, {
+		defaultDirectory: join(fixture.dir)
+	});
+	const server: http.Server = await startServer(manager, {maxBodySize: 16, port: 0});
+	const port: number = server.address().port;
+
+	await request(port, 'POST', '/binders', {name: 'a binder name that is too long'})
+		.then((reply: Reply) => {
+			t.is(reply.status, 413);
+			t.is(reply.body.error, 'The request body is too large');
+			t.false(manager.hasBinder('a binder name that is too long'));
+		})
+		.catch((err: string) => {
+			t.fail(err);
+		});
+
+	server.close();
+	manager.shutdown();
+});